@@ -1,26 +1,187 @@
-import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { COCOJson, COCOImage } from './types';
-import { getBasename, buildFileTree } from './utils';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { COCOJson, COCOImage, COCOAnnotation, DisplaySettings, AnnotationStyle } from './types';
+import { getBasename, buildFileTree, collectTreeImages, matchImageFiles, stripExtension, ImageBatch, TreeNode, DEFAULT_DISPLAY_SETTINGS, getColorForId } from './utils';
 import { Dropzone } from './components/Dropzone';
+import { ImageBatchList } from './components/ImageBatchList';
+import { BatchNavigator } from './components/BatchNavigator';
+import { RasterImage } from './lib/raster';
+import { loadImageFile, isSupportedImageFile } from './lib/imageLoader';
+import { NiftiVolume, SliceMappingOptions, DEFAULT_SLICE_MAPPING, loadNiftiFile, mapSlicesToImages, extractSlice, getSliceCount } from './lib/nifti';
+import { VolumePanel } from './components/VolumePanel';
+import { ExportPanel } from './components/ExportPanel';
+import { ImportPanel } from './components/ImportPanel';
+import { ImportResult } from './lib/annotationImport';
+import { LoadProgress } from './components/LoadProgress';
+import { parseJsonFile, isAbortError, LoadProgressUnit } from './lib/jsonLoader';
+import { DatasetIndex, buildDatasetIndex, isCocoJson, getImage, getImageAnnotations, getCategoryName as lookupCategoryName, replaceIndexedAnnotation } from './lib/datasetIndex';
+import { ComparisonPanel, ComparisonLayers } from './components/ComparisonPanel';
+import { Prediction, SkippedResults, ComparisonOptions, ImageComparison, DEFAULT_COMPARISON_OPTIONS, MATCH_STATUS_COLORS, IouType, parseResults, groupByImage, compareImage } from './lib/comparison';
+import { EvalResult, evaluateCoco } from './lib/cocoEval';
+import { EvaluationReport } from './components/EvaluationReport';
+import { ValidationPanel } from './components/ValidationPanel';
+import { StatisticsDashboard } from './components/StatisticsDashboard';
+import { computeDatasetStats, computeFolderStats, getFolderDepth, getFolderLevelExamples } from './lib/statistics';
+import { RleFormat, detectRleFormat, downloadBlob } from './lib/cocoExport';
+import { SnapshotOptions, SnapshotSource, DEFAULT_SNAPSHOT_OPTIONS, renderSnapshotsZip } from './lib/snapshot';
+import { getStyledColor, getStyledLabel } from './lib/overlayRenderer';
+import { BatchRenderPanel, BatchRenderProgress } from './components/BatchRenderPanel';
 import { Viewer } from './components/Viewer';
 import { FileTree } from './components/FileTree';
+import { TreeSearchBar } from './components/TreeSearchBar';
+import { compileTreeQuery } from './lib/treeQuery';
 import { MetadataPreview } from './components/MetadataPreview';
-import { AlertCircle, FileText, Image as ImageIcon, CheckCircle, Database, Layers, FolderTree, Search, GripVertical } from 'lucide-react';
+import { SessionManager } from './components/SessionManager';
+import { SessionRecord, listSessions, createSession, updateSession, saveSessionData, loadSessionData, deleteSession, getLastSessionId, setLastSessionId } from './lib/sessionStore';
+import { hasReadPermission, readDirectoryFiles } from './lib/directoryAccess';
+import { UrlState, ViewFocus, parseUrlHash, formatUrlHash } from './lib/urlState';
+import { AlertCircle, FileText, Image as ImageIcon, CheckCircle, Database, Layers, FolderTree, GripVertical, BarChart3, Target, Play } from 'lucide-react';
 
-type Tab = 'upload' | 'structure';
+type Tab = 'upload' | 'structure' | 'statistics' | 'evaluation';
+
+// One mask edit; undo swaps the annotation objects back
+interface AnnotationEdit {
+  before: COCOAnnotation;
+  after: COCOAnnotation;
+}
+
+const MAX_UNDO_STEPS = 100;
+
+// Session saves are debounced; the dataset can be hundreds of MB, so edits wait longer than UI changes
+const SESSION_UI_SAVE_DELAY = 1000;
+const SESSION_DATA_SAVE_DELAY = 5000;
+
+// Tabs a restored session or a link may open (mAP needs predictions, which are not saved)
+const isRestorableTab = (tab: string): tab is Tab => tab === 'upload' || tab === 'structure' || tab === 'statistics';
+
+// What the viewer overlays on an image, with the match status when predictions are loaded
+interface ImageOverlay {
+  annotations: COCOAnnotation[];
+  styles?: Map<number, AnnotationStyle>;
+  comparison: ImageComparison | null;
+}
+
+// Ground truth and/or predictions above the score threshold, colored by match status
+const buildImageOverlay = (
+  image: COCOImage | null,
+  groundTruth: COCOAnnotation[],
+  predictionsByImage: Map<string, Prediction[]> | null,
+  options: ComparisonOptions,
+  layers: ComparisonLayers,
+  getCategoryName: (id: number) => string
+): ImageOverlay => {
+  if (!image || !predictionsByImage) return { annotations: groundTruth, comparison: null };
+  const imagePredictions = predictionsByImage.get(String(image.id)) || [];
+  const comparison = compareImage(image, groundTruth, imagePredictions, options);
+  const annotations = [
+    ...(layers.groundTruth ? groundTruth : []),
+    ...(layers.predictions ? imagePredictions.filter(p => p.score >= options.scoreThreshold) : []),
+  ];
+
+  const styles = new Map<number, AnnotationStyle>();
+  annotations.forEach(ann => {
+    const status = comparison.status.get(ann.id);
+    if (!status) return;
+    const score = (ann as Prediction).score;
+    const isPrediction = typeof score === 'number';
+    const label = [status === 'ignored' ? 'Crowd' : status.toUpperCase(), getCategoryName(ann.category_id)];
+    if (isPrediction) label.push(score.toFixed(2));
+    styles.set(ann.id, { color: MATCH_STATUS_COLORS[status], label: label.join(' '), dashed: isPrediction });
+  });
+  return { annotations, styles, comparison };
+};
 
 function App() {
   const [cocoData, setCocoData] = useState<COCOJson | null>(null);
+  // Where the annotations came from, for naming and RLE round-tripping on export
+  const [jsonFileName, setJsonFileName] = useState('annotations.json');
+  const [inputRleFormat, setInputRleFormat] = useState<RleFormat | null>(null);
+  // Lookup tables for cocoData, kept in step with it (built by the JSON worker on load)
+  const [datasetIndex, setDatasetIndex] = useState<DatasetIndex | null>(null);
+
+  // Background JSON parsing (annotations and predictions), with progress in bytes
+  const [jsonLoad, setJsonLoad] = useState<{ name: string; loaded: number; total: number; unit: LoadProgressUnit } | null>(null);
+  const [predictionsLoad, setPredictionsLoad] = useState<{ name: string; loaded: number; total: number; unit: LoadProgressUnit } | null>(null);
+  const jsonAbortRef = useRef<AbortController | null>(null);
+  const predictionsAbortRef = useRef<AbortController | null>(null);
   
   // Viewer State
-  const [currentImageFile, setCurrentImageFile] = useState<File | null>(null);
-  const [matchedImageId, setMatchedImageId] = useState<number | null>(null);
+  const [imageBatch, setImageBatch] = useState<ImageBatch | null>(null);
+  const [batchIndex, setBatchIndex] = useState(0);
+  const currentMatch = imageBatch?.matched[batchIndex] ?? null;
+  const currentImageFile = currentMatch?.file ?? null;
+
+  // Volume State (a loaded NIfTI volume takes the place of the image batch)
+  const [volume, setVolume] = useState<NiftiVolume | null>(null);
+  const [sliceMapping, setSliceMapping] = useState<SliceMappingOptions>(DEFAULT_SLICE_MAPPING);
+  const [sliceIndex, setSliceIndex] = useState(0);
+
+  const sliceImages = useMemo(() => {
+    if (!volume || !cocoData) return new Map<number, COCOImage>();
+    return mapSlicesToImages(volume, sliceMapping, cocoData.images);
+  }, [volume, sliceMapping, cocoData]);
+
+  const sliceRaster = useMemo(() => {
+    if (!volume) return null;
+    return extractSlice(volume, sliceMapping, Math.min(sliceIndex, getSliceCount(volume, sliceMapping.axis) - 1));
+  }, [volume, sliceMapping, sliceIndex]);
+
+  const matchedImageId = volume ? sliceImages.get(sliceIndex)?.id ?? null : currentMatch?.image.id ?? null;
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS);
+  const [viewFocus, setViewFocus] = useState<ViewFocus | null>(null);
+  const [currentRaster, setCurrentRaster] = useState<RasterImage | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+
+  // Edit History
+  const [undoStack, setUndoStack] = useState<AnnotationEdit[]>([]);
+  const [redoStack, setRedoStack] = useState<AnnotationEdit[]>([]);
+
+  // Prediction Comparison State
+  const [predictions, setPredictions] = useState<Prediction[] | null>(null);
+  const [predictionsName, setPredictionsName] = useState<string | null>(null);
+  const [predictionsSkipped, setPredictionsSkipped] = useState<SkippedResults | null>(null);
+  const [comparisonOptions, setComparisonOptions] = useState<ComparisonOptions>(DEFAULT_COMPARISON_OPTIONS);
+  const [comparisonLayers, setComparisonLayers] = useState<ComparisonLayers>({ groundTruth: true, predictions: true });
+
+  // mAP Evaluation State (kept with the inputs it was computed from, to flag stale results)
+  const [evalIouType, setEvalIouType] = useState<IouType>('segm');
+  const [evaluation, setEvaluation] = useState<{ result: EvalResult; data: COCOJson; predictions: Prediction[] } | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
   
   // Tree & Preview State
   const [activeTab, setActiveTab] = useState<Tab>('upload');
   const [treeSearch, setTreeSearch] = useState('');
   const [selectedTreeImage, setSelectedTreeImage] = useState<COCOImage | null>(null);
+
+  // Batch overlay rendering of a tree folder
+  const [batchRender, setBatchRender] = useState<BatchRenderProgress | null>(null);
+  const [batchRenderOptions, setBatchRenderOptions] = useState<Pick<SnapshotOptions, 'labels' | 'legend'>>(DEFAULT_SNAPSHOT_OPTIONS);
+  const [batchRenderMessage, setBatchRenderMessage] = useState<string | null>(null);
+  const batchRenderAbortRef = useRef<AbortController | null>(null);
+
+  // Statistics State (level 0 = whole dataset, n = break down by the n-th folder level)
+  const [statsLevel, setStatsLevel] = useState(0);
+  const [statsNormalize, setStatsNormalize] = useState(false);
   
+  // Saved Session State (lib/sessionStore)
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionBusy, setSessionBusy] = useState<string | null>(null);
+  const [sessionMessage, setSessionMessage] = useState<string | null>(null);
+  // Folders the loaded images came from, and saved folders still waiting to be read again
+  const [imageDirectories, setImageDirectories] = useState<FileSystemDirectoryHandle[]>([]);
+  const [pendingDirectories, setPendingDirectories] = useState<FileSystemDirectoryHandle[]>([]);
+  // Viewer image of a restored session, opened once its folder has been read
+  const pendingMatchedIdRef = useRef<number | string | null>(null);
+  // Dataset last written to the session, so only edits are saved again
+  const savedDataRef = useRef<COCOJson | null>(null);
+  const restoredRef = useRef(false);
+
+  // URL hash state (lib/urlState): a link's state waits here until a dataset is loaded
+  const pendingUrlStateRef = useRef<UrlState | null>(window.location.hash.length > 1 ? parseUrlHash(window.location.hash) : null);
+  // Last hash written or applied, and the image it showed (a new image pushes a history entry)
+  const hashRef = useRef(window.location.hash.replace(/^#/, ''));
+  const hashImageRef = useRef<string | null>(null);
+
   const [error, setError] = useState<string | null>(null);
 
   // Resizing State
@@ -28,78 +189,671 @@ function App() {
   const [isResizing, setIsResizing] = useState(false);
   const sidebarRef = useRef<HTMLDivElement>(null);
 
-  // Parse JSON file
-  const handleJsonUpload = (file: File) => {
+  // Replaces the dataset and resets everything that belonged to the previous one
+  const loadDataset = (data: COCOJson, index: DatasetIndex, fileName: string) => {
+    setCocoData(data);
+    setDatasetIndex(index);
+    setJsonFileName(fileName);
+    setInputRleFormat(detectRleFormat(data.annotations));
+    setImageBatch(null);
+    setBatchIndex(0);
+    setVolume(null);
+    setImageDirectories([]);
+    setPendingDirectories([]);
+    pendingMatchedIdRef.current = null;
+    setSelectedTreeImage(null);
+    setStatsLevel(0);
+    setUndoStack([]);
+    setRedoStack([]);
+    setPredictions(null);
+    setPredictionsName(null);
+    setPredictionsSkipped(null);
+    setEvaluation(null);
+    predictionsAbortRef.current?.abort();
+    setActiveTab(tab => tab === 'evaluation' ? 'upload' : tab);
+  };
+
+  // Parse JSON file (in a worker; a new upload cancels the one in progress)
+  const handleJsonUpload = async (file: File) => {
     setError(null);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const json = JSON.parse(e.target?.result as string);
-        if (!json.images || !json.annotations || !json.categories) {
-          throw new Error("Invalid COCO JSON format. Missing images, annotations, or categories.");
-        }
-        setCocoData(json as COCOJson);
-        setCurrentImageFile(null);
-        setMatchedImageId(null);
-        setSelectedTreeImage(null);
-      } catch (err: any) {
-        setError("Failed to parse JSON: " + err.message);
+    jsonAbortRef.current?.abort();
+    const controller = new AbortController();
+    jsonAbortRef.current = controller;
+    setJsonLoad({ name: file.name, loaded: 0, total: file.size, unit: 'bytes' });
+
+    try {
+      const { json, index } = await parseJsonFile(file, {
+        buildIndex: true,
+        signal: controller.signal,
+        onProgress: (loaded, total, unit) => setJsonLoad({ name: file.name, loaded, total, unit }),
+      });
+      if (!isCocoJson(json)) {
+        throw new Error("Invalid COCO JSON format. Missing images, annotations, or categories.");
       }
-    };
-    reader.readAsText(file);
+      loadDataset(json, index ?? buildDatasetIndex(json), file.name);
+      startSession(json, file.name);
+    } catch (err: any) {
+      if (!isAbortError(err)) setError("Failed to parse JSON: " + err.message);
+    } finally {
+      if (jsonAbortRef.current === controller) {
+        jsonAbortRef.current = null;
+        setJsonLoad(null);
+      }
+    }
+  };
+
+  // Pascal VOC / YOLO / label map annotations, already converted to COCO
+  const handleImport = (result: ImportResult) => {
+    setError(null);
+    jsonAbortRef.current?.abort();
+    loadDataset(result.data, buildDatasetIndex(result.data), result.name);
+    startSession(result.data, result.name);
+  };
+
+  const refreshSessions = () => {
+    listSessions()
+      .then(setSessions)
+      .catch((err: any) => setSessionMessage(`Saved sessions unavailable: ${err.message}`));
+  };
+
+  // Saves a newly loaded dataset as a new session, which is reopened on the next page load
+  const startSession = async (data: COCOJson, fileName: string) => {
+    setSessionId(null);
+    savedDataRef.current = data;
+    setSessionBusy(`Saving ${fileName}...`);
+    try {
+      const session = await createSession(data, fileName);
+      setSessionId(session.id);
+      setLastSessionId(session.id);
+      setSessionMessage(null);
+      refreshSessions();
+    } catch (err: any) {
+      setSessionMessage(`Session not saved: ${err.message}`);
+    } finally {
+      setSessionBusy(null);
+    }
+  };
+
+  // Reads a session's image folders again (asking for permission only from a click) and reopens its viewer image
+  const reconnectDirectories = async (handles: FileSystemDirectoryHandle[], index: DatasetIndex, request: boolean) => {
+    for (const handle of handles) {
+      if (!await hasReadPermission(handle, request)) return;
+    }
+    setSessionBusy(`Reading ${handles.map(handle => handle.name).join(', ')}...`);
+    try {
+      const files = (await Promise.all(handles.map(handle => readDirectoryFiles(handle)))).flat().filter(isSupportedImageFile);
+      const batch = matchImageFiles(files, index.imagesByBasename);
+      const position = batch.matched.findIndex(match => String(match.image.id) === String(pendingMatchedIdRef.current));
+      setImageBatch(batch);
+      setBatchIndex(Math.max(position, 0));
+      setVolume(null);
+      setImageDirectories(handles);
+      setPendingDirectories([]);
+      pendingMatchedIdRef.current = null;
+    } catch (err: any) {
+      setSessionMessage(`Could not read the image folders: ${err.message}`);
+    } finally {
+      setSessionBusy(null);
+    }
+  };
+
+  // Replaces the dataset with a saved session and restores its UI state
+  const openSession = async (session: SessionRecord) => {
+    setError(null);
+    jsonAbortRef.current?.abort();
+    setSessionBusy(`Restoring ${session.name}...`);
+    try {
+      const data = await loadSessionData(session.id);
+      if (!data) throw new Error('the saved dataset is missing');
+      const index = buildDatasetIndex(data);
+      loadDataset(data, index, session.fileName);
+      savedDataRef.current = data;
+      setSessionId(session.id);
+      setLastSessionId(session.id);
+      setSessionMessage(null);
+
+      const ui = session.ui;
+      if (ui) {
+        setActiveTab(isRestorableTab(ui.activeTab) ? ui.activeTab : 'upload');
+        setTreeSearch(ui.treeSearch);
+        setSelectedTreeImage(ui.selectedImageId !== null ? getImage(index, ui.selectedImageId) : null);
+        setDisplaySettings({ ...DEFAULT_DISPLAY_SETTINGS, ...ui.displaySettings });
+        pendingMatchedIdRef.current = ui.matchedImageId;
+      }
+      // Kept as pending (and saved as such) until the folders are read
+      setPendingDirectories(session.directories);
+      if (session.directories.length > 0) await reconnectDirectories(session.directories, index, false);
+    } catch (err: any) {
+      setSessionMessage(`Could not restore "${session.name}": ${err.message}`);
+    } finally {
+      setSessionBusy(null);
+    }
+  };
+
+  const renameSession = async (session: SessionRecord, name: string) => {
+    try {
+      await updateSession(session.id, { name });
+    } catch (err: any) {
+      setSessionMessage(`Could not rename "${session.name}": ${err.message}`);
+    }
+    refreshSessions();
+  };
+
+  // Deleting the current session keeps its data open, but stops saving it
+  const removeSession = async (session: SessionRecord) => {
+    try {
+      await deleteSession(session.id);
+      if (session.id === sessionId) setSessionId(null);
+    } catch (err: any) {
+      setSessionMessage(`Could not delete "${session.name}": ${err.message}`);
+    }
+    refreshSessions();
   };
 
-  // Handle Image Upload
-  const handleImageUpload = (file: File) => {
+  // Parse a COCO results file (predictions with scores) against the loaded ground truth
+  const handlePredictionsUpload = async (file: File) => {
     setError(null);
     if (!cocoData) {
       setError("Please upload annotations (JSON) first.");
       return;
     }
+    predictionsAbortRef.current?.abort();
+    const controller = new AbortController();
+    predictionsAbortRef.current = controller;
+    setPredictionsLoad({ name: file.name, loaded: 0, total: file.size, unit: 'bytes' });
+
+    try {
+      const { json } = await parseJsonFile(file, {
+        signal: controller.signal,
+        onProgress: (loaded, total, unit) => setPredictionsLoad({ name: file.name, loaded, total, unit }),
+      });
+      const results = parseResults(json, cocoData);
+      setPredictions(results.predictions);
+      setPredictionsName(file.name);
+      setPredictionsSkipped(results.skipped);
+    } catch (err: any) {
+      if (!isAbortError(err)) setError("Failed to parse predictions: " + err.message);
+    } finally {
+      if (predictionsAbortRef.current === controller) {
+        predictionsAbortRef.current = null;
+        setPredictionsLoad(null);
+      }
+    }
+  };
 
-    const uploadedBasename = file.name.trim();
-    const uploadedNameNoExt = uploadedBasename.substring(0, uploadedBasename.lastIndexOf('.')) || uploadedBasename;
+  const clearPredictions = () => {
+    setPredictions(null);
+    setPredictionsName(null);
+    setPredictionsSkipped(null);
+    setEvaluation(null);
+    if (activeTab === 'evaluation') setActiveTab('upload');
+  };
 
-    const matchedImage = cocoData.images.find(img => {
-      const jsonBasename = getBasename(img.file_name);
-      const jsonNameNoExt = jsonBasename.substring(0, jsonBasename.lastIndexOf('.')) || jsonBasename;
-      return jsonNameNoExt.toLowerCase() === uploadedNameNoExt.toLowerCase();
-    });
+  // COCOeval over the whole dataset; deferred a tick so the button can show progress first
+  const runEvaluation = () => {
+    if (!cocoData || !predictions) return;
+    setIsEvaluating(true);
+    setTimeout(() => {
+      try {
+        setEvaluation({ result: evaluateCoco(cocoData, predictions, evalIouType), data: cocoData, predictions });
+      } catch (err: any) {
+        setError("Evaluation failed: " + err.message);
+      } finally {
+        setIsEvaluating(false);
+      }
+    }, 0);
+  };
+
+  const isEvaluationStale = !!evaluation && (
+    evaluation.data !== cocoData || evaluation.predictions !== predictions || evaluation.result.iouType !== evalIouType
+  );
+
+  // Handle Image Upload (single files, multi-selection or whole folders)
+  const handleImageUpload = (files: File[]) => {
+    setError(null);
+    if (!cocoData || !datasetIndex) {
+      setError("Please upload annotations (JSON) first.");
+      return;
+    }
 
-    if (matchedImage) {
-      setCurrentImageFile(file);
-      setMatchedImageId(matchedImage.id);
+    const batch = matchImageFiles(files, datasetIndex.imagesByBasename);
+    // Open the image a link or session asked for, if it is among the files
+    const position = batch.matched.findIndex(match => String(match.image.id) === String(pendingMatchedIdRef.current));
+    setImageBatch(batch);
+    setBatchIndex(Math.max(position, 0));
+    setVolume(null);
+    // Set again by the Dropzone if the files came from folders with handles
+    setImageDirectories([]);
+    setPendingDirectories([]);
+    pendingMatchedIdRef.current = null;
+
+    if (batch.matched.length > 0) {
       setActiveTab('upload'); // Switch to viewer on successful upload
     } else {
-      setCurrentImageFile(null);
-      setMatchedImageId(null);
+      const uploaded = files.slice(0, 3).map(f => f.name.trim()).join(', ');
       const examples = cocoData.images.slice(0, 3).map(i => getBasename(i.file_name)).join(', ');
-      setError(`Image "${uploadedBasename}" not found. Expected: "${examples}"...`);
+      setError(`No images matched (uploaded "${uploaded}"). Expected: "${examples}"...`);
+    }
+  };
+
+  // Handle NIfTI Volume Upload
+  const handleVolumeUpload = async (file: File) => {
+    setError(null);
+    if (!cocoData) {
+      setError("Please upload annotations (JSON) first.");
+      return;
+    }
+
+    setIsDecoding(true);
+    try {
+      const loaded = await loadNiftiFile(file);
+      const mapping = mapSlicesToImages(loaded, sliceMapping, cocoData.images);
+      // Start at the first annotated slice, or the middle of the volume
+      const firstMatched = Math.min(...Array.from(mapping.keys()));
+      setVolume(loaded);
+      setSliceIndex(isFinite(firstMatched) ? firstMatched : Math.floor(getSliceCount(loaded, sliceMapping.axis) / 2));
+      setImageBatch(null);
+      setBatchIndex(0);
+      setImageDirectories([]);
+      setPendingDirectories([]);
+      setActiveTab('upload');
+    } catch (err: any) {
+      setError(`Failed to load volume "${file.name}": ${err.message}`);
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  const handleSliceMappingChange = (options: SliceMappingOptions) => {
+    setSliceMapping(options);
+    if (volume && options.axis !== sliceMapping.axis) {
+      setSliceIndex(Math.floor(getSliceCount(volume, options.axis) / 2));
+    }
+  };
+
+  // Navigation over either the volume slices or the matched images
+  const navigationTotal = volume ? getSliceCount(volume, sliceMapping.axis) : imageBatch?.matched.length ?? 0;
+  const navigationIndex = volume ? sliceIndex : batchIndex;
+  const navigationTitle = volume
+    ? sliceImages.get(sliceIndex)?.file_name || `${volume.name} - slice ${sliceIndex} (no matching image)`
+    : currentMatch?.image.file_name || '';
+
+  const viewerRaster = volume ? sliceRaster : currentRaster;
+  const viewerSourceName = volume ? navigationTitle : currentImageFile?.name ?? null;
+
+  const navigateTo = (index: number) => {
+    if (navigationTotal === 0) return;
+    const clamped = Math.min(Math.max(index, 0), navigationTotal - 1);
+    if (volume) setSliceIndex(clamped);
+    else setBatchIndex(clamped);
+  };
+
+  // Shows an image by ID: in the viewer if it was loaded (batch or volume), otherwise in the tree preview
+  const jumpToImage = (imageId: number | string) => {
+    if (!datasetIndex) return;
+    const key = String(imageId);
+
+    const batchPosition = imageBatch?.matched.findIndex(match => String(match.image.id) === key) ?? -1;
+    if (!volume && batchPosition >= 0) {
+      setBatchIndex(batchPosition);
+      setActiveTab('upload');
+      return;
+    }
+
+    const slice = Array.from(sliceImages.entries()).find(([, img]) => String(img.id) === key);
+    if (volume && slice) {
+      setSliceIndex(slice[0]);
+      setActiveTab('upload');
+      return;
+    }
+
+    const image = getImage(datasetIndex, key);
+    if (image) {
+      setSelectedTreeImage(image);
+      setActiveTab('structure');
+    }
+  };
+
+  // Applies URL state to a loaded dataset; an image that is not loaded yet opens once its folder is read
+  const applyUrlState = (state: UrlState, data: COCOJson, index: DatasetIndex) => {
+    const tab: Tab = state.tab && isRestorableTab(state.tab) ? state.tab : 'upload';
+    const visible = state.visibleCategoryIds;
+    setActiveTab(tab);
+    setTreeSearch(state.query);
+    setDisplaySettings(settings => ({
+      ...settings,
+      hiddenCategoryIds: visible ? data.categories.filter(cat => !visible.includes(String(cat.id))).map(cat => cat.id) : [],
+      window: state.window,
+      invert: state.invert,
+    }));
+    setViewFocus(state.focus);
+    hashImageRef.current = state.imageId;
+
+    const key = state.imageId;
+    if (key === null) return;
+    if (tab !== 'upload') {
+      setSelectedTreeImage(getImage(index, key));
+      return;
     }
+    const batchPosition = imageBatch?.matched.findIndex(match => String(match.image.id) === key) ?? -1;
+    const slice = Array.from(sliceImages.entries()).find(([, img]) => String(img.id) === key);
+    if (volume && slice) setSliceIndex(slice[0]);
+    else if (!volume && batchPosition >= 0) setBatchIndex(batchPosition);
+    else pendingMatchedIdRef.current = key;
+  };
+
+  // Swaps one annotation object for another (by identity, so duplicate ids stay untouched)
+  const replaceAnnotation = (from: COCOAnnotation, to: COCOAnnotation) => {
+    setCocoData(data => data && {
+      ...data,
+      annotations: data.annotations.map(ann => ann === from ? to : ann)
+    });
+    setDatasetIndex(index => index && replaceIndexedAnnotation(index, from, to));
+  };
+
+  const handleAnnotationEdit = (before: COCOAnnotation, after: COCOAnnotation) => {
+    replaceAnnotation(before, after);
+    setUndoStack(stack => [...stack, { before, after }].slice(-MAX_UNDO_STEPS));
+    setRedoStack([]);
+  };
+
+  const undo = () => {
+    const edit = undoStack[undoStack.length - 1];
+    if (!edit) return;
+    replaceAnnotation(edit.after, edit.before);
+    setUndoStack(stack => stack.slice(0, -1));
+    setRedoStack(stack => [...stack, edit]);
+  };
+
+  const redo = () => {
+    const edit = redoStack[redoStack.length - 1];
+    if (!edit) return;
+    replaceAnnotation(edit.before, edit.after);
+    setRedoStack(stack => stack.slice(0, -1));
+    setUndoStack(stack => [...stack, edit]);
   };
 
   const currentAnnotations = useMemo(() => {
-    if (!cocoData) return [];
+    if (!datasetIndex) return [];
     // If in upload mode, use matchedImageId. If in structure mode, use selectedTreeImage
     const targetId = activeTab === 'upload' ? matchedImageId : selectedTreeImage?.id;
     if (targetId === null || targetId === undefined) return [];
     
-    // CRITICAL FIX: Use loose equality (==) because JSON IDs might be strings while parsed IDs are numbers
-    return cocoData.annotations.filter(ann => ann.image_id == targetId);
-  }, [cocoData, matchedImageId, selectedTreeImage, activeTab]);
+    // The index is keyed by String(id), because JSON IDs might be strings while parsed IDs are numbers
+    return getImageAnnotations(datasetIndex, targetId);
+  }, [datasetIndex, matchedImageId, selectedTreeImage, activeTab]);
+
+  const getCategoryName = useCallback(
+    (id: number) => datasetIndex ? lookupCategoryName(datasetIndex, id) : `Class ${id}`,
+    [datasetIndex]
+  );
+  const getCategory = useCallback(
+    (id: number) => datasetIndex?.categoriesById.get(String(id)),
+    [datasetIndex]
+  );
+
+  const predictionsByImage = useMemo(() => predictions ? groupByImage(predictions) : null, [predictions]);
+
+  // Annotations, styles and match status of the image in the viewer
+  const currentOverlay = useMemo(() => {
+    const image = datasetIndex && matchedImageId !== null ? getImage(datasetIndex, matchedImageId) : null;
+    return buildImageOverlay(image, currentAnnotations, predictionsByImage, comparisonOptions, comparisonLayers, getCategoryName);
+  }, [datasetIndex, predictionsByImage, matchedImageId, currentAnnotations, comparisonOptions, comparisonLayers, getCategoryName]);
+  const currentComparison = currentOverlay.comparison;
+  const viewerAnnotations = currentOverlay.annotations;
+  const annotationStyles = currentOverlay.styles;
+
+  // Images matching the tree query (lib/treeQuery); null when no filter is active or the query is invalid
+  const { filteredImages, treeQueryError } = useMemo(() => {
+    if (!cocoData || !datasetIndex) return { filteredImages: null, treeQueryError: null };
+    try {
+      const query = compileTreeQuery(treeSearch, datasetIndex);
+      return { filteredImages: query ? cocoData.images.filter(query) : null, treeQueryError: null };
+    } catch (err: any) {
+      return { filteredImages: null, treeQueryError: err.message as string };
+    }
+  }, [cocoData, datasetIndex, treeSearch]);
+
+  const folderDepth = useMemo(() => cocoData ? getFolderDepth(cocoData.images) : 0, [cocoData]);
+
+  // Only computed while the tab is open; edits change areas and bboxes
+  const datasetStats = useMemo(() => {
+    if (!cocoData || activeTab !== 'statistics') return null;
+    return computeDatasetStats(cocoData, statsLevel);
+  }, [cocoData, statsLevel, activeTab]);
+
+  const getGroupColor = (group: string) => {
+    const index = datasetStats ? datasetStats.groups.indexOf(group) : 0;
+    const [r, g, b] = getColorForId(index + 1);
+    return `rgb(${r}, ${g}, ${b})`;
+  };
 
   const fileTree = useMemo(() => {
     if (!cocoData) return null;
-    let images = cocoData.images;
-    if (treeSearch) {
-      const lowerSearch = treeSearch.toLowerCase();
-      images = images.filter(img => 
-        img.file_name.toLowerCase().includes(lowerSearch) || 
-        img.id.toString().includes(lowerSearch)
+    return buildFileTree(filteredImages ?? cocoData.images);
+  }, [cocoData, filteredImages]);
+
+  // Image / annotation / category totals per folder, over the whole dataset and over the query matches
+  const totalFolderStats = useMemo(() => {
+    if (!cocoData || !datasetIndex || activeTab !== 'structure') return null;
+    return computeFolderStats(cocoData.images, img => getImageAnnotations(datasetIndex, img.id));
+  }, [cocoData, datasetIndex, activeTab]);
+  const matchedFolderStats = useMemo(() => {
+    if (!filteredImages || !datasetIndex || activeTab !== 'structure') return null;
+    return computeFolderStats(filteredImages, img => getImageAnnotations(datasetIndex, img.id));
+  }, [filteredImages, datasetIndex, activeTab]);
+
+  // Renders the folder's loaded images (batch files or volume slices) as they look in the viewer, into a zip
+  const handleRenderFolder = async (node: TreeNode) => {
+    if (!datasetIndex || batchRenderAbortRef.current) return;
+    const batchFiles = new Map(imageBatch?.matched.map(match => [String(match.image.id), match.file]) ?? []);
+    const volumeSlices = new Map(Array.from(sliceImages.entries()).map(([slice, img]) => [String(img.id), slice]));
+
+    const sources: SnapshotSource[] = [];
+    collectTreeImages(node).forEach(image => {
+      const file = batchFiles.get(String(image.id));
+      const slice = volume ? volumeSlices.get(String(image.id)) : undefined;
+      if (!file && slice === undefined) return;
+      const overlay = buildImageOverlay(
+        image, getImageAnnotations(datasetIndex, image.id), predictionsByImage, comparisonOptions, comparisonLayers, getCategoryName
       );
+      sources.push({
+        path: image.file_name,
+        loadRaster: file ? () => loadImageFile(file) : async () => extractSlice(volume!, sliceMapping, slice!),
+        annotations: overlay.annotations,
+        getColor: ann => getStyledColor(ann, overlay.styles),
+        getLabel: ann => getStyledLabel(ann, getCategoryName, overlay.styles),
+        isDashed: ann => !!overlay.styles?.get(ann.id)?.dashed,
+      });
+    });
+
+    const folderName = node.path ? node.name : 'All Images';
+    if (sources.length === 0) {
+      setBatchRenderMessage(`No loaded images in "${folderName}". Load the images (or volume) in the Uploads tab first.`);
+      return;
+    }
+
+    const controller = new AbortController();
+    batchRenderAbortRef.current = controller;
+    setBatchRenderMessage(null);
+    setBatchRender({ name: folderName, done: 0, total: sources.length });
+    try {
+      const { blob, failed } = await renderSnapshotsZip(sources, displaySettings, batchRenderOptions, {
+        signal: controller.signal,
+        onProgress: (done, total) => setBatchRender({ name: folderName, done, total }),
+      });
+      downloadBlob(blob, `${node.path ? node.name : stripExtension(jsonFileName)}_overlays.zip`);
+      if (failed.length > 0) {
+        setBatchRenderMessage(`${failed.length} image(s) could not be decoded: ${failed.slice(0, 3).join(', ')}${failed.length > 3 ? '...' : ''}`);
+      }
+    } catch (err: any) {
+      if (!isAbortError(err)) setBatchRenderMessage(`Rendering failed: ${err.message}`);
+    } finally {
+      batchRenderAbortRef.current = null;
+      setBatchRender(null);
+    }
+  };
+
+  // Decode the current image (PNG/JPEG via the browser, DICOM via lib/dicom)
+  useEffect(() => {
+    if (!currentImageFile || volume) {
+      setCurrentRaster(null);
+      return;
+    }
+    let cancelled = false;
+    setIsDecoding(true);
+
+    loadImageFile(currentImageFile)
+      .then(raster => {
+        if (!cancelled) setCurrentRaster(raster);
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        setCurrentRaster(null);
+        setError(`Failed to decode "${currentImageFile.name}": ${err.message}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsDecoding(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentImageFile, volume]);
+
+  // Reopen the last session on page load (once, also under StrictMode)
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    listSessions()
+      .then(list => {
+        setSessions(list);
+        const last = list.find(session => session.id === getLastSessionId());
+        if (last) openSession(last);
+      })
+      .catch((err: any) => setSessionMessage(`Saved sessions unavailable: ${err.message}`));
+  }, []);
+
+  // Save mask edits to the current session
+  useEffect(() => {
+    if (!sessionId || !cocoData || cocoData === savedDataRef.current) return;
+    const timer = setTimeout(() => {
+      savedDataRef.current = cocoData;
+      saveSessionData(sessionId, cocoData).catch((err: any) => setSessionMessage(`Edits not saved: ${err.message}`));
+    }, SESSION_DATA_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [sessionId, cocoData]);
+
+  // Save the UI state and image folders with the current session
+  useEffect(() => {
+    if (!sessionId) return;
+    const timer = setTimeout(() => {
+      updateSession(sessionId, {
+        ui: {
+          activeTab,
+          treeSearch,
+          selectedImageId: selectedTreeImage?.id ?? null,
+          matchedImageId: matchedImageId ?? pendingMatchedIdRef.current,
+          displaySettings,
+        },
+        directories: imageDirectories.length > 0 ? imageDirectories : pendingDirectories,
+      }).catch((err: any) => setSessionMessage(`Session not saved: ${err.message}`));
+    }, SESSION_UI_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [sessionId, activeTab, treeSearch, selectedTreeImage, matchedImageId, displaySettings, imageDirectories, pendingDirectories]);
+
+  // Image in the viewer (or still waiting for its file) or in the tree preview
+  const shownImageId = activeTab === 'upload' ? matchedImageId ?? pendingMatchedIdRef.current : selectedTreeImage?.id ?? null;
+
+  // Mirror the view state into the URL hash; each new image gets its own history entry, for back/forward.
+  // Runs before the effect below, so a link's hash is applied before it is overwritten.
+  useEffect(() => {
+    if (!cocoData || pendingUrlStateRef.current) return;
+    const imageId = shownImageId === null ? null : String(shownImageId);
+    const hidden = displaySettings.hiddenCategoryIds;
+    const hash = formatUrlHash({
+      tab: activeTab,
+      imageId,
+      query: treeSearch,
+      visibleCategoryIds: hidden.length > 0 ? cocoData.categories.filter(cat => !hidden.includes(cat.id)).map(cat => String(cat.id)) : null,
+      focus: activeTab === 'upload' ? viewFocus : null,
+      window: displaySettings.window,
+      invert: displaySettings.invert,
+    });
+    if (hash !== hashRef.current) {
+      const url = hash ? `#${hash}` : window.location.pathname + window.location.search;
+      if (imageId !== hashImageRef.current && hashImageRef.current !== null) window.history.pushState(null, '', url);
+      else window.history.replaceState(null, '', url);
+      hashRef.current = hash;
     }
-    return buildFileTree(images);
-  }, [cocoData, treeSearch]);
+    hashImageRef.current = imageId;
+  }, [cocoData, activeTab, shownImageId, treeSearch, displaySettings.hiddenCategoryIds, displaySettings.window, displaySettings.invert, viewFocus]);
+
+  // Apply a link's hash once a dataset is loaded (a restored session or an uploaded JSON)
+  useEffect(() => {
+    const pending = pendingUrlStateRef.current;
+    if (!cocoData || !datasetIndex || !pending) return;
+    pendingUrlStateRef.current = null;
+    applyUrlState(pending, cocoData, datasetIndex);
+  }, [cocoData, datasetIndex]);
+
+  // Back/forward and edits of the address bar (both events may fire for one navigation)
+  useEffect(() => {
+    const handleNavigation = () => {
+      const hash = window.location.hash.replace(/^#/, '');
+      if (hash === hashRef.current) return;
+      hashRef.current = hash;
+      if (cocoData && datasetIndex) applyUrlState(parseUrlHash(hash), cocoData, datasetIndex);
+      else pendingUrlStateRef.current = parseUrlHash(hash);
+    };
+
+    window.addEventListener('popstate', handleNavigation);
+    window.addEventListener('hashchange', handleNavigation);
+    return () => {
+      window.removeEventListener('popstate', handleNavigation);
+      window.removeEventListener('hashchange', handleNavigation);
+    };
+  }, [cocoData, datasetIndex, imageBatch, sliceImages, volume]);
+
+  // Arrow key navigation through matched images or volume slices
+  useEffect(() => {
+    if (activeTab !== 'upload' || navigationTotal < 2) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        navigateTo(navigationIndex + 1);
+      } else if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        navigateTo(navigationIndex - 1);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeTab, navigationIndex, navigationTotal, volume]);
+
+  // Undo / redo shortcuts for mask edits
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undoStack, redoStack]);
 
   // Resizing Handlers
   const startResizing = (e: React.MouseEvent) => {
@@ -149,24 +903,56 @@ function App() {
           <div className="flex border-b border-slate-800 shrink-0">
             <button 
               onClick={() => setActiveTab('upload')}
-              className={`flex-1 py-3 text-sm font-medium flex items-center justify-center transition-colors ${activeTab === 'upload' ? 'bg-slate-800 text-blue-400 border-b-2 border-blue-400' : 'text-slate-400 hover:text-slate-200'}`}
+              className={`flex-1 py-3 text-xs font-medium flex items-center justify-center transition-colors ${activeTab === 'upload' ? 'bg-slate-800 text-blue-400 border-b-2 border-blue-400' : 'text-slate-400 hover:text-slate-200'}`}
             >
-              <Layers className="w-4 h-4 mr-2" />
+              <Layers className="w-4 h-4 mr-1.5" />
               Uploads
             </button>
             <button 
               onClick={() => setActiveTab('structure')}
               disabled={!cocoData}
-              className={`flex-1 py-3 text-sm font-medium flex items-center justify-center transition-colors ${activeTab === 'structure' ? 'bg-slate-800 text-blue-400 border-b-2 border-blue-400' : 'text-slate-400 hover:text-slate-200'} ${!cocoData && 'opacity-50 cursor-not-allowed'}`}
+              className={`flex-1 py-3 text-xs font-medium flex items-center justify-center transition-colors ${activeTab === 'structure' ? 'bg-slate-800 text-blue-400 border-b-2 border-blue-400' : 'text-slate-400 hover:text-slate-200'} ${!cocoData && 'opacity-50 cursor-not-allowed'}`}
             >
-              <FolderTree className="w-4 h-4 mr-2" />
+              <FolderTree className="w-4 h-4 mr-1.5" />
               JSON Tree
             </button>
+            <button 
+              onClick={() => setActiveTab('statistics')}
+              disabled={!cocoData}
+              className={`flex-1 py-3 text-xs font-medium flex items-center justify-center transition-colors ${activeTab === 'statistics' ? 'bg-slate-800 text-blue-400 border-b-2 border-blue-400' : 'text-slate-400 hover:text-slate-200'} ${!cocoData && 'opacity-50 cursor-not-allowed'}`}
+            >
+              <BarChart3 className="w-4 h-4 mr-1.5" />
+              Statistics
+            </button>
+            <button 
+              onClick={() => setActiveTab('evaluation')}
+              disabled={!predictions}
+              className={`flex-1 py-3 text-xs font-medium flex items-center justify-center transition-colors ${activeTab === 'evaluation' ? 'bg-slate-800 text-blue-400 border-b-2 border-blue-400' : 'text-slate-400 hover:text-slate-200'} ${!predictions && 'opacity-50 cursor-not-allowed'}`}
+              title={predictions ? undefined : 'Load predictions in "4. Compare Predictions" first'}
+            >
+              <Target className="w-4 h-4 mr-1.5" />
+              mAP
+            </button>
           </div>
 
           <div className="flex-1 overflow-y-auto overflow-x-hidden p-6 scrollbar-thin scrollbar-thumb-slate-700">
             {activeTab === 'upload' && (
               <>
+                <div className="mb-8">
+                  <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Sessions</h2>
+                  <SessionManager
+                    sessions={sessions}
+                    currentId={sessionId}
+                    onOpen={openSession}
+                    onRename={renameSession}
+                    onDelete={removeSession}
+                    busy={sessionBusy}
+                    message={sessionMessage}
+                    pendingFolders={sessionBusy ? [] : pendingDirectories.map(handle => handle.name)}
+                    onReconnect={() => datasetIndex && reconnectDirectories(pendingDirectories, datasetIndex, true)}
+                  />
+                </div>
+
                 <div className="mb-8">
                   <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">1. Load Annotations</h2>
                   <Dropzone 
@@ -174,24 +960,88 @@ function App() {
                     accept="json" 
                     label={cocoData ? "Replace JSON" : "Upload COCO JSON"} 
                   />
+                  {jsonLoad && (
+                    <LoadProgress {...jsonLoad} onCancel={() => jsonAbortRef.current?.abort()} />
+                  )}
+                  <div className="mt-3">
+                    <ImportPanel onImported={handleImport} onError={setError} />
+                  </div>
                   {cocoData && (
                     <div className="mt-3 flex items-center text-green-400 text-sm bg-green-900/20 p-2 rounded border border-green-900">
                       <CheckCircle className="w-4 h-4 mr-2" />
                       <span>Loaded {cocoData.images.length} images</span>
                     </div>
                   )}
+                  {cocoData && (
+                    <div className="mt-3">
+                      <ValidationPanel data={cocoData} onSelectImage={jumpToImage} />
+                    </div>
+                  )}
                 </div>
 
                 <div className="mb-8">
-                  <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">2. Load Image</h2>
+                  <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">2. Load Images</h2>
                   <Dropzone 
-                    onFileAccepted={handleImageUpload} 
+                    onFilesAccepted={handleImageUpload} 
+                    onDirectoriesAccepted={setImageDirectories}
                     accept="image" 
-                    label="Upload Slice Image" 
+                    label="Upload Slice Images" 
+                    disabled={!cocoData}
+                    multiple
+                  />
+                  {imageBatch && (
+                    <div className="mt-3">
+                      <ImageBatchList batch={imageBatch} currentIndex={batchIndex} onSelect={navigateTo} />
+                    </div>
+                  )}
+                </div>
+
+                <div className="mb-8">
+                  <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">3. Load Volume (Optional)</h2>
+                  <VolumePanel
+                    volume={volume}
+                    options={sliceMapping}
+                    onOptionsChange={handleSliceMappingChange}
+                    onVolumeAccepted={handleVolumeUpload}
+                    matchedCount={sliceImages.size}
                     disabled={!cocoData}
                   />
                 </div>
 
+                {cocoData && (
+                  <div className="mb-8">
+                    <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">4. Compare Predictions (Optional)</h2>
+                    <ComparisonPanel
+                      data={cocoData}
+                      predictions={predictions}
+                      predictionsName={predictionsName}
+                      skipped={predictionsSkipped}
+                      onPredictionsAccepted={handlePredictionsUpload}
+                      onClear={clearPredictions}
+                      loadProgress={predictionsLoad}
+                      onCancelLoad={() => predictionsAbortRef.current?.abort()}
+                      options={comparisonOptions}
+                      onOptionsChange={setComparisonOptions}
+                      layers={comparisonLayers}
+                      onLayersChange={setComparisonLayers}
+                      current={currentComparison}
+                      getCategoryName={getCategoryName}
+                    />
+                  </div>
+                )}
+
+                {cocoData && (
+                  <div className="mb-8">
+                    <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">5. Export</h2>
+                    <ExportPanel
+                      data={cocoData}
+                      sourceName={jsonFileName}
+                      inputRleFormat={inputRleFormat}
+                      filteredImages={filteredImages}
+                    />
+                  </div>
+                )}
+
                 {error && (
                   <div className="p-4 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm mb-6 flex items-start">
                     <AlertCircle className="w-5 h-5 mr-2 shrink-0" />
@@ -199,18 +1049,28 @@ function App() {
                   </div>
                 )}
 
-                {matchedImageId !== null && currentImageFile && cocoData && (
+                {viewerSourceName && cocoData && (volume || matchedImageId !== null) && (
                   <div className="space-y-4 border-t border-slate-700 pt-6">
                     <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Current Image</h2>
                     <div className="bg-slate-800 rounded p-3 text-sm">
                         <div className="flex items-center text-slate-300 mb-2">
                           <FileText className="w-4 h-4 mr-2 text-slate-500" />
-                          <span className="truncate" title={currentImageFile.name}>{currentImageFile.name}</span>
+                          <span className="truncate" title={viewerSourceName}>{viewerSourceName}</span>
                         </div>
                         <div className="flex items-center text-slate-300">
                           <ImageIcon className="w-4 h-4 mr-2 text-slate-500" />
-                          <span>ID: {matchedImageId}</span>
+                          <span>ID: {matchedImageId ?? '-'}</span>
                         </div>
+                        {viewerRaster?.metadata && (
+                          <dl className="mt-3 pt-3 border-t border-slate-700 space-y-1 text-xs">
+                            {Object.entries(viewerRaster.metadata).map(([key, value]) => (
+                              <div key={key} className="flex gap-2">
+                                <dt className="text-slate-500 shrink-0 w-24">{key}</dt>
+                                <dd className="text-slate-300 font-mono truncate" title={value}>{value}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        )}
                     </div>
                   </div>
                 )}
@@ -219,25 +1079,113 @@ function App() {
 
             {activeTab === 'structure' && fileTree && (
               <div className="h-full flex flex-col">
-                <div className="relative mb-4 shrink-0">
-                   <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-500" />
-                   <input 
-                      type="text" 
-                      placeholder="Search..." 
-                      className="w-full bg-slate-800 border border-slate-700 rounded pl-9 pr-3 py-2 text-sm focus:outline-none focus:border-blue-500"
-                      value={treeSearch}
-                      onChange={(e) => setTreeSearch(e.target.value)}
-                   />
+                <div className="mb-4 shrink-0">
+                  <TreeSearchBar
+                    value={treeSearch}
+                    onChange={setTreeSearch}
+                    error={treeQueryError}
+                    matchCount={filteredImages ? filteredImages.length : null}
+                    totalCount={cocoData?.images.length ?? 0}
+                  />
                 </div>
-                <div className="flex-1 overflow-x-auto">
+                {(imageBatch || volume) && (
+                  <div className="mb-4 shrink-0">
+                    <BatchRenderPanel
+                      options={batchRenderOptions}
+                      onOptionsChange={setBatchRenderOptions}
+                      progress={batchRender}
+                      onCancel={() => batchRenderAbortRef.current?.abort()}
+                      message={batchRenderMessage}
+                    />
+                  </div>
+                )}
+                <div className="flex-1 min-h-0">
                    <FileTree 
                       node={fileTree} 
                       onSelect={(img) => setSelectedTreeImage(img)}
                       selectedImageId={selectedTreeImage?.id}
+                      folderStats={matchedFolderStats ?? totalFolderStats ?? undefined}
+                      totalFolderStats={matchedFolderStats && totalFolderStats}
+                      getCategoryName={getCategoryName}
+                      onRenderFolder={imageBatch || volume ? handleRenderFolder : undefined}
                    />
                 </div>
               </div>
             )}
+
+            {activeTab === 'statistics' && cocoData && datasetStats && (
+              <div className="space-y-6">
+                <div>
+                  <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Break Down By</h2>
+                  <select
+                    className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                    value={statsLevel}
+                    onChange={(e) => setStatsLevel(parseInt(e.target.value, 10))}
+                  >
+                    <option value={0}>Whole dataset</option>
+                    {Array.from({ length: folderDepth }, (_, i) => i + 1).map(level => (
+                      <option key={level} value={level}>
+                        Folder level {level} ({getFolderLevelExamples(cocoData.images, level).join(', ')})
+                      </option>
+                    ))}
+                  </select>
+                  <label className="mt-3 flex items-center gap-2 text-sm text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={statsNormalize} onChange={(e) => setStatsNormalize(e.target.checked)} />
+                    Show as share of each group
+                  </label>
+                </div>
+
+                <div>
+                  <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Groups</h2>
+                  <ul className="bg-slate-800 rounded p-3 space-y-1.5 text-xs">
+                    {datasetStats.groups.map(group => (
+                      <li key={group} className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: getGroupColor(group) }} />
+                        <span className="truncate text-slate-300" title={group}>{group || 'All images'}</span>
+                        <span className="ml-auto shrink-0 font-mono text-slate-500">
+                          {datasetStats.imageCounts[group]} img / {datasetStats.annotationCounts[group]} ann
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'evaluation' && cocoData && predictions && (
+              <div className="space-y-6">
+                <div>
+                  <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">COCO Evaluation</h2>
+                  <p className="text-xs text-slate-500 mb-3">
+                    {predictions.length} predictions from {predictionsName} against {cocoData.images.length} images, with the pycocotools defaults (IoU .50:.95, maxDets 1/10/100, small/medium/large areas).
+                  </p>
+                  <div className="flex gap-1 mb-3">
+                    {([['segm', 'Mask (segm)'], ['bbox', 'Box (bbox)']] as [IouType, string][]).map(([value, label]) => (
+                      <button
+                        key={value}
+                        onClick={() => setEvalIouType(value)}
+                        className={`flex-1 py-1.5 rounded text-xs border transition-colors ${
+                          evalIouType === value ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    onClick={runEvaluation}
+                    disabled={isEvaluating}
+                    className="w-full flex items-center justify-center gap-2 py-2 rounded bg-blue-600 hover:bg-blue-500 text-sm font-medium text-white disabled:opacity-50 disabled:cursor-wait"
+                  >
+                    <Play className="w-4 h-4" />
+                    {isEvaluating ? 'Evaluating...' : evaluation ? 'Re-run Evaluation' : 'Run Evaluation'}
+                  </button>
+                  {isEvaluationStale && (
+                    <p className="mt-2 text-xs text-yellow-400">Data or settings changed since this run</p>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         </aside>
 
@@ -262,17 +1210,41 @@ function App() {
 
           {/* View 2: Uploads Tab -> Viewer */}
           {cocoData && activeTab === 'upload' && (
-             !currentImageFile ? (
+             !currentImageFile && !volume ? (
                <div className="flex-1 flex flex-col items-center justify-center text-slate-500 border-2 border-dashed border-slate-800 rounded-lg">
                   <ImageIcon className="w-16 h-16 mb-4 opacity-20" />
-                  <p>Upload an image to visualize segmentation.</p>
+                  <p>Upload an image or volume to visualize segmentation.</p>
                </div>
              ) : (
-               <Viewer 
-                 imageFile={currentImageFile}
-                 annotations={currentAnnotations}
-                 categories={cocoData.categories}
-               />
+               <>
+                 {navigationTotal > 1 && (
+                   <BatchNavigator
+                     index={navigationIndex}
+                     total={navigationTotal}
+                     title={navigationTitle}
+                     onNavigate={navigateTo}
+                   />
+                 )}
+                 <Viewer 
+                   image={viewerRaster}
+                   loading={isDecoding}
+                   annotations={viewerAnnotations}
+                   getCategoryName={getCategoryName}
+                   getCategory={getCategory}
+                   displaySettings={displaySettings}
+                   onDisplaySettingsChange={setDisplaySettings}
+                   annotationStyles={annotationStyles}
+                   // Editing is off while predictions are overlaid
+                   onAnnotationEdit={predictions ? undefined : handleAnnotationEdit}
+                   canUndo={undoStack.length > 0}
+                   canRedo={redoStack.length > 0}
+                   onUndo={undo}
+                   onRedo={redo}
+                   snapshotName={stripExtension(getBasename(navigationTitle)) || 'snapshot'}
+                   focus={viewFocus}
+                   onFocusChange={setViewFocus}
+                 />
+               </>
              )
           )}
 
@@ -287,11 +1259,38 @@ function App() {
                <MetadataPreview 
                  image={selectedTreeImage}
                  annotations={currentAnnotations}
-                 categories={cocoData.categories}
+                 getCategoryName={getCategoryName}
                />
              )
           )}
 
+          {/* View 5: Evaluation Tab -> mAP Report */}
+          {cocoData && activeTab === 'evaluation' && (
+            evaluation ? (
+              <EvaluationReport
+                result={evaluation.result}
+                getCategoryName={getCategoryName}
+                onSelectImage={(img) => jumpToImage(img.id)}
+              />
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center text-slate-500 border-2 border-dashed border-slate-800 rounded-lg">
+                <Target className="w-16 h-16 mb-4 opacity-20" />
+                <p>Run the evaluation from the sidebar to see AP / AR.</p>
+              </div>
+            )
+          )}
+
+          {/* View 4: Statistics Tab -> Dashboard */}
+          {cocoData && activeTab === 'statistics' && datasetStats && (
+            <StatisticsDashboard
+              stats={datasetStats}
+              categoryCount={cocoData.categories.length}
+              getGroupColor={getGroupColor}
+              normalize={statsNormalize}
+              onSelectImage={(img) => jumpToImage(img.id)}
+            />
+          )}
+
         </div>
       </main>
     </div>
@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { X, Brush } from 'lucide-react';
+import { COCOAnnotation, COCOCategory } from '../types';
+import { segmentationToRle, getRleCounts, rleArea, calculateCentroid, isRle } from '../utils';
+
+interface AnnotationInspectorProps {
+  annotation: COCOAnnotation;
+  category?: COCOCategory;
+  imageSize: { width: number; height: number } | null;
+  color: [number, number, number];
+  onClose: () => void;
+  onEdit?: () => void; // Starts painting this annotation; no button without it
+}
+
+// Fields every COCO annotation has; anything else on the raw object is listed as extra
+const STANDARD_FIELDS = new Set(['id', 'image_id', 'category_id', 'segmentation', 'area', 'bbox', 'iscrowd']);
+const MAX_VALUE_LENGTH = 80;
+
+const formatNumber = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+const formatExtraValue = (value: unknown): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}...` : text;
+};
+
+/**
+ * Details of the annotation selected on the canvas: category, stored vs. decoded area, box,
+ * centroid and any non-standard fields of the raw annotation.
+ */
+export const AnnotationInspector: React.FC<AnnotationInspectorProps> = ({ annotation, category, imageSize, color, onClose, onEdit }) => {
+  const decoded = useMemo(() => {
+    if (!imageSize) return null;
+    const rle = segmentationToRle(annotation.segmentation, imageSize.height, imageSize.width);
+    const counts = rle && getRleCounts(rle);
+    return {
+      area: counts ? rleArea(counts) : null,
+      centroid: calculateCentroid(rle ?? annotation.segmentation),
+    };
+  }, [annotation, imageSize]);
+
+  const extras = Object.entries(annotation as unknown as Record<string, unknown>).filter(([key]) => !STANDARD_FIELDS.has(key));
+  const areaMismatch = decoded?.area != null && Math.abs(decoded.area - annotation.area) > Math.max(1, annotation.area * 0.01);
+
+  const rows: [string, React.ReactNode][] = [
+    ['Category', category ? `${category.name} (#${category.id})` : `#${annotation.category_id}`],
+    ['Supercategory', category?.supercategory || '-'],
+    ['Area', formatNumber(annotation.area)],
+    ['Decoded area', decoded?.area != null ? (
+      <span className={areaMismatch ? 'text-amber-300' : undefined} title={areaMismatch ? 'Differs from the stored area' : undefined}>
+        {decoded.area}
+      </span>
+    ) : '-'],
+    ['BBox', annotation.bbox ? annotation.bbox.map(formatNumber).join(', ') : '-'],
+    ['iscrowd', String(annotation.iscrowd ?? '-')],
+    ['Centroid', decoded?.centroid ? `${formatNumber(decoded.centroid.x)}, ${formatNumber(decoded.centroid.y)}` : '-'],
+    ['Segmentation', isRle(annotation.segmentation) ? 'RLE' : `Polygon (${annotation.segmentation.length} parts)`],
+  ];
+
+  return (
+    <div className="w-64 text-xs">
+      <div className="flex items-center mb-2">
+        <span
+          className="w-3 h-3 rounded-full mr-2 shrink-0 border border-white/20"
+          style={{ backgroundColor: `rgb(${color[0]}, ${color[1]}, ${color[2]})` }}
+        ></span>
+        <h3 className="font-bold text-slate-300 uppercase tracking-wider">Annotation #{annotation.id}</h3>
+        {onEdit && (
+          <button onClick={onEdit} className="ml-auto p-0.5 text-slate-500 hover:text-blue-400" title="Edit mask">
+            <Brush className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button onClick={onClose} className={`${onEdit ? '' : 'ml-auto '}p-0.5 text-slate-500 hover:text-slate-200`} title="Clear selection">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <dl className="space-y-0.5 max-h-48 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex gap-2">
+            <dt className="w-24 shrink-0 text-slate-500">{label}</dt>
+            <dd className="font-mono text-slate-200 break-all">{value}</dd>
+          </div>
+        ))}
+        {extras.map(([key, value]) => (
+          <div key={key} className="flex gap-2">
+            <dt className="w-24 shrink-0 text-slate-500 truncate" title={key}>{key}</dt>
+            <dd className="font-mono text-blue-200 break-all">{formatExtraValue(value)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Histogram } from '../lib/statistics';
+
+interface BarChartProps {
+  title: string;
+  histogram: Histogram;
+  groups: string[];
+  getGroupColor: (group: string) => string;
+  // Show each group's share of its own total side by side instead of stacked counts
+  normalize?: boolean;
+}
+
+/**
+ * Horizontal bar chart: one row per label, stacked (or side by side) by group.
+ */
+export const BarChart: React.FC<BarChartProps> = ({ title, histogram, groups, getGroupColor, normalize = false }) => {
+  const { labels, series } = histogram;
+  const rowTotal = (i: number) => groups.reduce((sum, group) => sum + series[group][i], 0);
+  const groupTotals = Object.fromEntries(groups.map(group => [group, series[group].reduce((sum, v) => sum + v, 0)]));
+  const share = (group: string, i: number) => groupTotals[group] > 0 ? series[group][i] / groupTotals[group] : 0;
+
+  const max = normalize
+    ? Math.max(...labels.flatMap((_, i) => groups.map(group => share(group, i))), 1e-9)
+    : Math.max(...labels.map((_, i) => rowTotal(i)), 1);
+
+  const groupLabel = (group: string) => group || 'All';
+
+  return (
+    <div className="bg-slate-850 border border-slate-800 rounded-xl p-4">
+      <h3 className="text-sm font-semibold text-slate-300 mb-3">{title}</h3>
+      {labels.length === 0 ? (
+        <p className="text-xs text-slate-500">No data</p>
+      ) : (
+        <div className="space-y-1">
+          {labels.map((label, i) => (
+            <div key={label} className="flex items-center gap-2 text-xs">
+              <span className="w-24 shrink-0 text-right text-slate-400 truncate font-mono" title={label}>{label}</span>
+              <div className="flex-1 min-w-0">
+                {normalize ? (
+                  groups.map(group => (
+                    <div
+                      key={group}
+                      className="h-1.5 my-px rounded-sm"
+                      style={{ width: `${(share(group, i) / max) * 100}%`, backgroundColor: getGroupColor(group) }}
+                      title={`${groupLabel(group)}: ${(share(group, i) * 100).toFixed(1)}% (${series[group][i]})`}
+                    />
+                  ))
+                ) : (
+                  <div className="flex h-3.5" style={{ width: `${(rowTotal(i) / max) * 100}%` }}>
+                    {groups.map(group => series[group][i] > 0 && (
+                      <div
+                        key={group}
+                        className="h-full first:rounded-l-sm last:rounded-r-sm"
+                        style={{ flexGrow: series[group][i], backgroundColor: getGroupColor(group) }}
+                        title={`${groupLabel(group)}: ${series[group][i]}`}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+              <span className="w-14 shrink-0 text-right text-slate-500 font-mono">{rowTotal(i)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface BatchNavigatorProps {
+  index: number;
+  total: number;
+  title: string;
+  onNavigate: (index: number) => void;
+}
+
+export const BatchNavigator: React.FC<BatchNavigatorProps> = ({ index, total, title, onNavigate }) => {
+  const buttonClass = 'p-1.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex items-center gap-3 mb-3 shrink-0 select-none">
+      <button
+        className={buttonClass}
+        onClick={() => onNavigate(index - 1)}
+        disabled={index <= 0}
+        title="Previous image (←)"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <span className="text-xs font-mono text-slate-400 shrink-0">
+        {index + 1} / {total}
+      </span>
+      <button
+        className={buttonClass}
+        onClick={() => onNavigate(index + 1)}
+        disabled={index >= total - 1}
+        title="Next image (→)"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+      {total > 2 && (
+        <input
+          type="range"
+          min={0}
+          max={total - 1}
+          value={index}
+          onChange={(e) => onNavigate(parseInt(e.target.value, 10))}
+          className="w-40 shrink-0 accent-blue-500"
+        />
+      )}
+      <span className="text-sm text-slate-300 truncate" title={title}>{title}</span>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Camera, Loader2, X, AlertTriangle } from 'lucide-react';
+import { SnapshotOptions } from '../lib/snapshot';
+
+export interface BatchRenderProgress {
+  name: string; // Folder being rendered
+  done: number;
+  total: number;
+}
+
+interface BatchRenderPanelProps {
+  options: Pick<SnapshotOptions, 'labels' | 'legend'>;
+  onOptionsChange: (options: Pick<SnapshotOptions, 'labels' | 'legend'>) => void;
+  progress: BatchRenderProgress | null;
+  onCancel: () => void;
+  message: string | null; // Outcome of the last render
+}
+
+/**
+ * Options and progress for rendering a tree folder's loaded images into a zip of overlay PNGs.
+ */
+export const BatchRenderPanel: React.FC<BatchRenderPanelProps> = ({ options, onOptionsChange, progress, onCancel, message }) => {
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="bg-slate-800 rounded p-3 text-xs space-y-2">
+      <div className="flex items-center text-slate-300">
+        <Camera className="w-4 h-4 mr-2 text-slate-500 shrink-0" />
+        <span>Render overlays with the camera button on a folder</span>
+      </div>
+      <div className="flex gap-4 text-slate-400">
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={options.labels} onChange={(e) => onOptionsChange({ ...options, labels: e.target.checked })} />
+          Labels
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={options.legend} onChange={(e) => onOptionsChange({ ...options, legend: e.target.checked })} />
+          Legend
+        </label>
+      </div>
+
+      {progress && (
+        <div>
+          <div className="flex items-center text-slate-300 mb-1">
+            <Loader2 className="w-3 h-3 mr-2 text-blue-400 animate-spin shrink-0" />
+            <span className="truncate" title={progress.name}>{progress.name}</span>
+            <span className="ml-auto pl-2 font-mono text-slate-500">{progress.done} / {progress.total}</span>
+            <button onClick={onCancel} className="pl-2 text-slate-500 hover:text-slate-200" title="Cancel rendering">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="h-1.5 bg-slate-900 rounded overflow-hidden">
+            <div className="h-full bg-blue-500 transition-[width]" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {!progress && message && (
+        <div className="flex items-start text-amber-300">
+          <AlertTriangle className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />
+          <span className="break-all">{message}</span>
+        </div>
+      )}
+    </div>
+  );
+};
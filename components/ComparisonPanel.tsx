@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { GitCompare, X, RefreshCw, AlertTriangle } from 'lucide-react';
+import { COCOJson } from '../types';
+import { Dropzone } from './Dropzone';
+import { LoadProgress } from './LoadProgress';
+import { LoadProgressUnit } from '../lib/jsonLoader';
+import {
+  ComparisonOptions, SkippedResults, ImageComparison, DatasetComparison, CategoryComparison, Overlap, Prediction, IouType,
+  MATCH_STATUS_COLORS, compareDataset, overlapIou, overlapDice
+} from '../lib/comparison';
+
+export interface ComparisonLayers {
+  groundTruth: boolean;
+  predictions: boolean;
+}
+
+interface ComparisonPanelProps {
+  data: COCOJson;
+  predictions: Prediction[] | null;
+  predictionsName: string | null;
+  skipped: SkippedResults | null; // Results entries parseResults left out
+  onPredictionsAccepted: (file: File) => void;
+  onClear: () => void;
+  loadProgress: { name: string; loaded: number; total: number; unit: LoadProgressUnit } | null; // Results file being parsed
+  onCancelLoad: () => void;
+  options: ComparisonOptions;
+  onOptionsChange: (options: ComparisonOptions) => void;
+  layers: ComparisonLayers;
+  onLayersChange: (layers: ComparisonLayers) => void;
+  current: ImageComparison | null; // Comparison of the image in the viewer
+  getCategoryName: (id: number) => string;
+}
+
+const formatMetric = (value: number | null) => value === null ? '-' : value.toFixed(3);
+
+const STATUS_LEGEND: [keyof typeof MATCH_STATUS_COLORS, string][] = [
+  ['tp', 'TP'],
+  ['fp', 'FP'],
+  ['fn', 'FN'],
+  ['ignored', 'Crowd'],
+];
+
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({
+  data,
+  predictions,
+  predictionsName,
+  skipped,
+  onPredictionsAccepted,
+  onClear,
+  loadProgress,
+  onCancelLoad,
+  options,
+  onOptionsChange,
+  layers,
+  onLayersChange,
+  current,
+  getCategoryName
+}) => {
+  const [summary, setSummary] = useState<DatasetComparison | null>(null);
+  const skippedCount = skipped ? skipped.invalid + skipped.unknownImage + skipped.unknownCategory : 0;
+  // Inputs the summary was computed from; any change makes it stale
+  const [summaryInputs, setSummaryInputs] = useState<unknown[]>([]);
+
+  const update = (patch: Partial<ComparisonOptions>) => onOptionsChange({ ...options, ...patch });
+
+  const inputs = [data, predictions, options];
+  const isStale = !!summary && inputs.some((value, i) => value !== summaryInputs[i]);
+
+  const evaluate = () => {
+    if (!predictions) return;
+    setSummary(compareDataset(data, predictions, options));
+    setSummaryInputs(inputs);
+  };
+
+  const checkboxLabelClass = 'flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer';
+
+  const metricsTable = (rows: CategoryComparison[], overall: Overlap, totals: { tp: number; fp: number; fn: number }) => (
+    <table className="w-full text-xs font-mono">
+      <thead>
+        <tr className="text-slate-500 text-left">
+          <th className="font-normal pb-1">Category</th>
+          <th className="font-normal pb-1 text-right">TP</th>
+          <th className="font-normal pb-1 text-right">FP</th>
+          <th className="font-normal pb-1 text-right">FN</th>
+          <th className="font-normal pb-1 text-right">IoU</th>
+          <th className="font-normal pb-1 text-right">Dice</th>
+        </tr>
+      </thead>
+      <tbody className="text-slate-300">
+        {rows.map(row => (
+          <tr key={row.categoryId}>
+            <td className="truncate max-w-[6rem] font-sans" title={getCategoryName(row.categoryId)}>{getCategoryName(row.categoryId)}</td>
+            <td className="text-right">{row.tp}</td>
+            <td className="text-right">{row.fp}</td>
+            <td className="text-right">{row.fn}</td>
+            <td className="text-right">{formatMetric(overlapIou(row.overlap))}</td>
+            <td className="text-right">{formatMetric(overlapDice(row.overlap))}</td>
+          </tr>
+        ))}
+        <tr className="border-t border-slate-700 text-slate-100">
+          <td className="font-sans pt-1">All</td>
+          <td className="text-right pt-1">{totals.tp}</td>
+          <td className="text-right pt-1">{totals.fp}</td>
+          <td className="text-right pt-1">{totals.fn}</td>
+          <td className="text-right pt-1">{formatMetric(overlapIou(overall))}</td>
+          <td className="text-right pt-1">{formatMetric(overlapDice(overall))}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div>
+      <Dropzone
+        onFileAccepted={onPredictionsAccepted}
+        accept="json"
+        label={predictions ? "Replace Predictions" : "Upload Results JSON"}
+      />
+      {loadProgress && <LoadProgress {...loadProgress} onCancel={onCancelLoad} />}
+
+      {predictions && (
+        <div className="mt-3 bg-slate-800 rounded p-3 space-y-3 text-sm">
+          <div className="flex items-center text-slate-300">
+            <GitCompare className="w-4 h-4 mr-2 text-slate-500 shrink-0" />
+            <span className="truncate" title={predictionsName || ''}>{predictionsName}</span>
+            <span className="ml-auto pl-2 text-xs font-mono text-slate-500 shrink-0">{predictions.length}</span>
+            <button onClick={onClear} className="ml-2 text-slate-500 hover:text-slate-200" title="Remove predictions">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {skipped && skippedCount > 0 && (
+            <div className="flex items-start text-xs text-amber-300">
+              <AlertTriangle className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />
+              <span>
+                {skippedCount} entries skipped ({[
+                  skipped.unknownImage && `${skipped.unknownImage} unknown image_id`,
+                  skipped.unknownCategory && `${skipped.unknownCategory} unknown category_id`,
+                  skipped.invalid && `${skipped.invalid} malformed`,
+                ].filter(Boolean).join(', ')}); they are left out of the comparison.
+              </span>
+            </div>
+          )}
+
+          <div className="flex gap-1">
+            {([['segm', 'Mask IoU'], ['bbox', 'BBox IoU']] as [IouType, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => update({ iouType: value })}
+                className={`flex-1 py-1 rounded text-xs border transition-colors ${
+                  options.iouType === value ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            <span className="w-20 shrink-0">IoU &ge;</span>
+            <input
+              type="range" min={0.05} max={0.95} step={0.05}
+              value={options.iouThreshold}
+              onChange={(e) => update({ iouThreshold: parseFloat(e.target.value) })}
+              className="flex-1 accent-blue-500"
+            />
+            <span className="font-mono w-10 text-right text-slate-300">{options.iouThreshold.toFixed(2)}</span>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            <span className="w-20 shrink-0">Score &ge;</span>
+            <input
+              type="range" min={0} max={1} step={0.01}
+              value={options.scoreThreshold}
+              onChange={(e) => update({ scoreThreshold: parseFloat(e.target.value) })}
+              className="flex-1 accent-blue-500"
+            />
+            <span className="font-mono w-10 text-right text-slate-300">{options.scoreThreshold.toFixed(2)}</span>
+          </label>
+
+          <div className="flex justify-between">
+            <label className={checkboxLabelClass}>
+              <input type="checkbox" checked={layers.groundTruth} onChange={(e) => onLayersChange({ ...layers, groundTruth: e.target.checked })} />
+              Ground truth
+            </label>
+            <label className={checkboxLabelClass}>
+              <input type="checkbox" checked={layers.predictions} onChange={(e) => onLayersChange({ ...layers, predictions: e.target.checked })} />
+              Predictions
+            </label>
+          </div>
+
+          <div className="flex justify-between text-xs text-slate-400">
+            {STATUS_LEGEND.map(([status, label]) => (
+              <span key={status} className="flex items-center">
+                <span className="w-3 h-3 rounded-full mr-1.5" style={{ backgroundColor: `rgb(${MATCH_STATUS_COLORS[status].join(', ')})` }} />
+                {label}
+              </span>
+            ))}
+          </div>
+
+          {current && (
+            <div className="pt-3 border-t border-slate-700">
+              <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Current Image</h3>
+              {metricsTable(current.categories, current.overall, current)}
+            </div>
+          )}
+
+          <div className="pt-3 border-t border-slate-700">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">All Images</h3>
+              <button onClick={evaluate} className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300">
+                <RefreshCw className="w-3 h-3" />
+                {summary ? 'Re-run' : 'Evaluate'}
+              </button>
+            </div>
+            {summary && (
+              <>
+                {isStale && <p className="text-xs text-yellow-400 mb-2">Settings or data changed since this run</p>}
+                {metricsTable(summary.categories, summary.overall, summary)}
+                <p className="mt-2 text-xs text-slate-500 font-mono">
+                  Precision {formatMetric(summary.tp + summary.fp > 0 ? summary.tp / (summary.tp + summary.fp) : null)}
+                  {'  '}Recall {formatMetric(summary.tp + summary.fn > 0 ? summary.tp / (summary.tp + summary.fn) : null)}
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
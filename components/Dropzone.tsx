@@ -1,16 +1,105 @@
-import React, { useRef, useState } from 'react';
-import { Upload, FileJson, Image as ImageIcon } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, FileJson, FileCode, FileText, Image as ImageIcon, FolderOpen, Box } from 'lucide-react';
+import { SUPPORTED_IMAGE_EXTENSIONS } from '../lib/imageLoader';
+import { isNiftiFileName } from '../lib/nifti';
+import { ImportFormat, isImportFile } from '../lib/annotationImport';
+import { supportsDirectoryPicker, pickDirectory, getDroppedDirectoryHandles, readDirectoryFiles } from '../lib/directoryAccess';
+
+type AcceptType = 'json' | 'image' | 'volume' | ImportFormat;
 
 interface DropzoneProps {
-  onFileAccepted: (file: File) => void;
-  accept: 'json' | 'image';
+  onFileAccepted?: (file: File) => void;
+  // Called with every valid file when `multiple` is set (files and whole folders)
+  onFilesAccepted?: (files: File[]) => void;
+  // Handles of the folders behind the accepted files, where the browser provides them (after onFilesAccepted)
+  onDirectoriesAccepted?: (handles: FileSystemDirectoryHandle[]) => void;
+  accept: AcceptType;
   label: string;
   disabled?: boolean;
+  multiple?: boolean;
 }
 
-export const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, accept, label, disabled }) => {
+const getExtension = (file: File) => file.name.split('.').pop()?.toLowerCase() || '';
+
+const ACCEPT_CONFIG: Record<AcceptType, { name: string; icon: React.ElementType; input: string; hint: string; test: (file: File) => boolean }> = {
+  json: {
+    name: 'JSON',
+    icon: FileJson,
+    input: '.json',
+    hint: '.json',
+    test: file => getExtension(file) === 'json'
+  },
+  image: {
+    name: 'Image',
+    icon: ImageIcon,
+    input: SUPPORTED_IMAGE_EXTENSIONS.map(ext => `.${ext}`).join(','),
+    hint: '.png/.jpg/.tif/.dcm',
+    test: file => SUPPORTED_IMAGE_EXTENSIONS.includes(getExtension(file))
+  },
+  volume: {
+    name: 'NIfTI',
+    icon: Box,
+    input: '.nii,.gz',
+    hint: '.nii/.nii.gz',
+    test: file => isNiftiFileName(file.name)
+  },
+  voc: {
+    name: 'Pascal VOC',
+    icon: FileCode,
+    input: '.xml,.txt',
+    hint: '.xml',
+    test: file => isImportFile('voc', file)
+  },
+  yolo: {
+    name: 'YOLO',
+    icon: FileText,
+    input: ['.txt', '.yaml', '.yml', '.names', ...SUPPORTED_IMAGE_EXTENSIONS.map(ext => `.${ext}`)].join(','),
+    hint: '.txt + image',
+    test: file => isImportFile('yolo', file)
+  },
+  labelmap: {
+    name: 'label map',
+    icon: ImageIcon,
+    input: '.png,.txt',
+    hint: '.png',
+    test: file => isImportFile('labelmap', file)
+  },
+};
+
+/**
+ * Recursively collects files from a dropped directory entry.
+ * Dropped files carry no webkitRelativePath, so the entry path is attached for matching.
+ */
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    Object.defineProperty(file, 'webkitRelativePath', { value: entry.fullPath.replace(/^\//, '') });
+    return [file];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns results in chunks until it yields an empty list
+  while (true) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) break;
+    entries.push(...chunk);
+  }
+  const nested = await Promise.all(entries.map(readEntry));
+  return nested.flat();
+};
+
+export const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, onFilesAccepted, onDirectoriesAccepted, accept, label, disabled, multiple }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // webkitdirectory is not part of React's input typings
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -22,11 +111,24 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, accept, labe
     setIsDragOver(false);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
     if (disabled) return;
 
+    if (multiple) {
+      // Entries and handles must be grabbed synchronously, before the DataTransfer is cleared
+      const handles = onDirectoriesAccepted ? getDroppedDirectoryHandles(e.dataTransfer.items) : null;
+      const entries = Array.from(e.dataTransfer.items)
+        .map(item => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+      const files = entries.length > 0
+        ? (await Promise.all(entries.map(readEntry))).flat()
+        : Array.from(e.dataTransfer.files);
+      if (acceptMany(files) && handles) onDirectoriesAccepted?.(await handles);
+      return;
+    }
+
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       validateAndAccept(e.dataTransfer.files[0]);
     }
@@ -34,23 +136,51 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, accept, labe
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      validateAndAccept(e.target.files[0]);
+      if (multiple) {
+        acceptMany(Array.from(e.target.files));
+      } else {
+        validateAndAccept(e.target.files[0]);
+      }
     }
+    // Allow re-selecting the same file(s)
+    e.target.value = '';
   };
 
+  const config = ACCEPT_CONFIG[accept];
+
   const validateAndAccept = (file: File) => {
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    
-    if (accept === 'json' && extension === 'json') {
-      onFileAccepted(file);
-    } else if (accept === 'image' && ['jpg', 'jpeg', 'png'].includes(extension || '')) {
-      onFileAccepted(file);
+    if (config.test(file)) {
+      onFileAccepted?.(file);
     } else {
-      alert(`Invalid file type. Please upload a ${accept === 'json' ? 'JSON' : 'Image'} file.`);
+      alert(`Invalid file type. Please upload a ${config.name} file.`);
+    }
+  };
+
+  const acceptMany = (files: File[]): boolean => {
+    const valid = files.filter(config.test);
+    if (valid.length === 0) {
+      alert(`No valid ${config.name} files found.`);
+      return false;
+    }
+    onFilesAccepted?.(valid);
+    return true;
+  };
+
+  // Folder selection through the directory picker, which (unlike the input) yields a reusable handle
+  const selectFolder = async () => {
+    if (!onDirectoriesAccepted || !supportsDirectoryPicker()) {
+      folderInputRef.current?.click();
+      return;
+    }
+    try {
+      const handle = await pickDirectory();
+      if (handle && acceptMany(await readDirectoryFiles(handle))) onDirectoriesAccepted([handle]);
+    } catch (err: any) {
+      alert(`Could not read the folder: ${err.message}`);
     }
   };
 
-  const Icon = accept === 'json' ? FileJson : ImageIcon;
+  const Icon = config.icon;
 
   return (
     <div
@@ -60,7 +190,7 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, accept, labe
       onDrop={handleDrop}
       className={`
         relative border-2 border-dashed rounded-lg p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-all
-        ${disabled ? 'opacity-50 cursor-not-allowed border-slate-700 bg-slate-900' : 
+        ${disabled ? 'opacity-50 cursor-not-allowed border-slate-700 bg-slate-900' :
           isDragOver ? 'border-blue-500 bg-blue-500/10' : 'border-slate-600 hover:border-slate-400 hover:bg-slate-800'}
       `}
     >
@@ -68,14 +198,39 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, accept, labe
         ref={fileInputRef}
         type="file"
         className="hidden"
-        accept={accept === 'json' ? '.json' : '.jpg,.jpeg,.png'}
+        accept={config.input}
+        multiple={multiple}
         disabled={disabled}
+        onChange={handleFileSelect}
       />
+      {multiple && (
+        <input
+          ref={folderInputRef}
+          type="file"
+          className="hidden"
+          disabled={disabled}
+          onChange={handleFileSelect}
+        />
+      )}
       <Icon className={`w-8 h-8 mb-2 ${isDragOver ? 'text-blue-400' : 'text-slate-400'}`} />
       <span className="text-sm font-medium text-slate-300">{label}</span>
       <span className="text-xs text-slate-500 mt-1">
-        {accept === 'json' ? 'Drag & Drop .json' : 'Drag & Drop .png/.jpg'}
+        {multiple ? `Drag & Drop ${config.hint} files or a folder` : `Drag & Drop ${config.hint}`}
       </span>
+      {multiple && (
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={(e) => {
+            e.stopPropagation();
+            selectFolder();
+          }}
+          className="mt-3 flex items-center text-xs text-blue-400 hover:text-blue-300 disabled:cursor-not-allowed"
+        >
+          <FolderOpen className="w-3 h-3 mr-1" />
+          Select Folder
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { COCOImage } from '../types';
+import { EvalResult, CategoryEval, ImageEval, getPrCurve, formatStat } from '../lib/cocoEval';
+import { PrCurveChart, PrCurve } from './PrCurveChart';
+
+interface EvaluationReportProps {
+  result: EvalResult;
+  getCategoryName: (id: number) => string;
+  onSelectImage: (image: COCOImage) => void;
+}
+
+type SortDirection = 'asc' | 'desc';
+
+interface Column<R> {
+  label: string;
+  value: (row: R) => number | string | null; // null (or a negative metric) sorts last
+  format?: (row: R) => React.ReactNode;
+}
+
+// Images beyond this are only counted; sorting decides which ones are shown
+const MAX_IMAGES_SHOWN = 200;
+
+const formatMetric = (value: number | null) => value === null || value < 0 ? '-' : value.toFixed(3);
+
+const sortRows = <R,>(rows: R[], column: Column<R>, direction: SortDirection): R[] => {
+  const key = (row: R) => {
+    const value = column.value(row);
+    return typeof value === 'number' && value < 0 ? null : value;
+  };
+  return [...rows].sort((a, b) => {
+    const va = key(a);
+    const vb = key(b);
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    const order = typeof va === 'string' ? va.localeCompare(String(vb)) : va - (vb as number);
+    return direction === 'asc' ? order : -order;
+  });
+};
+
+/**
+ * Table with click-to-sort column headers.
+ */
+function SortableTable<R>({ columns, rows, rowKey, initialSort, onRowClick, isRowActive, limit }: {
+  columns: Column<R>[];
+  rows: R[];
+  rowKey: (row: R) => string;
+  initialSort: { column: number; direction: SortDirection };
+  onRowClick: (row: R) => void;
+  isRowActive?: (row: R) => boolean;
+  limit?: number;
+}) {
+  const [sort, setSort] = useState(initialSort);
+  const sorted = useMemo(() => sortRows(rows, columns[sort.column], sort.direction), [rows, columns, sort]);
+  const shown = limit ? sorted.slice(0, limit) : sorted;
+
+  const toggleSort = (column: number) => setSort(current => ({
+    column,
+    direction: current.column === column && current.direction === 'asc' ? 'desc' : 'asc',
+  }));
+
+  return (
+    <div className="max-h-96 overflow-y-auto">
+      <table className="w-full text-xs">
+        <thead className="sticky top-0 bg-slate-850">
+          <tr className="text-slate-500">
+            {columns.map((column, i) => (
+              <th key={column.label} className={`font-normal pb-2 ${i === 0 ? 'text-left' : 'text-right'}`}>
+                <button onClick={() => toggleSort(i)} className="inline-flex items-center gap-1 hover:text-slate-200">
+                  {column.label}
+                  {sort.column === i && (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="font-mono text-slate-300">
+          {shown.map(row => (
+            <tr
+              key={rowKey(row)}
+              onClick={() => onRowClick(row)}
+              className={`cursor-pointer hover:bg-slate-700 ${isRowActive?.(row) ? 'bg-blue-600/20' : ''}`}
+            >
+              {columns.map((column, i) => (
+                <td
+                  key={column.label}
+                  className={`py-1 px-1 ${i === 0 ? 'font-sans truncate max-w-[16rem]' : 'text-right'}`}
+                  title={i === 0 ? String(column.value(row)) : undefined}
+                >
+                  {column.format ? column.format(row) : column.value(row)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {limit && rows.length > limit && (
+        <p className="px-1 py-1 text-xs text-slate-500">...and {rows.length - limit} more</p>
+      )}
+    </div>
+  );
+}
+
+export const EvaluationReport: React.FC<EvaluationReportProps> = ({ result, getCategoryName, onSelectImage }) => {
+  // Category (index into result.categoryIds) the PR curves are drawn for; null = all categories
+  const [curveCategory, setCurveCategory] = useState<number | null>(null);
+
+  const [ap, ap50, ap75] = result.stats;
+  const ar100 = result.stats[8];
+  const summary = [
+    { label: 'AP @[.50:.95]', value: ap.value },
+    { label: 'AP50', value: ap50.value },
+    { label: 'AP75', value: ap75.value },
+    { label: 'AR100', value: ar100.value },
+  ];
+
+  const curves: PrCurve[] = [
+    { label: 'IoU .50', color: '#60a5fa', precision: getPrCurve(result, 0, curveCategory) },
+    { label: 'IoU .75', color: '#f472b6', precision: getPrCurve(result, 5, curveCategory) },
+    { label: 'IoU .50:.95', color: '#34d399', precision: getPrCurve(result, null, curveCategory) },
+  ];
+
+  const categoryColumns: Column<CategoryEval>[] = useMemo(() => [
+    { label: 'Category', value: row => getCategoryName(row.categoryId) },
+    { label: 'GT', value: row => row.gtCount },
+    { label: 'Det', value: row => row.dtCount },
+    { label: 'AP', value: row => row.ap, format: row => formatMetric(row.ap) },
+    { label: 'AP50', value: row => row.ap50, format: row => formatMetric(row.ap50) },
+    { label: 'AP75', value: row => row.ap75, format: row => formatMetric(row.ap75) },
+    { label: 'AR100', value: row => row.ar100, format: row => formatMetric(row.ar100) },
+  ], [getCategoryName]);
+
+  const imageColumns: Column<ImageEval>[] = useMemo(() => [
+    { label: 'Image', value: row => row.image.file_name },
+    { label: 'GT', value: row => row.gtCount },
+    { label: 'Det', value: row => row.dtCount },
+    { label: 'TP', value: row => row.tp },
+    { label: 'FP', value: row => row.fp },
+    { label: 'FN', value: row => row.fn },
+    { label: 'AP50', value: row => row.ap50, format: row => formatMetric(row.ap50) },
+    { label: 'AP', value: row => row.ap, format: row => formatMetric(row.ap) },
+  ], []);
+
+  return (
+    <div className="w-full space-y-6">
+      <div className="grid grid-cols-2 xl:grid-cols-4 gap-4">
+        {summary.map(({ label, value }) => (
+          <div key={label} className="bg-slate-850 border border-slate-800 rounded-xl p-4">
+            <div className="text-slate-400 mb-2 text-xs uppercase tracking-wider font-semibold">{label}</div>
+            <div className="text-2xl font-mono text-slate-100">{formatMetric(value)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <div className="bg-slate-850 border border-slate-800 rounded-xl p-4 overflow-x-auto">
+          <h3 className="text-sm font-semibold text-slate-300 mb-3">Summary ({result.iouType})</h3>
+          <pre className="text-xs text-slate-300 font-mono leading-relaxed">
+            {result.stats.map(formatStat).join('\n')}
+          </pre>
+        </div>
+        <PrCurveChart
+          title={`Precision / Recall - ${curveCategory === null ? 'all categories' : getCategoryName(result.categoryIds[curveCategory])}`}
+          curves={curves}
+        />
+      </div>
+
+      <div className="bg-slate-850 border border-slate-800 rounded-xl p-4">
+        <h3 className="text-sm font-semibold text-slate-300 mb-3">Per Category</h3>
+        <p className="text-xs text-slate-500 mb-2">Click a category to plot its PR curves, again to go back to all.</p>
+        <SortableTable
+          columns={categoryColumns}
+          rows={result.categories}
+          rowKey={row => String(row.categoryId)}
+          initialSort={{ column: 3, direction: 'asc' }}
+          onRowClick={row => {
+            const k = result.categoryIds.indexOf(row.categoryId);
+            setCurveCategory(curveCategory === k ? null : k);
+          }}
+          isRowActive={row => curveCategory !== null && result.categoryIds[curveCategory] === row.categoryId}
+        />
+      </div>
+
+      <div className="bg-slate-850 border border-slate-800 rounded-xl p-4">
+        <h3 className="text-sm font-semibold text-slate-300 mb-3">Per Image ({result.images.length})</h3>
+        <p className="text-xs text-slate-500 mb-2">Worst first; click an image to open it. TP / FP / FN at IoU .50.</p>
+        <SortableTable
+          columns={imageColumns}
+          rows={result.images}
+          rowKey={row => `${row.image.id}-${row.image.file_name}`}
+          initialSort={{ column: 7, direction: 'asc' }}
+          onRowClick={row => onSelectImage(row.image)}
+          limit={MAX_IMAGES_SHOWN}
+        />
+      </div>
+    </div>
+  );
+};
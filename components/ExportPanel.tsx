@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { COCOJson, COCOImage } from '../types';
+import { stripExtension } from '../utils';
+import { RleFormat, buildExportDataset, downloadJson, downloadBlob } from '../lib/cocoExport';
+import { MaskExportFormat, MASK_EXPORT_FORMATS, exportMasksZip } from '../lib/maskExport';
+
+interface ExportPanelProps {
+  data: COCOJson;
+  sourceName: string; // File name of the loaded JSON
+  inputRleFormat: RleFormat | null;
+  filteredImages: COCOImage[] | null; // Images matching the tree filter; null when no filter is active
+}
+
+type ExportFormat = 'coco' | MaskExportFormat;
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ data, sourceName, inputRleFormat, filteredImages }) => {
+  const [format, setFormat] = useState<ExportFormat>('coco');
+  const [rleFormat, setRleFormat] = useState<RleFormat | 'original'>('original');
+  const [subsetOnly, setSubsetOnly] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const useSubset = subsetOnly && !!filteredImages;
+
+  const handleDownload = async () => {
+    const imageIds = useSubset ? new Set(filteredImages.map(img => String(img.id))) : null;
+    const suffix = useSubset ? 'subset' : 'edited';
+    if (format === 'coco') {
+      const dataset = buildExportDataset(data, { rleFormat, imageIds }, inputRleFormat);
+      downloadJson(dataset, `${stripExtension(sourceName)}_${suffix}.json`);
+      return;
+    }
+
+    setError(null);
+    setProgress({ done: 0, total: imageIds ? imageIds.size : data.images.length });
+    try {
+      const zip = await exportMasksZip(data, format, {
+        imageIds,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      downloadBlob(zip, `${stripExtension(sourceName)}_${format}${useSubset ? '_subset' : ''}.zip`);
+    } catch (err: any) {
+      setError(`Export failed: ${err.message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const selectClassName = 'w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="bg-slate-800 rounded p-3 space-y-3 text-sm">
+      <label className="block">
+        <span className="block text-xs text-slate-500 mb-1">Format</span>
+        <select
+          className={selectClassName}
+          value={format}
+          disabled={!!progress}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        >
+          <option value="coco">COCO JSON</option>
+          {MASK_EXPORT_FORMATS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      </label>
+
+      {format === 'coco' && (
+        <label className="block">
+          <span className="block text-xs text-slate-500 mb-1">RLE format</span>
+          <select
+            className={selectClassName}
+            value={rleFormat}
+            onChange={(e) => setRleFormat(e.target.value as RleFormat | 'original')}
+          >
+            <option value="original">Keep original{inputRleFormat ? ` (${inputRleFormat})` : ''}</option>
+            <option value="compressed">Compressed string</option>
+            <option value="uncompressed">Uncompressed array</option>
+          </select>
+        </label>
+      )}
+
+      <label className={`flex items-center gap-1.5 text-xs ${filteredImages ? 'text-slate-400 cursor-pointer' : 'text-slate-600 cursor-not-allowed'}`}>
+        <input
+          type="checkbox"
+          checked={useSubset}
+          disabled={!filteredImages || !!progress}
+          onChange={(e) => setSubsetOnly(e.target.checked)}
+        />
+        {filteredImages
+          ? `Only images filtered in the tree (${filteredImages.length})`
+          : 'Only filtered images (set a filter in the JSON Tree tab)'}
+      </label>
+
+      <button
+        onClick={handleDownload}
+        disabled={!!progress}
+        className="w-full flex items-center justify-center gap-2 py-2 rounded bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 text-white text-sm font-medium transition-colors"
+      >
+        {progress ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Exporting {progress.done} / {progress.total} images...
+          </>
+        ) : (
+          <>
+            <Download className="w-4 h-4" />
+            {format === 'coco' ? 'Download JSON' : 'Download ZIP'}
+          </>
+        )}
+      </button>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -1,44 +1,197 @@
-import React, { useState } from 'react';
-import { ChevronRight, ChevronDown, Folder, FolderOpen, File as FileIcon } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronRight, ChevronDown, Folder, FolderOpen, File as FileIcon, Camera } from 'lucide-react';
 import { TreeNode } from '../utils';
 import { COCOImage } from '../types';
+import { FolderStats } from '../lib/statistics';
 
 interface FileTreeProps {
-  node: TreeNode;
-  level?: number;
+  node: TreeNode; // Root of buildFileTree
   onSelect?: (image: COCOImage) => void;
   selectedImageId?: number | null;
+  // Aggregates per folder path of this tree, and of the whole dataset while a query filters it
+  folderStats?: Map<string, FolderStats>;
+  totalFolderStats?: Map<string, FolderStats> | null;
+  getCategoryName: (id: number) => string;
+  // Renders the folder's loaded images to PNGs; no button without it
+  onRenderFolder?: (node: TreeNode) => void;
 }
 
-export const FileTree: React.FC<FileTreeProps> = ({ node, level = 0, onSelect, selectedImageId }) => {
-  const [isOpen, setIsOpen] = useState(level < 1); // Open root and first level by default
-  const hasChildren = node.children && Object.keys(node.children).length > 0;
+interface TreeRow {
+  node: TreeNode;
+  level: number;
+}
 
-  if (node.type === 'file') {
-    const isSelected = selectedImageId !== undefined && node.data?.id === selectedImageId;
-    
-    return (
-      <div 
-        className={`flex items-center py-1.5 px-2 rounded cursor-pointer text-sm group transition-colors ${
-          isSelected ? 'bg-blue-600 text-white' : 'hover:bg-slate-800 text-slate-300'
-        }`}
-        style={{ paddingLeft: `${level * 16 + 8}px` }}
-        title={`ID: ${node.data?.id} | Path: ${node.data?.file_name}`}
-        onClick={() => node.data && onSelect?.(node.data)}
-      >
-        <FileIcon className={`w-4 h-4 mr-2 shrink-0 ${isSelected ? 'text-blue-200' : 'text-slate-500 group-hover:text-blue-400'}`} />
-        <span className="truncate">{node.name}</span>
-      </div>
-    );
+const ROW_HEIGHT = 28;
+// Rows rendered above and below the visible range, so fast scrolling does not flash blank rows
+const OVERSCAN = 10;
+
+// Folders first, then files, by name; cached per node since folders can hold tens of thousands of files
+const sortedChildrenCache = new WeakMap<TreeNode, TreeNode[]>();
+const getSortedChildren = (node: TreeNode): TreeNode[] => {
+  let children = sortedChildrenCache.get(node);
+  if (!children) {
+    children = Object.values(node.children || {}).sort((a, b) => {
+      if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+    sortedChildrenCache.set(node, children);
   }
+  return children;
+};
 
-  // Folder Node
-  return (
-    <div>
-      <div 
-        className="flex items-center py-1 px-2 hover:bg-slate-800 rounded cursor-pointer text-slate-200 select-none text-sm transition-colors"
-        style={{ paddingLeft: `${level * 16}px` }}
-        onClick={() => setIsOpen(!isOpen)}
+const getParentPath = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+/**
+ * Flattened, virtualized file tree: only the rows in view are rendered, so folders with
+ * tens of thousands of images open instantly. Arrow keys move and expand, Enter opens.
+ */
+export const FileTree: React.FC<FileTreeProps> = ({ node: root, onSelect, selectedImageId, folderStats, totalFolderStats, getCategoryName, onRenderFolder }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set([root.path])); // Open root by default
+  const [focusedPath, setFocusedPath] = useState(root.path);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const rows = useMemo(() => {
+    const out: TreeRow[] = [];
+    const visit = (node: TreeNode, level: number) => {
+      out.push({ node, level });
+      if (node.type === 'folder' && expanded.has(node.path)) {
+        getSortedChildren(node).forEach(child => visit(child, level + 1));
+      }
+    };
+    visit(root, 0);
+    return out;
+  }, [root, expanded]);
+
+  const focusedIndex = Math.max(0, rows.findIndex(row => row.node.path === focusedPath));
+  const focusedFolder = rows.find(row => row.node.type === 'folder' && row.node.path === focusedPath)?.node
+    ?? rows.find(row => row.node.type === 'folder' && row.node.path === getParentPath(focusedPath))?.node
+    ?? root;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setViewportHeight(entries[0].contentRect.height));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const scrollToRow = (index: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = index * ROW_HEIGHT;
+    if (top < container.scrollTop) container.scrollTop = top;
+    else if (top + ROW_HEIGHT > container.scrollTop + container.clientHeight) container.scrollTop = top + ROW_HEIGHT - container.clientHeight;
+  };
+
+  // Bring the selected image into view when it is picked elsewhere (e.g. from an issue list)
+  useEffect(() => {
+    if (selectedImageId === undefined || selectedImageId === null) return;
+    const index = rows.findIndex(row => row.node.type === 'file' && row.node.data?.id === selectedImageId);
+    if (index >= 0) scrollToRow(index);
+  }, [selectedImageId]);
+
+  const toggle = (path: string, open?: boolean) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (open ?? !next.has(path)) next.add(path);
+      else next.delete(path);
+      return next;
+    });
+  };
+
+  const focusRow = (index: number) => {
+    const row = rows[Math.min(Math.max(index, 0), rows.length - 1)];
+    if (!row) return;
+    setFocusedPath(row.node.path);
+    scrollToRow(rows.indexOf(row));
+  };
+
+  const activate = (node: TreeNode) => {
+    setFocusedPath(node.path);
+    if (node.type === 'folder') toggle(node.path);
+    else if (node.data) onSelect?.(node.data);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const row = rows[focusedIndex];
+    if (!row) return;
+    const { node } = row;
+    const isOpenFolder = node.type === 'folder' && expanded.has(node.path);
+
+    switch (e.key) {
+      case 'ArrowDown':
+        focusRow(focusedIndex + 1);
+        break;
+      case 'ArrowUp':
+        focusRow(focusedIndex - 1);
+        break;
+      case 'ArrowRight':
+        if (node.type === 'folder' && !isOpenFolder) toggle(node.path, true);
+        else if (isOpenFolder) focusRow(focusedIndex + 1);
+        break;
+      case 'ArrowLeft':
+        if (isOpenFolder && node !== root) toggle(node.path, false);
+        else if (row.level > 0) focusRow(rows.findIndex(r => r.node.type === 'folder' && r.node.path === getParentPath(node.path)));
+        break;
+      case 'Enter':
+        activate(node);
+        break;
+      case 'Home':
+        focusRow(0);
+        break;
+      case 'End':
+        focusRow(rows.length - 1);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  const renderRow = ({ node, level }: TreeRow, index: number) => {
+    const isFocused = index === focusedIndex;
+    const style = { top: index * ROW_HEIGHT, height: ROW_HEIGHT };
+
+    if (node.type === 'file') {
+      const isSelected = selectedImageId !== undefined && node.data?.id === selectedImageId;
+      return (
+        <div
+          key={node.path}
+          className={`absolute inset-x-0 flex items-center px-2 rounded cursor-pointer text-sm group transition-colors ${
+            isSelected ? 'bg-blue-600 text-white' : 'hover:bg-slate-800 text-slate-300'
+          } ${isFocused ? 'ring-1 ring-inset ring-blue-500' : ''}`}
+          style={{ ...style, paddingLeft: `${level * 16 + 8}px` }}
+          title={`ID: ${node.data?.id} | Path: ${node.data?.file_name}`}
+          onClick={() => activate(node)}
+        >
+          <FileIcon className={`w-4 h-4 mr-2 shrink-0 ${isSelected ? 'text-blue-200' : 'text-slate-500 group-hover:text-blue-400'}`} />
+          <span className="truncate">{node.name}</span>
+        </div>
+      );
+    }
+
+    const isOpen = expanded.has(node.path);
+    const hasChildren = getSortedChildren(node).length > 0;
+    const stats = folderStats?.get(node.path);
+    const total = totalFolderStats?.get(node.path);
+    const categoryLines = stats
+      ? Array.from(stats.categories.entries()).sort((a, b) => b[1] - a[1]).map(([id, count]) => `${getCategoryName(id)}: ${count}`)
+      : [];
+
+    return (
+      <div
+        key={node.path}
+        className={`absolute inset-x-0 flex items-center px-2 hover:bg-slate-800 rounded cursor-pointer text-slate-200 select-none text-sm transition-colors group ${
+          isFocused ? 'ring-1 ring-inset ring-blue-500' : ''
+        }`}
+        style={{ ...style, paddingLeft: `${level * 16}px` }}
+        title={stats ? [`${stats.images} images, ${stats.annotations} annotations`, ...categoryLines].join('\n') : undefined}
+        onClick={() => activate(node)}
       >
         <div className="w-4 h-4 mr-1 flex items-center justify-center shrink-0">
           {hasChildren && (
@@ -51,30 +204,71 @@ export const FileTree: React.FC<FileTreeProps> = ({ node, level = 0, onSelect, s
           <Folder className="w-4 h-4 mr-2 text-yellow-500/60 shrink-0" />
         )}
         <span className="font-medium truncate">{node.name === 'root' ? 'All Images' : node.name}</span>
-        {hasChildren && (
-          <span className="ml-2 text-xs text-slate-500 bg-slate-800 px-1.5 rounded-full border border-slate-700">
-             {Object.keys(node.children!).length}
+        {stats && (
+          <span className="ml-2 flex gap-1 shrink-0 text-xs font-mono">
+            <span className={`px-1.5 rounded-full border ${total ? 'text-blue-300 bg-blue-900/30 border-blue-800' : 'text-slate-500 bg-slate-800 border-slate-700'}`}>
+              {stats.images}{total && `/${total.images}`} img
+            </span>
+            <span className="px-1.5 rounded-full border text-slate-500 bg-slate-800 border-slate-700">{stats.annotations} ann</span>
           </span>
         )}
+        {onRenderFolder && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRenderFolder(node);
+            }}
+            className="ml-auto pl-2 text-slate-500 hover:text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+            title="Render overlays of the loaded images in this folder"
+          >
+            <Camera className="w-3.5 h-3.5" />
+          </button>
+        )}
       </div>
+    );
+  };
+
+  const summary = folderStats?.get(focusedFolder.path);
+  const summaryCategories = summary ? Array.from(summary.categories.entries()).sort((a, b) => b[1] - a[1]) : [];
+  const maxCategoryCount = summaryCategories.length > 0 ? summaryCategories[0][1] : 0;
 
-      {isOpen && node.children && (
-        <div className="border-l border-slate-800 ml-[11px]">
-          {(Object.entries(node.children) as [string, TreeNode][])
-            .sort((a, b) => {
-                // Sort folders first, then files
-                if (a[1].type !== b[1].type) return a[1].type === 'folder' ? -1 : 1;
-                return a[0].localeCompare(b[0]);
-            })
-            .map(([key, child]) => (
-            <FileTree 
-              key={child.path} 
-              node={child} 
-              level={level + 1} 
-              onSelect={onSelect}
-              selectedImageId={selectedImageId}
-            />
-          ))}
+  return (
+    <div className="h-full flex flex-col min-h-0">
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 min-h-[160px] overflow-y-auto overflow-x-hidden rounded focus:outline-none focus-visible:ring-1 focus-visible:ring-slate-600"
+      >
+        <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+          {rows.slice(first, last).map((row, i) => renderRow(row, first + i))}
+        </div>
+      </div>
+
+      {/* Aggregates of the focused folder */}
+      {summary && (
+        <div className="mt-3 shrink-0 bg-slate-800 rounded p-3 text-xs">
+          <div className="flex items-center text-slate-300 mb-2">
+            <FolderOpen className="w-3 h-3 mr-1.5 text-yellow-500/80 shrink-0" />
+            <span className="font-medium truncate" title={focusedFolder.path}>{focusedFolder.path || 'All Images'}</span>
+            <span className="ml-auto pl-2 font-mono text-slate-500 shrink-0">{summary.images} img / {summary.annotations} ann</span>
+          </div>
+          {summaryCategories.length === 0 ? (
+            <p className="text-slate-500 italic">No annotations</p>
+          ) : (
+            <ul className="space-y-1 max-h-32 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600">
+              {summaryCategories.map(([id, count]) => (
+                <li key={id} className="flex items-center gap-2">
+                  <span className="w-24 truncate text-slate-400" title={getCategoryName(id)}>{getCategoryName(id)}</span>
+                  <div className="flex-1 h-1.5 bg-slate-900 rounded overflow-hidden">
+                    <div className="h-full bg-blue-500/70" style={{ width: `${(count / maxCategoryCount) * 100}%` }} />
+                  </div>
+                  <span className="w-10 text-right font-mono text-slate-500">{count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { ImageBatch, getRelativePath } from '../utils';
+
+interface ImageBatchListProps {
+  batch: ImageBatch;
+  currentIndex: number;
+  onSelect: (index: number) => void;
+}
+
+type Section = 'matched' | 'unmatched' | 'ambiguous';
+
+export const ImageBatchList: React.FC<ImageBatchListProps> = ({ batch, currentIndex, onSelect }) => {
+  const [openSection, setOpenSection] = useState<Section | null>('matched');
+
+  const toggle = (section: Section) => setOpenSection(openSection === section ? null : section);
+
+  const header = (section: Section, title: string, count: number, icon: React.ReactNode, color: string) => (
+    <button
+      onClick={() => toggle(section)}
+      disabled={count === 0}
+      className={`w-full flex items-center justify-between py-2 text-sm ${color} disabled:opacity-50`}
+    >
+      <span className="flex items-center">
+        {openSection === section ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+        {icon}
+        {title}
+      </span>
+      <span className="text-xs font-mono bg-slate-900 px-1.5 rounded">{count}</span>
+    </button>
+  );
+
+  return (
+    <div className="bg-slate-800 rounded p-3 text-sm divide-y divide-slate-700">
+      <div>
+        {header('matched', 'Matched', batch.matched.length, <CheckCircle className="w-4 h-4 mr-2" />, 'text-green-400')}
+        {openSection === 'matched' && (
+          <ul className="max-h-48 overflow-y-auto pb-2 space-y-0.5">
+            {batch.matched.map((match, index) => (
+              <li
+                key={match.image.id}
+                onClick={() => onSelect(index)}
+                title={match.image.file_name}
+                className={`px-2 py-1 rounded cursor-pointer truncate text-xs ${
+                  index === currentIndex ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                {match.file.name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        {header('unmatched', 'Unmatched', batch.unmatched.length, <XCircle className="w-4 h-4 mr-2" />, 'text-red-400')}
+        {openSection === 'unmatched' && (
+          <ul className="max-h-48 overflow-y-auto pb-2 space-y-0.5">
+            {batch.unmatched.map(file => (
+              <li key={getRelativePath(file)} className="px-2 py-1 truncate text-xs text-slate-400" title={getRelativePath(file)}>
+                {getRelativePath(file)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        {header('ambiguous', 'Ambiguous', batch.ambiguous.length, <AlertTriangle className="w-4 h-4 mr-2" />, 'text-yellow-400')}
+        {openSection === 'ambiguous' && (
+          <ul className="max-h-48 overflow-y-auto pb-2 space-y-1">
+            {batch.ambiguous.map(entry => (
+              <li key={getRelativePath(entry.file)} className="px-2 py-1 text-xs text-slate-400">
+                <div className="truncate text-slate-300" title={getRelativePath(entry.file)}>{getRelativePath(entry.file)}</div>
+                <div className="text-[10px] text-slate-500">
+                  {entry.reason === 'duplicate-file'
+                    ? `Duplicate of an already matched file (ID ${entry.candidates[0].id})`
+                    : `${entry.candidates.length} images share this name`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
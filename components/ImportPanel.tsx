@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown, Import, AlertTriangle, Loader2 } from 'lucide-react';
+import { Dropzone } from './Dropzone';
+import { ImportFormat, ImportResult, IMPORT_FORMATS, importAnnotations } from '../lib/annotationImport';
+
+interface ImportPanelProps {
+  onImported: (result: ImportResult) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Converts Pascal VOC, YOLO or label map annotations into a COCO dataset.
+ */
+export const ImportPanel: React.FC<ImportPanelProps> = ({ onImported, onError }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ImportFormat>('yolo');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const handleFiles = async (files: File[]) => {
+    setWarnings([]);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const result = await importAnnotations(format, files, {
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setWarnings(result.warnings);
+      onImported(result);
+    } catch (err: any) {
+      onError(`Failed to import ${IMPORT_FORMATS.find(f => f.value === format)?.label}: ${err.message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const selected = IMPORT_FORMATS.find(f => f.value === format);
+
+  return (
+    <div className="bg-slate-800 rounded text-sm">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center p-3 text-slate-300">
+        {isOpen ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+        <Import className="w-4 h-4 mr-2 text-slate-500" />
+        Import Other Formats
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="flex gap-1">
+            {IMPORT_FORMATS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setFormat(value)}
+                className={`flex-1 py-1 rounded text-xs border transition-colors ${
+                  format === value ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">{selected?.hint}</p>
+
+          <Dropzone
+            key={format}
+            onFilesAccepted={handleFiles}
+            accept={format}
+            label={`Import ${selected?.label}`}
+            disabled={!!progress}
+            multiple
+          />
+
+          {progress && (
+            <div className="flex items-center text-xs text-slate-400">
+              <Loader2 className="w-4 h-4 mr-2 text-blue-400 animate-spin shrink-0" />
+              Converting{progress.total > 0 && ` ${progress.done} / ${progress.total} files`}...
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <div className="bg-amber-900/20 border border-amber-900 rounded p-2 text-xs text-amber-300">
+              <div className="flex items-center font-semibold mb-1">
+                <AlertTriangle className="w-3 h-3 mr-1.5 shrink-0" />
+                Import warnings
+              </div>
+              <ul className="space-y-0.5 max-h-32 overflow-y-auto font-mono text-amber-200/80">
+                {warnings.map((warning, i) => <li key={i} className="truncate" title={warning}>{warning}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
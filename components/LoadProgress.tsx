@@ -0,0 +1,40 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import { LoadProgressUnit } from '../lib/jsonLoader';
+
+interface LoadProgressProps {
+  name: string;
+  loaded: number; // Bytes read, or array elements received (see unit)
+  total: number;
+  unit?: LoadProgressUnit;
+  onCancel: () => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+
+/**
+ * Progress bar for a file being parsed in the background, with a cancel button.
+ */
+export const LoadProgress: React.FC<LoadProgressProps> = ({ name, loaded, total, unit = 'bytes', onCancel }) => {
+  const percent = total > 0 ? Math.min(100, (loaded / total) * 100) : 0;
+  return (
+    <div className="mt-3 bg-slate-800 rounded p-3 text-sm">
+      <div className="flex items-center text-slate-300 mb-2">
+        <Loader2 className="w-4 h-4 mr-2 text-blue-400 animate-spin shrink-0" />
+        <span className="truncate" title={name}>{name}</span>
+        <button onClick={onCancel} className="ml-auto pl-2 text-slate-500 hover:text-slate-200" title="Cancel loading">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="h-1.5 bg-slate-900 rounded overflow-hidden">
+        <div className="h-full bg-blue-500 transition-[width]" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="mt-1 flex justify-between text-xs font-mono text-slate-500">
+        <span>
+          {unit === 'bytes' ? `${formatMegabytes(loaded)} / ${formatMegabytes(total)}` : `Receiving ${loaded} / ${total} items`}
+        </span>
+        <span>{percent.toFixed(0)}%</span>
+      </div>
+    </div>
+  );
+};
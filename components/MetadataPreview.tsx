@@ -1,14 +1,14 @@
 import React, { useMemo } from 'react';
-import { COCOImage, COCOAnnotation, COCOCategory } from '../types';
+import { COCOImage, COCOAnnotation } from '../types';
 import { FileText, Image as ImageIcon, Ruler, Tag, Info } from 'lucide-react';
 
 interface MetadataPreviewProps {
   image: COCOImage;
   annotations: COCOAnnotation[];
-  categories: COCOCategory[];
+  getCategoryName: (id: number) => string;
 }
 
-export const MetadataPreview: React.FC<MetadataPreviewProps> = ({ image, annotations, categories }) => {
+export const MetadataPreview: React.FC<MetadataPreviewProps> = ({ image, annotations, getCategoryName }) => {
   
   const categoryCounts = useMemo(() => {
     const counts: Record<number, number> = {};
@@ -69,12 +69,11 @@ export const MetadataPreview: React.FC<MetadataPreviewProps> = ({ image, annotat
                   <div className="space-y-3">
                     {Object.entries(categoryCounts).map(([catIdStr, count]) => {
                       const catId = parseInt(catIdStr);
-                      const cat = categories.find(c => c.id === catId);
                       return (
                         <div key={catId} className="flex items-center justify-between p-3 bg-slate-800 rounded hover:bg-slate-750 transition-colors">
                            <div className="flex items-center">
                              <div className="w-3 h-3 rounded-full mr-3" style={{ backgroundColor: `hsl(${(catId * 137.508) % 360}, 70%, 50%)` }}></div>
-                             <span className="font-medium text-slate-200">{cat?.name || `Category ${catId}`}</span>
+                             <span className="font-medium text-slate-200">{getCategoryName(catId)}</span>
                            </div>
                            <span className="px-2 py-1 bg-slate-900 text-slate-400 rounded text-xs font-mono">
                              {count} objects
@@ -0,0 +1,167 @@
+import React, { useMemo } from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+import { COCOAnnotation, DisplaySettings, MaskStyle, BoxStyle } from '../types';
+
+interface OverlayLegendProps {
+  annotations: COCOAnnotation[];
+  getCategoryName: (id: number) => string;
+  getAnnotationColor: (ann: COCOAnnotation) => [number, number, number];
+  getAnnotationLabel: (ann: COCOAnnotation) => string;
+  settings: DisplaySettings;
+  onSettingsChange: (settings: DisplaySettings) => void;
+  // Instance shown in the inspector; clicking a name selects (or clears) it
+  selectedAnnotationId?: number | null;
+  onSelectAnnotation?: (id: number | null) => void;
+}
+
+const MASK_STYLES: { value: MaskStyle; label: string }[] = [
+  { value: 'fill', label: 'Fill' },
+  { value: 'outline', label: 'Outline' },
+  { value: 'both', label: 'Both' },
+];
+
+const BOX_STYLES: { value: BoxStyle; label: string }[] = [
+  { value: 'filled', label: 'Filled' },
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+];
+
+const MAX_OUTLINE_WIDTH = 10;
+
+const toggleId = (ids: number[], id: number) =>
+  ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id];
+
+export const OverlayLegend: React.FC<OverlayLegendProps> = ({ annotations, getCategoryName, getAnnotationColor, getAnnotationLabel, settings, onSettingsChange, selectedAnnotationId = null, onSelectAnnotation }) => {
+
+  // Group annotations per category for the legend
+  const groups = useMemo(() => {
+    const byCategory = new Map<number, COCOAnnotation[]>();
+    annotations.forEach(ann => {
+      const list = byCategory.get(ann.category_id);
+      if (list) list.push(ann);
+      else byCategory.set(ann.category_id, [ann]);
+    });
+    return Array.from(byCategory.entries());
+  }, [annotations]);
+
+  const update = (patch: Partial<DisplaySettings>) => onSettingsChange({ ...settings, ...patch });
+
+  const switchClass = (active: boolean) =>
+    `flex-1 px-2 py-1 rounded text-[10px] font-semibold uppercase tracking-wider border transition-colors ${
+      active ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'bg-slate-800 border-slate-700 text-slate-500 hover:text-slate-300'
+    }`;
+
+  return (
+    <div className="w-64">
+       <div className="flex items-center justify-between mb-2 border-b border-slate-700 pb-1">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+            Objects Found ({annotations.length})
+          </h3>
+       </div>
+
+       {/* Global Switches */}
+       <div className="flex gap-1 mb-2">
+         <button className={switchClass(settings.showMasks)} onClick={() => update({ showMasks: !settings.showMasks })}>Masks</button>
+         <button className={switchClass(settings.showBoxes)} onClick={() => update({ showBoxes: !settings.showBoxes })}>Boxes</button>
+         <button className={switchClass(settings.showLabels)} onClick={() => update({ showLabels: !settings.showLabels })}>Labels</button>
+       </div>
+       <div className="flex items-center gap-1 mb-1">
+         <span className="w-12 text-[10px] text-slate-400 uppercase tracking-wider">Masks</span>
+         {MASK_STYLES.map(({ value, label }) => (
+           <button key={value} className={switchClass(settings.maskStyle === value)} onClick={() => update({ maskStyle: value })}>{label}</button>
+         ))}
+       </div>
+       <div className="flex items-center gap-1 mb-2">
+         <span className="w-12 text-[10px] text-slate-400 uppercase tracking-wider">Boxes</span>
+         {BOX_STYLES.map(({ value, label }) => (
+           <button key={value} className={switchClass(settings.boxStyle === value)} onClick={() => update({ boxStyle: value })}>{label}</button>
+         ))}
+       </div>
+       {settings.maskStyle !== 'fill' && (
+         <label className="flex items-center gap-2 mb-2 text-[10px] text-slate-400 uppercase tracking-wider">
+           Outline
+           <input
+             type="range"
+             min={1}
+             max={MAX_OUTLINE_WIDTH}
+             step={1}
+             value={settings.outlineWidth}
+             onChange={(e) => update({ outlineWidth: parseInt(e.target.value, 10) })}
+             className="flex-1 accent-blue-500"
+           />
+           <span className="font-mono w-8 text-right">{settings.outlineWidth}px</span>
+         </label>
+       )}
+       <label className="flex items-center gap-2 mb-3 text-[10px] text-slate-400 uppercase tracking-wider">
+         Opacity
+         <input
+           type="range"
+           min={0}
+           max={1}
+           step={0.05}
+           value={settings.opacity}
+           onChange={(e) => update({ opacity: parseFloat(e.target.value) })}
+           className="flex-1 accent-blue-500"
+         />
+         <span className="font-mono w-8 text-right">{Math.round(settings.opacity * 100)}%</span>
+       </label>
+
+       {groups.length === 0 ? (
+         <p className="text-xs text-slate-500 italic">No masks rendered.</p>
+       ) : (
+         <ul className="space-y-2 max-h-60 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600">
+           {groups.map(([categoryId, anns]) => {
+              const categoryHidden = settings.hiddenCategoryIds.includes(categoryId);
+              return (
+                <li key={categoryId}>
+                  <button
+                    onClick={() => update({ hiddenCategoryIds: toggleId(settings.hiddenCategoryIds, categoryId) })}
+                    className={`w-full flex items-center text-xs font-semibold mb-1 ${categoryHidden ? 'text-slate-500' : 'text-slate-300 hover:text-white'}`}
+                    title={categoryHidden ? 'Show category' : 'Hide category'}
+                  >
+                    {categoryHidden ? <EyeOff className="w-3 h-3 mr-2 shrink-0" /> : <Eye className="w-3 h-3 mr-2 shrink-0" />}
+                    <span className="truncate">{getCategoryName(categoryId)}</span>
+                    <span className="ml-auto text-[10px] font-mono text-slate-500">{anns.length}</span>
+                  </button>
+                  <ul className="space-y-1 pl-5">
+                    {anns.map(ann => {
+                      const color = getAnnotationColor(ann);
+                      const colorStyle = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
+                      const hidden = categoryHidden || settings.hiddenAnnotationIds.includes(ann.id);
+                      const isSelected = ann.id === selectedAnnotationId;
+                      const toggleHidden = () => update({ hiddenAnnotationIds: toggleId(settings.hiddenAnnotationIds, ann.id) });
+                      return (
+                        <li
+                          key={ann.id}
+                          className={`flex items-center text-xs rounded px-1 -mx-1 ${isSelected ? 'bg-blue-600/30' : ''} ${hidden ? 'text-slate-500 line-through' : 'text-slate-200'}`}
+                        >
+                          <button
+                            onClick={toggleHidden}
+                            className="w-3 h-3 rounded-full mr-2 shrink-0 border border-white/20"
+                            style={{ backgroundColor: colorStyle, opacity: hidden ? 0.3 : 1 }}
+                            title={hidden ? 'Show instance' : 'Hide instance'}
+                          ></button>
+                          <span
+                            onClick={() => onSelectAnnotation ? onSelectAnnotation(isSelected ? null : ann.id) : toggleHidden()}
+                            className="truncate cursor-pointer hover:text-white"
+                            title={onSelectAnnotation ? 'Select instance' : hidden ? 'Show instance' : 'Hide instance'}
+                          >
+                            ID:{ann.id} - {getAnnotationLabel(ann)}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </li>
+              );
+           })}
+         </ul>
+       )}
+       <div className="mt-2 text-[10px] text-slate-500 border-t border-slate-700 pt-1">
+          * Box: Bounding Box ({BOX_STYLES.find(s => s.value === settings.boxStyle)?.label})<br/>
+          * Shape: RLE / Polygon Mask ({MASK_STYLES.find(s => s.value === settings.maskStyle)?.label})<br/>
+          * Click a swatch or category to hide or show it{onSelectAnnotation && <><br/>* Click a name, or a mask on the image, to inspect it</>}
+       </div>
+    </div>
+  );
+};
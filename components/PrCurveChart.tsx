@@ -0,0 +1,69 @@
+import React from 'react';
+import { RECALL_THRESHOLDS } from '../lib/cocoEval';
+
+export interface PrCurve {
+  label: string;
+  color: string;
+  precision: number[]; // One value per recall threshold, -1 where undefined
+}
+
+interface PrCurveChartProps {
+  title: string;
+  curves: PrCurve[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 200;
+const PADDING = { left: 32, right: 8, top: 8, bottom: 24 };
+const TICKS = [0, 0.25, 0.5, 0.75, 1];
+
+/**
+ * Precision over recall, sampled at the COCO recall thresholds.
+ */
+export const PrCurveChart: React.FC<PrCurveChartProps> = ({ title, curves }) => {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (recall: number) => PADDING.left + recall * plotWidth;
+  const y = (precision: number) => PADDING.top + (1 - precision) * plotHeight;
+
+  const toPoints = (precision: number[]) => RECALL_THRESHOLDS
+    .map((recall, r) => precision[r] > -1 ? `${x(recall).toFixed(1)},${y(precision[r]).toFixed(1)}` : null)
+    .filter(Boolean)
+    .join(' ');
+
+  const defined = curves.filter(curve => curve.precision.some(p => p > -1));
+
+  return (
+    <div className="bg-slate-850 border border-slate-800 rounded-xl p-4">
+      <h3 className="text-sm font-semibold text-slate-300 mb-3">{title}</h3>
+      {defined.length === 0 ? (
+        <p className="text-xs text-slate-500">No ground truth to evaluate</p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            {TICKS.map(tick => (
+              <g key={tick} className="text-slate-500">
+                <line x1={x(0)} x2={x(1)} y1={y(tick)} y2={y(tick)} stroke="currentColor" strokeOpacity={0.2} />
+                <line x1={x(tick)} x2={x(tick)} y1={y(0)} y2={y(1)} stroke="currentColor" strokeOpacity={0.2} />
+                <text x={PADDING.left - 4} y={y(tick) + 3} textAnchor="end" fontSize={9} fill="currentColor">{tick}</text>
+                <text x={x(tick)} y={HEIGHT - PADDING.bottom + 12} textAnchor="middle" fontSize={9} fill="currentColor">{tick}</text>
+              </g>
+            ))}
+            <text x={x(0.5)} y={HEIGHT - 2} textAnchor="middle" fontSize={9} className="fill-slate-400">Recall</text>
+            {defined.map(curve => (
+              <polyline key={curve.label} points={toPoints(curve.precision)} fill="none" stroke={curve.color} strokeWidth={1.5} />
+            ))}
+          </svg>
+          <div className="flex flex-wrap gap-3 mt-2 text-xs text-slate-400">
+            {defined.map(curve => (
+              <span key={curve.label} className="flex items-center">
+                <span className="w-3 h-0.5 mr-1.5" style={{ backgroundColor: curve.color }} />
+                {curve.label}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
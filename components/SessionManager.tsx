@@ -0,0 +1,105 @@
+import React from 'react';
+import { History, Pencil, Trash2, FolderOpen, Loader2, AlertTriangle } from 'lucide-react';
+import { SessionRecord } from '../lib/sessionStore';
+
+interface SessionManagerProps {
+  sessions: SessionRecord[];
+  currentId: string | null;
+  onOpen: (session: SessionRecord) => void;
+  onRename: (session: SessionRecord, name: string) => void;
+  onDelete: (session: SessionRecord) => void;
+  busy: string | null; // What is being restored or saved right now
+  message: string | null; // Why the last save or restore failed
+  // Image folders of the current session that need the user's permission to be read again
+  pendingFolders: string[];
+  onReconnect: () => void;
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Sessions saved in the browser (lib/sessionStore): open, rename or delete them.
+ */
+export const SessionManager: React.FC<SessionManagerProps> = ({
+  sessions, currentId, onOpen, onRename, onDelete, busy, message, pendingFolders, onReconnect
+}) => {
+  const rename = (session: SessionRecord) => {
+    const name = window.prompt('Rename session', session.name)?.trim();
+    if (name && name !== session.name) onRename(session, name);
+  };
+
+  const remove = (session: SessionRecord) => {
+    if (window.confirm(`Delete the saved session "${session.name}"? Loaded data stays open.`)) onDelete(session);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded p-3 text-xs space-y-2">
+      {busy && (
+        <div className="flex items-center text-slate-300">
+          <Loader2 className="w-3 h-3 mr-2 text-blue-400 animate-spin shrink-0" />
+          <span className="truncate">{busy}</span>
+        </div>
+      )}
+
+      {pendingFolders.length > 0 && (
+        <button
+          onClick={onReconnect}
+          className="w-full flex items-center justify-center px-2 py-1.5 rounded border border-blue-500 bg-blue-600/30 text-blue-200 hover:bg-blue-600/50"
+          title={pendingFolders.join('\n')}
+        >
+          <FolderOpen className="w-3 h-3 mr-1.5 shrink-0" />
+          <span className="truncate">Reconnect image folder{pendingFolders.length > 1 ? 's' : ''} ({pendingFolders.join(', ')})</span>
+        </button>
+      )}
+
+      {sessions.length === 0 ? (
+        <p className="text-slate-500 italic">Loaded annotations are saved here automatically.</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600">
+          {sessions.map(session => {
+            const isCurrent = session.id === currentId;
+            return (
+              <li
+                key={session.id}
+                className={`flex items-center gap-2 px-2 py-1 rounded border group ${
+                  isCurrent ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'bg-slate-900 border-slate-700 text-slate-300'
+                }`}
+              >
+                <button
+                  onClick={() => onOpen(session)}
+                  disabled={isCurrent || !!busy}
+                  className="flex-1 min-w-0 text-left disabled:cursor-default"
+                  title={isCurrent ? 'Current session' : `Open (${session.fileName})`}
+                >
+                  <div className="truncate font-medium">{session.name}</div>
+                  <div className="text-[10px] text-slate-500 font-mono">
+                    {session.imageCount} img / {session.annotationCount} ann - {formatDate(session.updatedAt)}
+                  </div>
+                </button>
+                <button onClick={() => rename(session)} className="p-0.5 text-slate-500 hover:text-slate-200 opacity-0 group-hover:opacity-100" title="Rename session">
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button onClick={() => remove(session)} className="p-0.5 text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100" title="Delete session">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {message && (
+        <div className="flex items-start text-amber-300">
+          <AlertTriangle className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />
+          <span className="break-all">{message}</span>
+        </div>
+      )}
+
+      <div className="flex items-center text-[10px] text-slate-500">
+        <History className="w-3 h-3 mr-1.5 shrink-0" />
+        The last session is restored on reload
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Image as ImageIcon, Tag, Layers, FileX } from 'lucide-react';
+import { COCOImage } from '../types';
+import { DatasetStats } from '../lib/statistics';
+import { BarChart } from './BarChart';
+
+interface StatisticsDashboardProps {
+  stats: DatasetStats;
+  categoryCount: number;
+  getGroupColor: (group: string) => string;
+  normalize: boolean;
+  onSelectImage: (image: COCOImage) => void;
+}
+
+// Empty images beyond this are only counted
+const MAX_EMPTY_IMAGES_SHOWN = 100;
+
+export const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ stats, categoryCount, getGroupColor, normalize, onSelectImage }) => {
+  const sum = (counts: Record<string, number>) => Object.values(counts).reduce((total, c) => total + c, 0);
+  const chartProps = { groups: stats.groups, getGroupColor, normalize };
+
+  const summary = [
+    { label: 'Images', value: sum(stats.imageCounts), icon: ImageIcon },
+    { label: 'Annotations', value: sum(stats.annotationCounts), icon: Layers },
+    { label: 'Categories', value: categoryCount, icon: Tag },
+    { label: 'Empty Images', value: stats.emptyImages.length, icon: FileX },
+  ];
+
+  return (
+    <div className="w-full space-y-6">
+      <div className="grid grid-cols-2 xl:grid-cols-4 gap-4">
+        {summary.map(({ label, value, icon: Icon }) => (
+          <div key={label} className="bg-slate-850 border border-slate-800 rounded-xl p-4">
+            <div className="flex items-center text-slate-400 mb-2 text-xs uppercase tracking-wider font-semibold">
+              <Icon className="w-4 h-4 mr-2" /> {label}
+            </div>
+            <div className="text-2xl font-mono text-slate-100">{value.toLocaleString()}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <BarChart title="Instances per Category" histogram={stats.instancesPerCategory} {...chartProps} />
+        <BarChart title="Images per Category" histogram={stats.imagesPerCategory} {...chartProps} />
+        <BarChart title="Annotations per Image" histogram={stats.annotationsPerImage} {...chartProps} />
+        <BarChart title="Mask Area (px)" histogram={stats.maskArea} {...chartProps} />
+        <BarChart title="BBox Aspect Ratio (w / h)" histogram={stats.bboxAspectRatio} {...chartProps} />
+        <BarChart title="Image Size (w x h)" histogram={stats.imageSizes} {...chartProps} />
+      </div>
+
+      <div className="bg-slate-850 border border-slate-800 rounded-xl p-4">
+        <h3 className="text-sm font-semibold text-slate-300 mb-3">Images without Annotations ({stats.emptyImages.length})</h3>
+        {stats.emptyImages.length === 0 ? (
+          <p className="text-xs text-slate-500">Every image has at least one annotation.</p>
+        ) : (
+          <ul className="max-h-64 overflow-y-auto space-y-0.5">
+            {stats.emptyImages.slice(0, MAX_EMPTY_IMAGES_SHOWN).map(img => (
+              <li
+                key={`${img.id}-${img.file_name}`}
+                onClick={() => onSelectImage(img)}
+                className="px-2 py-1 rounded cursor-pointer truncate text-xs text-slate-300 hover:bg-slate-700"
+                title={img.file_name}
+              >
+                {img.file_name}
+              </li>
+            ))}
+            {stats.emptyImages.length > MAX_EMPTY_IMAGES_SHOWN && (
+              <li className="px-2 py-1 text-xs text-slate-500">
+                ...and {stats.emptyImages.length - MAX_EMPTY_IMAGES_SHOWN} more
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
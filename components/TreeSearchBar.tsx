@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Search, Star, X, HelpCircle, AlertCircle } from 'lucide-react';
+import { TREE_QUERY_FIELDS } from '../lib/treeQuery';
+
+interface SavedQuery {
+  name: string;
+  query: string;
+}
+
+interface TreeSearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  error: string | null; // Why the query could not be compiled
+  matchCount: number | null; // Images matching the query; null without a query
+  totalCount: number;
+}
+
+const SAVED_QUERIES_KEY = 'medseg-viewer.savedQueries';
+
+const loadSavedQueries = (): SavedQuery[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_QUERIES_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(q => typeof q?.name === 'string' && typeof q?.query === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Query box of the JSON Tree, with a syntax reference and saved queries (kept in localStorage).
+ */
+export const TreeSearchBar: React.FC<TreeSearchBarProps> = ({ value, onChange, error, matchCount, totalCount }) => {
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>(loadSavedQueries);
+  const [showHelp, setShowHelp] = useState(false);
+
+  const updateSavedQueries = (queries: SavedQuery[]) => {
+    setSavedQueries(queries);
+    localStorage.setItem(SAVED_QUERIES_KEY, JSON.stringify(queries));
+  };
+
+  const saveQuery = () => {
+    const query = value.trim();
+    if (!query) return;
+    const name = window.prompt('Name this query', query)?.trim();
+    if (!name) return;
+    updateSavedQueries([...savedQueries.filter(q => q.name !== name), { name, query }]);
+  };
+
+  const isSaved = savedQueries.some(q => q.query === value.trim());
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-500" />
+        <input
+          type="text"
+          placeholder="Search or query, e.g. category:tumor width>=512"
+          className={`w-full bg-slate-800 border rounded pl-9 pr-16 py-2 text-sm focus:outline-none ${error ? 'border-red-700 focus:border-red-500' : 'border-slate-700 focus:border-blue-500'}`}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        <div className="absolute right-2 top-2 flex items-center gap-1">
+          <button
+            onClick={saveQuery}
+            disabled={!value.trim() || !!error}
+            className={`p-0.5 disabled:opacity-40 ${isSaved ? 'text-yellow-400' : 'text-slate-500 hover:text-yellow-400'}`}
+            title="Save query"
+          >
+            <Star className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setShowHelp(!showHelp)}
+            className={`p-0.5 ${showHelp ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}`}
+            title="Query syntax"
+          >
+            <HelpCircle className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="flex items-start text-xs text-red-400">
+          <AlertCircle className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />
+          {error}
+        </p>
+      ) : matchCount !== null && (
+        <p className="text-xs text-slate-500">{matchCount} of {totalCount} images match</p>
+      )}
+
+      {showHelp && (
+        <dl className="bg-slate-800 rounded p-2 space-y-1 text-xs">
+          {TREE_QUERY_FIELDS.map(({ syntax, description }) => (
+            <div key={syntax} className="flex gap-2">
+              <dt className="font-mono text-blue-300 shrink-0 w-32">{syntax}</dt>
+              <dd className="text-slate-400">{description}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {savedQueries.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {savedQueries.map(saved => (
+            <span
+              key={saved.name}
+              className={`flex items-center rounded-full border text-xs ${
+                saved.query === value.trim() ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'bg-slate-800 border-slate-700 text-slate-300'
+              }`}
+            >
+              <button onClick={() => onChange(saved.query)} className="pl-2 pr-1 py-0.5 truncate max-w-[12rem] hover:text-white" title={saved.query}>
+                {saved.name}
+              </button>
+              <button
+                onClick={() => updateSavedQueries(savedQueries.filter(q => q.name !== saved.name))}
+                className="pr-1.5 text-slate-500 hover:text-slate-200"
+                title="Remove saved query"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown, ShieldCheck, AlertTriangle, XCircle, CheckCircle, RefreshCw } from 'lucide-react';
+import { COCOJson } from '../types';
+import { ValidationReport, IssueType, validateDataset } from '../lib/validator';
+
+interface ValidationPanelProps {
+  data: COCOJson;
+  onSelectImage: (imageId: number | string) => void;
+}
+
+// Long groups are cut off to keep the sidebar responsive
+const MAX_ISSUES_SHOWN = 200;
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ data, onSelectImage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [report, setReport] = useState<ValidationReport | null>(null);
+  // The dataset the report was computed for; edits make it stale
+  const [checkedData, setCheckedData] = useState<COCOJson | null>(null);
+  const [openGroup, setOpenGroup] = useState<IssueType | null>(null);
+
+  const runChecks = () => {
+    const result = validateDataset(data);
+    setReport(result);
+    setCheckedData(data);
+    setOpenGroup(result.groups[0]?.type ?? null);
+  };
+
+  const toggleOpen = () => {
+    if (!isOpen && checkedData !== data) runChecks();
+    setIsOpen(!isOpen);
+  };
+
+  const isStale = !!report && checkedData !== data;
+
+  return (
+    <div className="bg-slate-800 rounded text-sm">
+      <button onClick={toggleOpen} className="w-full flex items-center justify-between p-3 text-slate-300">
+        <span className="flex items-center">
+          {isOpen ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+          <ShieldCheck className="w-4 h-4 mr-2 text-slate-500" />
+          Dataset Checks
+        </span>
+        {report && (
+          <span className="flex items-center gap-1 text-xs font-mono">
+            <span className={`px-1.5 rounded bg-slate-900 ${report.errorCount > 0 ? 'text-red-400' : 'text-slate-500'}`}>{report.errorCount}</span>
+            <span className={`px-1.5 rounded bg-slate-900 ${report.warningCount > 0 ? 'text-yellow-400' : 'text-slate-500'}`}>{report.warningCount}</span>
+          </span>
+        )}
+      </button>
+
+      {isOpen && report && (
+        <div className="px-3 pb-3">
+          <div className="flex items-center justify-between text-xs text-slate-500 mb-2">
+            <span>
+              {isStale ? 'Dataset changed since the last check' : `${report.checkedAnnotations} annotations checked`}
+            </span>
+            <button onClick={runChecks} className="flex items-center gap-1 text-blue-400 hover:text-blue-300" title="Run checks again">
+              <RefreshCw className="w-3 h-3" />
+              Re-run
+            </button>
+          </div>
+
+          {report.groups.length === 0 ? (
+            <div className="flex items-center text-green-400 text-xs py-1">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              No issues found
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-700">
+              {report.groups.map(group => (
+                <div key={group.type}>
+                  <button
+                    onClick={() => setOpenGroup(openGroup === group.type ? null : group.type)}
+                    className={`w-full flex items-center justify-between py-2 text-xs ${group.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}
+                  >
+                    <span className="flex items-center">
+                      {openGroup === group.type ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+                      {group.severity === 'error' ? <XCircle className="w-4 h-4 mr-2" /> : <AlertTriangle className="w-4 h-4 mr-2" />}
+                      {group.title}
+                    </span>
+                    <span className="font-mono bg-slate-900 px-1.5 rounded">{group.issues.length}</span>
+                  </button>
+                  {openGroup === group.type && (
+                    <ul className="max-h-48 overflow-y-auto pb-2 space-y-0.5">
+                      {group.issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => {
+                        const imageId = issue.imageId;
+                        return (
+                          <li
+                            key={index}
+                            onClick={imageId !== undefined ? () => onSelectImage(imageId) : undefined}
+                            title={issue.message}
+                            className={`px-2 py-1 rounded truncate text-xs text-slate-300 ${imageId !== undefined ? 'cursor-pointer hover:bg-slate-700' : ''}`}
+                          >
+                            {issue.message}
+                          </li>
+                        );
+                      })}
+                      {group.issues.length > MAX_ISSUES_SHOWN && (
+                        <li className="px-2 py-1 text-xs text-slate-500">
+                          ...and {group.issues.length - MAX_ISSUES_SHOWN} more
+                        </li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,199 +1,524 @@
-import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { COCOAnnotation, COCOCategory, COCORLE } from '../types';
-import { decodeRleToCanvas, calculateCentroid, getColorForId } from '../utils';
+import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react';
+import { Maximize, ZoomIn, ZoomOut, Contrast, Wand2, RotateCcw, Hand, Brush, Eraser, Undo2, Redo2, Camera } from 'lucide-react';
+import { COCOAnnotation, COCOCategory, DisplaySettings, WindowLevel, AnnotationStyle } from '../types';
+import { decodeRleToMask, applyMaskToAnnotation, segmentationToRle } from '../utils';
+import { RasterImage, computeAutoWindow, formatPixelValue, WINDOW_PRESETS } from '../lib/raster';
+import { loadMaskLayers, MaskLayer } from '../lib/maskCache';
+import { ViewState, LabelAnchor, getStyledColor, getStyledLabel, drawBaseImage, computeLabelAnchors, drawAnnotations, drawLabels, hitTestAnnotations } from '../lib/overlayRenderer';
+import { SnapshotOptions, DEFAULT_SNAPSHOT_OPTIONS, composeSnapshot, canvasToPng } from '../lib/snapshot';
+import { downloadBlob } from '../lib/cocoExport';
+import { ViewFocus } from '../lib/urlState';
+import { OverlayLegend } from './OverlayLegend';
+import { AnnotationInspector } from './AnnotationInspector';
 
 interface ViewerProps {
-  imageFile: File;
+  image: RasterImage | null;
+  loading?: boolean;
   annotations: COCOAnnotation[];
-  categories: COCOCategory[];
+  getCategoryName: (id: number) => string;
+  getCategory?: (id: number) => COCOCategory | undefined; // Full category (supercategory) for the inspector
+  displaySettings: DisplaySettings;
+  onDisplaySettingsChange: (settings: DisplaySettings) => void;
+  // Color/label overrides per annotation id; others are colored by id
+  annotationStyles?: Map<number, AnnotationStyle>;
+  // Mask editing; the viewer stays read-only without onAnnotationEdit
+  onAnnotationEdit?: (before: COCOAnnotation, after: COCOAnnotation) => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  snapshotName?: string; // File name (without extension) for saved snapshots
+  // Zoom and center requested from outside (the URL), and where the user has moved the view since
+  focus?: ViewFocus | null;
+  onFocusChange?: (focus: ViewFocus) => void;
 }
 
-export const Viewer: React.FC<ViewerProps> = ({ imageFile, annotations, categories }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+interface CursorInfo {
+  x: number;
+  y: number;
+  value: string;
+}
+
+type EditTool = 'pan' | 'brush' | 'eraser';
+
+// Working copy of the mask being painted (row-major, 1 = foreground)
+interface EditMask {
+  annotation: COCOAnnotation;
+  mask: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 64;
+const MAX_BRUSH_SIZE = 100;
+// Pointer travel (screen px) below which a left press counts as a click rather than a pan
+const CLICK_SLOP = 4;
+// Pans and zooms are reported once the view has settled
+const FOCUS_REPORT_DELAY = 300;
+
+const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+
+export const Viewer: React.FC<ViewerProps> = ({
+  image: raster,
+  loading = false,
+  annotations,
+  getCategoryName,
+  getCategory,
+  displaySettings,
+  onDisplaySettingsChange,
+  annotationStyles,
+  onAnnotationEdit,
+  canUndo = false,
+  canRedo = false,
+  onUndo,
+  onRedo,
+  snapshotName = 'snapshot',
+  focus = null,
+  onFocusChange
+}) => {
+  const baseCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const labelCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [loading, setLoading] = useState(false);
-  
-  const getCategoryName = (id: number) => {
-    return categories.find(c => c.id === id)?.name || `Class ${id}`;
+  // Pan drag; a left click that barely moved selects instead
+  const dragRef = useRef<{ startX: number; startY: number; viewX: number; viewY: number; button: number } | null>(null);
+  // Right-drag window/level adjustment
+  const windowDragRef = useRef<{ startX: number; startY: number; window: WindowLevel } | null>(null);
+
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<ViewState>({ scale: 1, x: 0, y: 0 });
+  const [labelAnchors, setLabelAnchors] = useState<LabelAnchor[]>([]);
+  // Decoded mask layers per annotation id (from the mask cache); reloaded when annotations, colors or image size change
+  const [maskLayers, setMaskLayers] = useState<Map<number, MaskLayer>>(new Map());
+  const [cursor, setCursor] = useState<CursorInfo | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+  // Annotation picked on the canvas or in the legend; highlighted and shown in the inspector
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  // Mask editing
+  const [tool, setTool] = useState<EditTool>('pan');
+  const [brushSize, setBrushSize] = useState(10);
+  const [editTargetId, setEditTargetId] = useState<number | null>(null);
+  // Bumped when a mask layer is painted in place, so the overlay redraws
+  const [maskVersion, setMaskVersion] = useState(0);
+  // Screen position of the pointer, for the brush outline
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const editMaskRef = useRef<EditMask | null>(null);
+  // Full-size layer the working mask is painted into; shown instead of the cached layer until the edit is reloaded
+  const editLayerRef = useRef<{ annotation: COCOAnnotation; canvas: HTMLCanvasElement } | null>(null);
+  const strokeRef = useRef<{ x: number; y: number; changed: boolean } | null>(null);
+
+  // Snapshot menu
+  const [isSnapshotOpen, setIsSnapshotOpen] = useState(false);
+  const [snapshotOptions, setSnapshotOptions] = useState<SnapshotOptions>(DEFAULT_SNAPSHOT_OPTIONS);
+
+  const editTarget = annotations.find(a => a.id === editTargetId) ?? null;
+  const selected = annotations.find(a => a.id === selectedId) ?? null;
+  const isPaintTool = !!onAnnotationEdit && tool !== 'pan';
+
+  const getAnnotationColor = (ann: COCOAnnotation) => getStyledColor(ann, annotationStyles);
+  const getAnnotationLabel = (ann: COCOAnnotation) => getStyledLabel(ann, getCategoryName, annotationStyles);
+
+  // Track the container size for fitting and the screen-space label layer
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setContainerSize({ width, height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const fitView = useCallback((size = imageSize) => {
+    if (!size || containerSize.width === 0 || containerSize.height === 0) return;
+    const scale = clampScale(Math.min(containerSize.width / size.width, containerSize.height / size.height));
+    setView({
+      scale,
+      x: (containerSize.width - size.width * scale) / 2,
+      y: (containerSize.height - size.height * scale) / 2
+    });
+  }, [imageSize, containerSize]);
+
+  const actualSizeView = () => {
+    if (!imageSize) return;
+    setView({
+      scale: 1,
+      x: (containerSize.width - imageSize.width) / 2,
+      y: (containerSize.height - imageSize.height) / 2
+    });
   };
 
-  // Prepare legend data
-  const legendItems = useMemo(() => {
-    const uniqueItems = new Map<number, { name: string, color: string }>();
-    annotations.forEach(ann => {
-      if (!uniqueItems.has(ann.category_id)) {
-        const color = getColorForId(ann.id);
-        const colorHex = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
-        uniqueItems.set(ann.category_id, {
-          name: getCategoryName(ann.category_id),
-          color: colorHex
-        });
-      }
+  // Zoom by a factor, keeping the given screen point fixed
+  const zoomAt = (factor: number, sx: number, sy: number) => {
+    setView(v => {
+      const scale = clampScale(v.scale * factor);
+      const ratio = scale / v.scale;
+      return { scale, x: sx - (sx - v.x) * ratio, y: sy - (sy - v.y) * ratio };
     });
-    return Array.from(uniqueItems.entries());
-  }, [annotations, categories]);
+  };
 
+  // Fit whenever the image dimensions change; slices of equal size keep the current view
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || !imageFile) return;
+    fitView();
+  }, [imageSize?.width, imageSize?.height, containerSize.width > 0 && containerSize.height > 0]);
 
+  // Last focus reported or applied, so a reported focus coming back as a prop is not applied again
+  const focusKeyRef = useRef<string | null>(null);
+  const focusKey = focus && `${focus.scale},${focus.x},${focus.y}`;
+
+  // Apply a requested focus once the image size is known (after the fit above, so it wins)
+  useEffect(() => {
+    if (!focus || !focusKey || !imageSize || containerSize.width === 0 || containerSize.height === 0) return;
+    if (focusKey === focusKeyRef.current) return;
+    focusKeyRef.current = focusKey;
+    const scale = clampScale(focus.scale);
+    setView({ scale, x: containerSize.width / 2 - focus.x * scale, y: containerSize.height / 2 - focus.y * scale });
+  }, [focusKey, imageSize, containerSize.width > 0 && containerSize.height > 0]);
+
+  // Report where the user has panned and zoomed to
+  useEffect(() => {
+    if (!onFocusChange || !imageSize || containerSize.width === 0 || containerSize.height === 0) return;
+    const timer = setTimeout(() => {
+      const next = {
+        scale: Number(view.scale.toFixed(3)),
+        x: Number(((containerSize.width / 2 - view.x) / view.scale).toFixed(1)),
+        y: Number(((containerSize.height / 2 - view.y) / view.scale).toFixed(1)),
+      };
+      const key = `${next.scale},${next.x},${next.y}`;
+      if (key === focusKeyRef.current) return;
+      focusKeyRef.current = key;
+      onFocusChange(next);
+    }, FOCUS_REPORT_DELAY);
+    return () => clearTimeout(timer);
+  }, [view, containerSize, imageSize]);
+
+  const activeWindow = displaySettings.window ?? raster?.defaultWindow ?? null;
+
+  const setWindow = (window: WindowLevel | null) => {
+    onDisplaySettingsChange({ ...displaySettings, window });
+  };
+
+  // Track the decoded image size; overlays are handled by separate effects
+  useEffect(() => {
+    if (!raster) return;
+    setImageSize(size =>
+      size && size.width === raster.width && size.height === raster.height ? size : { width: raster.width, height: raster.height }
+    );
+  }, [raster]);
+
+  // Draw the windowed base image; mask colors on the overlay layer are unaffected
+  useEffect(() => {
+    const canvas = baseCanvasRef.current;
+    if (!canvas || !raster || !activeWindow) return;
+    drawBaseImage(canvas, raster, activeWindow, displaySettings.invert);
+  }, [raster, activeWindow?.center, activeWindow?.width, displaySettings.invert]);
+
+  // Label anchors and mask layers once per annotation set
+  useEffect(() => {
+    if (!imageSize) return;
+    const { width, height } = imageSize;
+    let cancelled = false;
+
+    // Masks (RLE as Array/String, or Polygons rasterized to RLE) decode in workers, opaque; faded at draw time
+    loadMaskLayers(annotations, height, width, getAnnotationColor).then(layers => {
+      if (cancelled) return;
+      // Edits are part of the new annotations now, unless a stroke is still going on
+      if (!strokeRef.current) editLayerRef.current = null;
+      setMaskLayers(layers);
+    });
+
+    setLabelAnchors(computeLabelAnchors(annotations, getAnnotationLabel));
+    return () => {
+      cancelled = true;
+    };
+  }, [annotations, getCategoryName, imageSize, annotationStyles]);
+
+  // Pass 1: Draw Masks & Bounding Boxes onto the overlay layer
+  useEffect(() => {
+    const canvas = overlayCanvasRef.current;
+    if (!canvas || !imageSize) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    setLoading(true);
-    console.log(`[Viewer] Starting render. Annotations to draw: ${annotations.length}`);
-
-    const img = new Image();
-    const objectUrl = URL.createObjectURL(imageFile);
-    img.src = objectUrl;
-    
-    img.onload = async () => {
-      // 1. Set Canvas Dimensions
-      canvas.width = img.width;
-      canvas.height = img.height;
-
-      // 2. Draw Base Image
-      ctx.globalAlpha = 1.0;
-      ctx.drawImage(img, 0, 0);
-
-      requestAnimationFrame(() => {
-        let maskCount = 0;
-        let bboxCount = 0;
-
-        // Pass 1: Draw Masks & Bounding Boxes
-        annotations.forEach((ann) => {
-          const color = getColorForId(ann.id); // [r, g, b]
-
-          // A. Draw Bounding Box (Enhanced Visibility)
-          if (ann.bbox && ann.bbox.length === 4) {
-             const [x, y, w, h] = ann.bbox;
-             ctx.save();
-             
-             // 1. Semi-transparent fill
-             ctx.fillStyle = `rgba(${color[0]}, ${color[1]}, ${color[2]}, 0.25)`;
-             ctx.fillRect(x, y, w, h);
-             
-             // 2. Solid thick border
-             ctx.strokeStyle = `rgba(${color[0]}, ${color[1]}, ${color[2]}, 1.0)`;
-             ctx.lineWidth = 3;
-             ctx.setLineDash([]); // Ensure solid line
-             ctx.strokeRect(x, y, w, h);
-             
-             ctx.restore();
-             bboxCount++;
-          }
-
-          // B. Draw RLE Mask (Supports both Array and String via utils)
-          if (typeof ann.segmentation === 'object' && 'counts' in ann.segmentation) {
-            const rle = ann.segmentation as COCORLE;
-            const maskCanvas = decodeRleToCanvas(rle, color);
-             if (maskCanvas) {
-               ctx.drawImage(maskCanvas, 0, 0, img.width, img.height);
-               maskCount++;
-             } else {
-               // Silent fail or minimal log, bbox will cover it
-             }
-          }
-        });
-        
-        console.log(`[Viewer] Rendered: ${maskCount} Masks, ${bboxCount} BBoxes.`);
-
-        // Pass 2: Draw Labels
-        ctx.globalAlpha = 1.0;
-        ctx.font = 'bold 14px sans-serif'; // Slightly smaller for better fit
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-
-        annotations.forEach((ann) => {
-           let labelX = 0;
-           let labelY = 0;
-           let hasPosition = false;
-
-           // Position Label (Prefer above BBox)
-           if (ann.bbox && ann.bbox.length === 4) {
-              const [x, y, w, h] = ann.bbox;
-              labelX = x + w / 2;
-              // Position above the bounding box
-              // Box height is approx 22px (14px text + 2*4px pad)
-              labelY = y - 15;
-              
-              // If too close to top edge, place below
-              if (labelY < 15) {
-                  labelY = y + h + 15;
-              }
-              
-              hasPosition = true;
-           } 
-           // Fallback to Centroid if no bbox
-           else if (typeof ann.segmentation === 'object' && 'counts' in ann.segmentation) {
-             const rle = ann.segmentation as COCORLE;
-             const centroid = calculateCentroid(rle);
-             if (centroid) {
-               labelX = centroid.x;
-               labelY = centroid.y;
-               hasPosition = true;
-             }
-           }
-
-           if (hasPosition) {
-             const text = getCategoryName(ann.category_id);
-             const textMetrics = ctx.measureText(text);
-             const pad = 4;
-             const textH = 14;
-             
-             ctx.save();
-             
-             const boxW = textMetrics.width + pad * 2;
-             const boxH = textH + pad * 2;
-             const boxX = labelX - boxW / 2;
-             const boxY = labelY - boxH / 2;
-
-             // Shadow
-             ctx.shadowColor = 'rgba(0,0,0,0.8)';
-             ctx.shadowBlur = 4;
-             
-             // Label Background
-             ctx.fillStyle = `rgba(0, 0, 0, 0.6)`;
-             ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
-             ctx.lineWidth = 1;
-             
-             ctx.beginPath();
-             if (ctx.roundRect) {
-                ctx.roundRect(boxX, boxY, boxW, boxH, 4);
-             } else {
-                ctx.rect(boxX, boxY, boxW, boxH);
-             }
-             ctx.fill();
-             ctx.stroke();
-
-             // Text
-             ctx.shadowColor = 'transparent';
-             ctx.fillStyle = '#ffffff';
-             ctx.fillText(text, labelX, labelY);
-             ctx.restore();
-           }
-        });
-
-        setLoading(false);
-      });
+    canvas.width = imageSize.width;
+    canvas.height = imageSize.height;
+
+    // The mask being edited stays visible even if it is hidden
+    const editLayer = editLayerRef.current && { id: editLayerRef.current.annotation.id, canvas: editLayerRef.current.canvas };
+    drawAnnotations(ctx, annotations, maskLayers, displaySettings, {
+      getColor: getAnnotationColor,
+      isDashed: ann => !!annotationStyles?.get(ann.id)?.dashed,
+      forceVisibleId: isPaintTool ? editTargetId : null,
+      editLayer,
+      highlightId: selectedId,
+    });
+  }, [maskLayers, maskVersion, annotations, displaySettings, imageSize, isPaintTool, editTargetId, annotationStyles, selectedId]);
+
+  // Pass 2: Draw Labels in screen space so they stay readable at every zoom level
+  useEffect(() => {
+    const canvas = labelCanvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(containerSize.width * dpr);
+    canvas.height = Math.round(containerSize.height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, containerSize.width, containerSize.height);
+
+    drawLabels(ctx, labelAnchors, displaySettings, view);
+  }, [labelAnchors, view, containerSize, displaySettings]);
+
+  // Mouse-wheel zoom around the cursor (non-passive so the page does not scroll)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(Math.pow(1.1, -e.deltaY / 100), e.clientX - rect.left, e.clientY - rect.top);
     };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
 
-    img.onerror = () => {
-      console.error("Failed to load image for canvas");
-      setLoading(false);
+  // Tool and brush size shortcuts
+  useEffect(() => {
+    if (!onAnnotationEdit) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key === 'h') setTool('pan');
+      else if (key === 'b') setTool('brush');
+      else if (key === 'e') setTool('eraser');
+      else if (key === '[') setBrushSize(size => Math.max(1, size - 2));
+      else if (key === ']') setBrushSize(size => Math.min(MAX_BRUSH_SIZE, size + 2));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [!!onAnnotationEdit]);
+
+  const updateCursor = (sx: number, sy: number) => {
+    if (!raster) return;
+    const x = Math.floor((sx - view.x) / view.scale);
+    const y = Math.floor((sy - view.y) / view.scale);
+    if (x < 0 || y < 0 || x >= raster.width || y >= raster.height) {
+      setCursor(null);
+      return;
     }
+    setCursor({ x, y, value: formatPixelValue(raster, x, y) });
+  };
 
-    return () => {
-      URL.revokeObjectURL(objectUrl);
-    };
-  }, [imageFile, annotations, categories]);
+  // Screen point to continuous image coordinates
+  const toImagePoint = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left - view.x) / view.scale, y: (e.clientY - rect.top - view.y) / view.scale };
+  };
+
+  // Decodes the edit target into a working mask, reusing it until the annotation changes
+  const getEditMask = (): EditMask | null => {
+    if (!editTarget || !imageSize) return null;
+    if (editMaskRef.current?.annotation === editTarget) return editMaskRef.current;
+
+    const rle = segmentationToRle(editTarget.segmentation, imageSize.height, imageSize.width);
+    const [height, width] = rle ? rle.size : [imageSize.height, imageSize.width];
+    const mask = (rle && decodeRleToMask(rle)) || new Uint8Array(width * height);
+    editMaskRef.current = { annotation: editTarget, mask, width, height };
+    return editMaskRef.current;
+  };
+
+  // Copies a region of the working mask onto the edit layer, which starts out as a copy of the whole mask
+  const updateMaskLayer = (edit: EditMask, x0: number, y0: number, x1: number, y1: number) => {
+    if (editLayerRef.current?.annotation !== edit.annotation) {
+      const canvas = document.createElement('canvas');
+      canvas.width = edit.width;
+      canvas.height = edit.height;
+      editLayerRef.current = { annotation: edit.annotation, canvas };
+      [x0, y0, x1, y1] = [0, 0, edit.width - 1, edit.height - 1];
+    }
+    const ctx = editLayerRef.current.canvas.getContext('2d');
+    if (!ctx) return;
+
+    const w = x1 - x0 + 1;
+    const h = y1 - y0 + 1;
+    const region = ctx.getImageData(x0, y0, w, h);
+    const [r, g, b] = getAnnotationColor(edit.annotation);
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const idx = (y * w + x) * 4;
+        region.data[idx] = r;
+        region.data[idx + 1] = g;
+        region.data[idx + 2] = b;
+        region.data[idx + 3] = edit.mask[(y0 + y) * edit.width + x0 + x] ? 255 : 0;
+      }
+    }
+    ctx.putImageData(region, x0, y0);
+    setMaskVersion(v => v + 1);
+  };
+
+  // Stamps the brush along a segment; returns true if any pixel changed
+  const paintSegment = (from: { x: number; y: number }, to: { x: number; y: number }): boolean => {
+    const edit = getEditMask();
+    if (!edit) return false;
+
+    const value = tool === 'brush' ? 1 : 0;
+    const radius = brushSize / 2;
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / Math.max(radius / 2, 0.5)));
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+    for (let s = 0; s <= steps; s++) {
+      const cx = from.x + ((to.x - from.x) * s) / steps;
+      const cy = from.y + ((to.y - from.y) * s) / steps;
+      const yStart = Math.max(0, Math.floor(cy - radius));
+      const yEnd = Math.min(edit.height - 1, Math.ceil(cy + radius));
+      const xStart = Math.max(0, Math.floor(cx - radius));
+      const xEnd = Math.min(edit.width - 1, Math.ceil(cx + radius));
+
+      for (let y = yStart; y <= yEnd; y++) {
+        for (let x = xStart; x <= xEnd; x++) {
+          const dx = x + 0.5 - cx;
+          const dy = y + 0.5 - cy;
+          // The pixel under the pointer is always hit, so a 1px brush works
+          const inside = dx * dx + dy * dy <= radius * radius || (x === Math.floor(cx) && y === Math.floor(cy));
+          const idx = y * edit.width + x;
+          if (!inside || edit.mask[idx] === value) continue;
+          edit.mask[idx] = value;
+          minX = Math.min(minX, x);
+          minY = Math.min(minY, y);
+          maxX = Math.max(maxX, x);
+          maxY = Math.max(maxY, y);
+        }
+      }
+    }
+
+    if (minX > maxX) return false;
+    updateMaskLayer(edit, minX, minY, maxX, maxY);
+    return true;
+  };
+
+  // Re-encodes the painted mask and hands the updated annotation to the parent
+  const commitStroke = () => {
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    const edit = editMaskRef.current;
+    if (!stroke?.changed || !edit || !onAnnotationEdit) return;
+    // The painted mask no longer matches its annotation object (undo may bring that object back)
+    editMaskRef.current = null;
+    onAnnotationEdit(edit.annotation, applyMaskToAnnotation(edit.annotation, edit.mask, edit.height, edit.width));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button === 2 && activeWindow) {
+      (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+      windowDragRef.current = { startX: e.clientX, startY: e.clientY, window: activeWindow };
+      return;
+    }
+    if (e.button === 0 && isPaintTool) {
+      if (!editTarget) return;
+      (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+      const point = toImagePoint(e);
+      strokeRef.current = { ...point, changed: paintSegment(point, point) };
+      return;
+    }
+    // Left-drag pans with the pan tool, middle-drag pans with any tool
+    if (e.button !== 0 && e.button !== 1) return;
+    e.preventDefault(); // No middle-click autoscroll
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startY: e.clientY, viewX: view.x, viewY: view.y, button: e.button };
+    setIsPanning(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const windowDrag = windowDragRef.current;
+    if (windowDrag && raster) {
+      // Horizontal drag changes the width, vertical drag the center (level)
+      const sensitivity = Math.max(raster.max - raster.min, 1) / 512;
+      setWindow({
+        center: windowDrag.window.center + (e.clientY - windowDrag.startY) * sensitivity,
+        width: Math.max(1e-3, windowDrag.window.width + (e.clientX - windowDrag.startX) * sensitivity)
+      });
+    }
+    const drag = dragRef.current;
+    if (drag) {
+      setView(v => ({ ...v, x: drag.viewX + e.clientX - drag.startX, y: drag.viewY + e.clientY - drag.startY }));
+    }
+    const stroke = strokeRef.current;
+    if (stroke) {
+      const point = toImagePoint(e);
+      if (paintSegment(stroke, point)) stroke.changed = true;
+      stroke.x = point.x;
+      stroke.y = point.y;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    updateCursor(e.clientX - rect.left, e.clientY - rect.top);
+    if (isPaintTool) setPointer({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (windowDragRef.current) {
+      (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId);
+      windowDragRef.current = null;
+      return;
+    }
+    if (strokeRef.current) {
+      (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId);
+      commitStroke();
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag) return;
+    (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+    setIsPanning(false);
+    if (drag.button === 0 && Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < CLICK_SLOP) {
+      const point = toImagePoint(e);
+      setSelectedId(hitTestAnnotations(annotations, maskLayers, displaySettings, point.x, point.y)?.id ?? null);
+    }
+  };
+
+  // Composes the base and overlay canvases (and labels/legend) into a PNG download
+  const saveSnapshot = async () => {
+    const overlay = overlayCanvasRef.current;
+    if (!overlay || !imageSize) return;
+    const isView = snapshotOptions.area === 'view';
+    const canvas = composeSnapshot({
+      base: raster && activeWindow ? baseCanvasRef.current : null,
+      overlay,
+      width: imageSize.width,
+      height: imageSize.height,
+      annotations,
+      anchors: labelAnchors,
+      settings: displaySettings,
+      getColor: getAnnotationColor,
+      getLabel: getAnnotationLabel,
+    }, snapshotOptions, isView ? { view, width: containerSize.width, height: containerSize.height, pixelRatio: window.devicePixelRatio || 1 } : null);
+    downloadBlob(await canvasToPng(canvas), `${snapshotName}${isView ? '_view' : ''}.png`);
+    setIsSnapshotOpen(false);
+  };
+
+  const toolButtonClass = 'p-1.5 rounded text-slate-300 hover:bg-slate-700 hover:text-white transition-colors';
 
   return (
     <div className="relative flex-1 min-h-[500px] flex flex-col">
        {/* Container for Canvas */}
-       <div 
+       <div
         ref={containerRef}
-        className="flex-1 bg-black/90 overflow-auto relative flex items-center justify-center border border-slate-700 rounded-lg shadow-inner"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => {
+          setCursor(null);
+          setPointer(null);
+        }}
+        onContextMenu={(e) => e.preventDefault()}
+        className={`flex-1 bg-black/90 overflow-hidden relative border border-slate-700 rounded-t-lg shadow-inner touch-none ${isPanning ? 'cursor-grabbing' : 'cursor-crosshair'}`}
       >
         {loading && (
           <div className="absolute inset-0 flex items-center justify-center bg-slate-900/80 z-20 text-white backdrop-blur-sm">
@@ -203,48 +528,242 @@ export const Viewer: React.FC<ViewerProps> = ({ imageFile, annotations, categori
             </div>
           </div>
         )}
-        <canvas
-          ref={canvasRef}
+
+        {/* Image-space stage: base image and overlay share one transform so they stay aligned */}
+        <div
+          className="absolute left-0 top-0 shadow-2xl"
           style={{
-            maxWidth: '100%',
-            maxHeight: '100%',
-            objectFit: 'contain',
-            display: 'block'
+            width: imageSize?.width,
+            height: imageSize?.height,
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            transformOrigin: '0 0',
+            imageRendering: view.scale >= 1 ? 'pixelated' : 'auto'
           }}
-          className="shadow-2xl"
+        >
+          <canvas ref={baseCanvasRef} className="absolute inset-0 block" />
+          <canvas ref={overlayCanvasRef} className="absolute inset-0 block" />
+        </div>
+
+        {/* Screen-space label layer */}
+        <canvas
+          ref={labelCanvasRef}
+          className="absolute inset-0 pointer-events-none"
+          style={{ width: containerSize.width, height: containerSize.height }}
         />
 
+        {/* Brush outline */}
+        {isPaintTool && pointer && editTarget && (
+          <div
+            className={`absolute rounded-full border pointer-events-none ${tool === 'eraser' ? 'border-red-400' : 'border-white'}`}
+            style={{
+              left: pointer.x - (brushSize * view.scale) / 2,
+              top: pointer.y - (brushSize * view.scale) / 2,
+              width: brushSize * view.scale,
+              height: brushSize * view.scale
+            }}
+          />
+        )}
+
+        {/* Zoom Toolbar */}
+        <div
+          className="absolute top-4 left-4 flex items-center gap-1 bg-slate-900/90 border border-slate-700 rounded-lg p-1 shadow-xl backdrop-blur-md z-10"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <button className={toolButtonClass} onClick={() => fitView()} title="Fit to view">
+            <Maximize className="w-4 h-4" />
+          </button>
+          <button className={`${toolButtonClass} text-xs font-mono px-2`} onClick={actualSizeView} title="Actual size (1:1)">
+            1:1
+          </button>
+          <button className={toolButtonClass} onClick={() => zoomAt(1.25, containerSize.width / 2, containerSize.height / 2)} title="Zoom in">
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button className={toolButtonClass} onClick={() => zoomAt(0.8, containerSize.width / 2, containerSize.height / 2)} title="Zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </button>
+
+          {/* Window / Level */}
+          <div className="w-px h-5 bg-slate-700 mx-1" />
+          <select
+            className="bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 px-1 py-1 focus:outline-none"
+            value={WINDOW_PRESETS.find(p => p.window.center === activeWindow?.center && p.window.width === activeWindow?.width)?.name || ''}
+            onChange={(e) => {
+              const preset = WINDOW_PRESETS.find(p => p.name === e.target.value);
+              if (preset) setWindow(preset.window);
+            }}
+            title="Window presets (right-drag to adjust)"
+          >
+            <option value="" disabled>Window</option>
+            {WINDOW_PRESETS.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+          <button className={toolButtonClass} onClick={() => raster && setWindow(computeAutoWindow(raster))} title="Auto window from histogram">
+            <Wand2 className="w-4 h-4" />
+          </button>
+          <button
+            className={`${toolButtonClass} ${displaySettings.invert ? 'bg-blue-600/40 text-white' : ''}`}
+            onClick={() => onDisplaySettingsChange({ ...displaySettings, invert: !displaySettings.invert })}
+            title="Invert"
+          >
+            <Contrast className="w-4 h-4" />
+          </button>
+          <button
+            className={toolButtonClass}
+            onClick={() => onDisplaySettingsChange({ ...displaySettings, window: null, invert: false })}
+            title="Reset window"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+
+          {/* Snapshot */}
+          <div className="w-px h-5 bg-slate-700 mx-1" />
+          <div className="relative">
+            <button
+              className={`${toolButtonClass} ${isSnapshotOpen ? 'bg-blue-600/40 text-white' : ''}`}
+              onClick={() => setIsSnapshotOpen(!isSnapshotOpen)}
+              disabled={!imageSize}
+              title="Save snapshot as PNG"
+            >
+              <Camera className="w-4 h-4" />
+            </button>
+            {isSnapshotOpen && (
+              <div className="absolute left-0 top-full mt-2 w-56 bg-slate-900/95 border border-slate-700 rounded-lg p-3 shadow-xl space-y-2 text-xs text-slate-300">
+                <div className="flex gap-1">
+                  {([['full', 'Full resolution'], ['view', 'Current view']] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setSnapshotOptions({ ...snapshotOptions, area: value })}
+                      className={`flex-1 py-1 rounded border transition-colors ${
+                        snapshotOptions.area === value ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={snapshotOptions.labels} onChange={(e) => setSnapshotOptions({ ...snapshotOptions, labels: e.target.checked })} />
+                  Labels
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={snapshotOptions.legend} onChange={(e) => setSnapshotOptions({ ...snapshotOptions, legend: e.target.checked })} />
+                  Legend
+                </label>
+                <button
+                  onClick={saveSnapshot}
+                  className="w-full py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors"
+                >
+                  Save PNG
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Edit Toolbar */}
+        {onAnnotationEdit && (
+          <div
+            className="absolute bottom-4 left-4 flex items-center gap-1 bg-slate-900/90 border border-slate-700 rounded-lg p-1 shadow-xl backdrop-blur-md z-10"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            {([
+              ['pan', Hand, 'Pan (H)'],
+              ['brush', Brush, 'Brush (B)'],
+              ['eraser', Eraser, 'Eraser (E)']
+            ] as const).map(([value, Icon, title]) => (
+              <button
+                key={value}
+                className={`${toolButtonClass} ${tool === value ? 'bg-blue-600/40 text-white' : ''}`}
+                onClick={() => setTool(value)}
+                title={title}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+
+            <div className="w-px h-5 bg-slate-700 mx-1" />
+            <select
+              className="bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 px-1 py-1 max-w-[10rem] focus:outline-none"
+              value={editTarget ? String(editTarget.id) : ''}
+              onChange={(e) => setEditTargetId(annotations.find(a => String(a.id) === e.target.value)?.id ?? null)}
+              title="Annotation to edit"
+            >
+              <option value="" disabled>Select annotation</option>
+              {annotations.map(ann => (
+                <option key={ann.id} value={String(ann.id)}>#{ann.id} {getCategoryName(ann.category_id)}</option>
+              ))}
+            </select>
+            <input
+              type="range"
+              min={1}
+              max={MAX_BRUSH_SIZE}
+              value={brushSize}
+              onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+              className="w-24 mx-1 accent-blue-500"
+              title="Brush size ([ / ])"
+            />
+            <span className="text-xs font-mono text-slate-400 w-10">{brushSize}px</span>
+
+            <div className="w-px h-5 bg-slate-700 mx-1" />
+            <button className={`${toolButtonClass} disabled:opacity-40 disabled:pointer-events-none`} onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button className={`${toolButtonClass} disabled:opacity-40 disabled:pointer-events-none`} onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Legend Overlay */}
-        <div className="absolute top-4 right-4 bg-slate-900/90 border border-slate-700 rounded-lg p-3 shadow-xl backdrop-blur-md max-w-xs z-10">
-           <div className="flex items-center justify-between mb-2 border-b border-slate-700 pb-1">
-              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">
-                Objects Found ({annotations.length})
-              </h3>
-           </div>
-           
-           {legendItems.length === 0 ? (
-             <p className="text-xs text-slate-500 italic">No masks rendered.</p>
-           ) : (
-             <ul className="space-y-2 max-h-40 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600">
-               {annotations.map(ann => {
-                  const name = getCategoryName(ann.category_id);
-                  const color = getColorForId(ann.id);
-                  const colorStyle = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
-                  return (
-                    <li key={ann.id} className="flex items-center text-xs text-slate-200">
-                      <span className="w-3 h-3 rounded-full mr-2 shrink-0 border border-white/20" style={{ backgroundColor: colorStyle }}></span>
-                      <span className="truncate">ID:{ann.id} - {name}</span>
-                    </li>
-                  )
-               })}
-             </ul>
+        <div
+          className="absolute top-4 right-4 bg-slate-900/90 border border-slate-700 rounded-lg p-3 shadow-xl backdrop-blur-md max-w-xs z-10 cursor-default"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+           <OverlayLegend
+             annotations={annotations}
+             getCategoryName={getCategoryName}
+             getAnnotationColor={getAnnotationColor}
+             getAnnotationLabel={getAnnotationLabel}
+             settings={displaySettings}
+             onSettingsChange={onDisplaySettingsChange}
+             selectedAnnotationId={selected?.id ?? null}
+             onSelectAnnotation={setSelectedId}
+           />
+           {selected && (
+             <div className="mt-3 pt-3 border-t border-slate-700">
+               <AnnotationInspector
+                 annotation={selected}
+                 category={getCategory?.(selected.category_id)}
+                 imageSize={imageSize}
+                 color={getAnnotationColor(selected)}
+                 onClose={() => setSelectedId(null)}
+                 onEdit={onAnnotationEdit && (() => {
+                   setEditTargetId(selected.id);
+                   setTool('brush');
+                 })}
+               />
+             </div>
            )}
-           <div className="mt-2 text-[10px] text-slate-500 border-t border-slate-700 pt-1">
-              * Box: Bounding Box (Filled)<br/>
-              * Shape: RLE Mask
-           </div>
         </div>
       </div>
+
+      {/* Status Bar */}
+      <div className="h-8 shrink-0 flex items-center gap-6 px-3 bg-slate-850 border border-t-0 border-slate-700 rounded-b-lg text-xs font-mono text-slate-400 select-none">
+        <span>{imageSize ? `${imageSize.width} x ${imageSize.height}` : '-'}</span>
+        <span>Zoom: {Math.round(view.scale * 100)}%</span>
+        <span>{cursor ? `X: ${cursor.x}  Y: ${cursor.y}` : 'X: -  Y: -'}</span>
+        <span>Value: {cursor ? cursor.value : '-'}</span>
+        {isPaintTool && (
+          <span className={editTarget ? 'text-blue-300' : 'text-yellow-400'}>
+            {editTarget ? `Editing #${editTarget.id} (${Math.round(editTarget.area)} px)` : 'Select an annotation to edit'}
+          </span>
+        )}
+        <span className="ml-auto">
+          {activeWindow ? `W: ${Math.round(activeWindow.width)}  L: ${Math.round(activeWindow.center)}` : '-'}
+          {displaySettings.invert && '  (Inverted)'}
+        </span>
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
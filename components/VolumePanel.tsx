@@ -0,0 +1,96 @@
+import React from 'react';
+import { Box } from 'lucide-react';
+import { Dropzone } from './Dropzone';
+import { NiftiVolume, SliceAxis, SliceMappingOptions, getSliceCount } from '../lib/nifti';
+
+interface VolumePanelProps {
+  volume: NiftiVolume | null;
+  options: SliceMappingOptions;
+  onOptionsChange: (options: SliceMappingOptions) => void;
+  onVolumeAccepted: (file: File) => void;
+  matchedCount: number;
+  disabled?: boolean;
+}
+
+const AXES: SliceAxis[] = ['axial', 'coronal', 'sagittal'];
+
+export const VolumePanel: React.FC<VolumePanelProps> = ({ volume, options, onOptionsChange, onVolumeAccepted, matchedCount, disabled }) => {
+  const update = (patch: Partial<SliceMappingOptions>) => onOptionsChange({ ...options, ...patch });
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+  const checkboxLabelClass = 'flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer';
+
+  return (
+    <div>
+      <Dropzone
+        onFileAccepted={onVolumeAccepted}
+        accept="volume"
+        label={volume ? "Replace Volume" : "Upload NIfTI Volume"}
+        disabled={disabled}
+      />
+
+      {volume && (
+        <div className="mt-3 bg-slate-800 rounded p-3 space-y-3 text-sm">
+          <div className="flex items-center text-slate-300">
+            <Box className="w-4 h-4 mr-2 text-slate-500" />
+            <span className="truncate" title={volume.name}>{volume.name}</span>
+            <span className="ml-auto text-xs font-mono text-slate-500">{volume.dims.join('x')}</span>
+          </div>
+
+          <div className="flex gap-1">
+            {AXES.map(axis => (
+              <button
+                key={axis}
+                onClick={() => update({ axis })}
+                className={`flex-1 py-1 rounded text-xs capitalize border transition-colors ${
+                  options.axis === axis ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {axis}
+              </button>
+            ))}
+          </div>
+
+          <label className="block">
+            <span className="block text-xs text-slate-500 mb-1">Filename pattern ({'{name}'}, {'{index}'})</span>
+            <input
+              type="text"
+              className={`${inputClass} font-mono`}
+              value={options.pattern}
+              onChange={(e) => update({ pattern: e.target.value })}
+            />
+          </label>
+
+          <label className="flex items-center gap-2">
+            <span className="text-xs text-slate-500 shrink-0">Index offset</span>
+            <input
+              type="number"
+              className={inputClass}
+              value={options.indexOffset}
+              onChange={(e) => update({ indexOffset: parseInt(e.target.value, 10) || 0 })}
+            />
+          </label>
+
+          <div className="flex justify-between">
+            <label className={checkboxLabelClass}>
+              <input type="checkbox" checked={options.transpose} onChange={(e) => update({ transpose: e.target.checked })} />
+              Transpose
+            </label>
+            <label className={checkboxLabelClass}>
+              <input type="checkbox" checked={options.flipX} onChange={(e) => update({ flipX: e.target.checked })} />
+              Flip X
+            </label>
+            <label className={checkboxLabelClass}>
+              <input type="checkbox" checked={options.flipY} onChange={(e) => update({ flipY: e.target.checked })} />
+              Flip Y
+            </label>
+          </div>
+
+          <div className={`text-xs ${matchedCount > 0 ? 'text-green-400' : 'text-yellow-400'}`}>
+            {matchedCount} of {getSliceCount(volume, options.axis)} slices matched to COCO images
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
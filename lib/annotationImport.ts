@@ -0,0 +1,375 @@
+import { COCOJson, COCOImage, COCOAnnotation, COCOCategory, COCOPolygon } from '../types';
+import { getRelativePath, getMatchKey, stripExtension, polygonsToRle, rleArea, rleToBbox, encodeCocoRleString } from '../utils';
+import { SUPPORTED_IMAGE_EXTENSIONS, readImageSize } from './imageLoader';
+import { decodePngLabels } from './png';
+
+/**
+ * Converters from other annotation formats into the COCO model, so imported datasets work
+ * with the viewer, tree and statistics like a loaded COCO JSON:
+ * - Pascal VOC: one XML file per image with object boxes
+ * - YOLO / YOLO-seg: one .txt per image (normalized boxes or polygons), sized from the images
+ * - Label maps: one PNG per image where the pixel value is the class; each connected
+ *   region of a class becomes an instance
+ * Images and annotations are numbered from 1 in path order.
+ */
+
+export type ImportFormat = 'voc' | 'yolo' | 'labelmap';
+
+export interface ImportResult {
+  data: COCOJson;
+  name: string; // Used as the dataset's file name (e.g. for export)
+  warnings: string[];
+}
+
+export interface ImportOptions {
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string; hint: string }[] = [
+  { value: 'voc', label: 'Pascal VOC', hint: 'Annotation .xml files' },
+  { value: 'yolo', label: 'YOLO', hint: 'Label .txt files with their images, plus classes.txt or data.yaml' },
+  { value: 'labelmap', label: 'Label Map', hint: 'Label map .png files, plus an optional classes.txt' },
+];
+
+// Files that hold class names rather than annotations
+const CLASS_FILE_NAMES = ['classes.txt', 'obj.names', 'labelmap.txt', 'labels.txt', 'data.yaml', 'data.yml', 'dataset.yaml', 'dataset.yml'];
+
+// Label map values that are not classes: background, and the "void" border value of Pascal VOC
+const LABEL_MAP_BACKGROUND = 0;
+const LABEL_MAP_VOID = 255;
+
+// Warnings beyond this are summarized as a count
+const MAX_WARNINGS = 20;
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+const isClassFile = (file: File) => CLASS_FILE_NAMES.includes(file.name.toLowerCase());
+
+const byPath = (a: File, b: File) => getRelativePath(a).localeCompare(getRelativePath(b));
+
+/**
+ * Accepts the files an importer can use (annotations, class name files and, for YOLO, images).
+ */
+export const isImportFile = (format: ImportFormat, file: File): boolean => {
+  const extension = getExtension(file.name);
+  if (isClassFile(file)) return true;
+  if (format === 'voc') return extension === 'xml';
+  if (format === 'yolo') return extension === 'txt' || SUPPORTED_IMAGE_EXTENSIONS.includes(extension);
+  return extension === 'png';
+};
+
+/**
+ * Reads class names from classes.txt / obj.names (one per line), a Pascal VOC labelmap.txt
+ * ("name:r,g,b:..."), or the `names` entry of a YOLO data.yaml (list or index map).
+ * Index i is class i.
+ */
+export const parseClassNames = (fileName: string, text: string): string[] => {
+  const lines = text.split(/\r?\n/);
+  if (!/\.ya?ml$/i.test(fileName)) {
+    const isVocLabelMap = fileName.toLowerCase() === 'labelmap.txt';
+    return lines
+      .filter(line => line.trim() && !line.trim().startsWith('#'))
+      .map(line => (isVocLabelMap ? line.split(':')[0] : line).trim());
+  }
+
+  const unquote = (value: string) => value.trim().replace(/^['"]|['"]$/g, '');
+  const start = lines.findIndex(line => /^names\s*:/.test(line));
+  if (start < 0) return [];
+  const inline = lines[start].replace(/^names\s*:/, '').trim();
+  if (inline.startsWith('[')) {
+    return inline.replace(/^\[|\]\s*$/g, '').split(',').map(unquote).filter(Boolean);
+  }
+  // Block list ("- name") or map ("0: name"), indented under names:
+  const names: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    if (!/^\s/.test(line)) break;
+    const item = line.trim().match(/^-\s*(.*)$/);
+    const entry = line.trim().match(/^(\d+)\s*:\s*(.*)$/);
+    if (item) names.push(unquote(item[1]));
+    else if (entry) names[Number(entry[1])] = unquote(entry[2]);
+  }
+  return Array.from(names, (name, i) => name ?? `Class ${i}`);
+};
+
+const readClassNames = async (files: File[]): Promise<string[] | null> => {
+  const classFile = files.find(isClassFile);
+  return classFile ? parseClassNames(classFile.name, await classFile.text()) : null;
+};
+
+const boundsOf = (points: number[]): [number, number, number, number] => {
+  let xMin = Infinity, yMin = Infinity, xMax = -Infinity, yMax = -Infinity;
+  for (let i = 0; i < points.length; i += 2) {
+    xMin = Math.min(xMin, points[i]);
+    xMax = Math.max(xMax, points[i]);
+    yMin = Math.min(yMin, points[i + 1]);
+    yMax = Math.max(yMax, points[i + 1]);
+  }
+  return [xMin, yMin, xMax - xMin, yMax - yMin];
+};
+
+/**
+ * Pascal VOC XML: boxes are 1-based inclusive pixel indices, converted to COCO [x, y, w, h].
+ * Categories are numbered from 1 in name order.
+ */
+const importVoc = async (files: File[], options: ImportOptions): Promise<ImportResult> => {
+  const xmlFiles = files.filter(file => getExtension(file.name) === 'xml').sort(byPath);
+  const warnings: string[] = [];
+  const images: COCOImage[] = [];
+  const objects: { imageId: number; name: string; bbox: [number, number, number, number] }[] = [];
+  const parser = new DOMParser();
+
+  for (let i = 0; i < xmlFiles.length; i++) {
+    const file = xmlFiles[i];
+    options.onProgress?.(i, xmlFiles.length);
+    const doc = parser.parseFromString(await file.text(), 'application/xml');
+    const root = doc.querySelector('annotation');
+    if (doc.querySelector('parsererror') || !root) {
+      warnings.push(`${getRelativePath(file)}: not a Pascal VOC annotation`);
+      continue;
+    }
+    const text = (parent: Element, selector: string) => parent.querySelector(selector)?.textContent?.trim() ?? '';
+    const number = (parent: Element, selector: string) => Number(text(parent, selector) || NaN);
+    const width = number(root, 'size > width');
+    const height = number(root, 'size > height');
+    if (!(width > 0 && height > 0)) {
+      warnings.push(`${getRelativePath(file)}: missing image size`);
+      continue;
+    }
+    const fileName = text(root, ':scope > filename') || `${stripExtension(file.name)}.jpg`;
+    const folder = text(root, ':scope > folder');
+    const image: COCOImage = { id: images.length + 1, width, height, file_name: folder ? `${folder}/${fileName}` : fileName };
+    images.push(image);
+
+    root.querySelectorAll(':scope > object').forEach(object => {
+      const [xmin, ymin, xmax, ymax] = ['xmin', 'ymin', 'xmax', 'ymax'].map(key => number(object, `bndbox > ${key}`));
+      const name = text(object, ':scope > name');
+      if (!name || [xmin, ymin, xmax, ymax].some(v => !isFinite(v))) {
+        warnings.push(`${getRelativePath(file)}: skipped an object without a name or box`);
+        return;
+      }
+      objects.push({ imageId: image.id, name, bbox: [xmin - 1, ymin - 1, xmax - xmin + 1, ymax - ymin + 1] });
+    });
+  }
+
+  const names = Array.from(new Set(objects.map(o => o.name))).sort();
+  const categories: COCOCategory[] = names.map((name, i) => ({ id: i + 1, name, supercategory: '' }));
+  const categoryIds = new Map(categories.map(cat => [cat.name, cat.id]));
+  const annotations: COCOAnnotation[] = objects.map((object, i) => ({
+    id: i + 1,
+    image_id: object.imageId,
+    category_id: categoryIds.get(object.name)!,
+    segmentation: [],
+    area: object.bbox[2] * object.bbox[3],
+    bbox: object.bbox,
+    iscrowd: 0,
+  }));
+  return { data: { images, annotations, categories }, name: 'voc_annotations.json', warnings };
+};
+
+/**
+ * YOLO label files: "class cx cy w h" (boxes) or "class x1 y1 x2 y2 ..." (YOLO-seg polygons),
+ * normalized to the image size. Each label file is paired with the image of the same name,
+ * preferring the one in the matching images/ folder. Category ids are the class indices.
+ */
+const importYolo = async (files: File[], options: ImportOptions): Promise<ImportResult> => {
+  const labelFiles = files.filter(file => getExtension(file.name) === 'txt' && !isClassFile(file)).sort(byPath);
+  const imageFiles = files.filter(file => SUPPORTED_IMAGE_EXTENSIONS.includes(getExtension(file.name)));
+  const classNames = await readClassNames(files);
+  const warnings: string[] = [];
+
+  const imagesByPath = new Map(imageFiles.map(file => [stripExtension(getRelativePath(file)), file]));
+  const imagesByKey = new Map<string, File>();
+  imageFiles.forEach(file => {
+    if (!imagesByKey.has(getMatchKey(file.name))) imagesByKey.set(getMatchKey(file.name), file);
+  });
+  const findImage = (labelFile: File) => {
+    const imagePath = stripExtension(getRelativePath(labelFile)).replace(/(^|\/)labels\//, '$1images/');
+    return imagesByPath.get(imagePath) ?? imagesByKey.get(getMatchKey(labelFile.name));
+  };
+
+  const images: COCOImage[] = [];
+  const annotations: COCOAnnotation[] = [];
+  const classIds = new Set<number>();
+
+  for (let i = 0; i < labelFiles.length; i++) {
+    const file = labelFiles[i];
+    options.onProgress?.(i, labelFiles.length);
+    const imageFile = findImage(file);
+    if (!imageFile) {
+      warnings.push(`${getRelativePath(file)}: no image with the same name, so its size is unknown`);
+      continue;
+    }
+    const { width, height } = await readImageSize(imageFile);
+    const image: COCOImage = { id: images.length + 1, width, height, file_name: getRelativePath(imageFile) };
+    images.push(image);
+
+    (await file.text()).split(/\r?\n/).forEach((line, lineIndex) => {
+      const values = line.trim().split(/\s+/).filter(Boolean).map(Number);
+      if (values.length === 0) return;
+      const [classId, ...coords] = values;
+      if (values.some(v => !isFinite(v)) || !Number.isInteger(classId) || coords.length < 4 || coords.length % 2 !== 0) {
+        warnings.push(`${getRelativePath(file)}:${lineIndex + 1}: not a YOLO box or polygon`);
+        return;
+      }
+      classIds.add(classId);
+      const base = { id: annotations.length + 1, image_id: image.id, category_id: classId, iscrowd: 0 };
+      if (coords.length === 4) {
+        const [cx, cy, w, h] = coords;
+        const bbox: [number, number, number, number] = [(cx - w / 2) * width, (cy - h / 2) * height, w * width, h * height];
+        annotations.push({ ...base, segmentation: [], area: bbox[2] * bbox[3], bbox });
+      } else {
+        const points = coords.map((v, k) => v * (k % 2 === 0 ? width : height));
+        const segmentation: COCOPolygon = [points];
+        const rle = polygonsToRle(segmentation, height, width);
+        annotations.push({ ...base, segmentation, area: rleArea(rle.counts as number[]), bbox: boundsOf(points) });
+      }
+    });
+  }
+
+  const ids = classNames ? Array.from(new Set([...classNames.keys(), ...classIds])) : Array.from(classIds);
+  const categories: COCOCategory[] = ids.sort((a, b) => a - b).map(id => ({ id, name: classNames?.[id] ?? `Class ${id}`, supercategory: '' }));
+  return { data: { images, annotations, categories }, name: 'yolo_annotations.json', warnings };
+};
+
+/**
+ * Splits a label map into 8-connected regions of equal value, skipping background and void.
+ * Each region is returned as COCO RLE counts (column-major, starting with background).
+ */
+export const labelMapToInstances = (
+  labels: ArrayLike<number>,
+  width: number,
+  height: number
+): { value: number; counts: number[] }[] => {
+  // Pass 1: provisional region ids with union-find over already visited neighbours
+  const region = new Int32Array(width * height).fill(-1);
+  const parent: number[] = [];
+  const find = (r: number) => {
+    while (parent[r] !== r) {
+      parent[r] = parent[parent[r]];
+      r = parent[r];
+    }
+    return r;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const value = labels[p];
+      if (value === LABEL_MAP_BACKGROUND || value === LABEL_MAP_VOID) continue;
+      // Left, top-left, top and top-right neighbours
+      const neighbours = [
+        x > 0 ? p - 1 : -1,
+        x > 0 && y > 0 ? p - width - 1 : -1,
+        y > 0 ? p - width : -1,
+        x < width - 1 && y > 0 ? p - width + 1 : -1,
+      ];
+      for (const n of neighbours) {
+        if (n < 0 || labels[n] !== value) continue;
+        if (region[p] < 0) region[p] = region[n];
+        else union(region[p], region[n]);
+      }
+      if (region[p] < 0) {
+        region[p] = parent.length;
+        parent.push(parent.length);
+      }
+    }
+  }
+
+  // Pass 2: RLE counts per region, walking pixels in column-major order
+  const instances = new Map<number, { value: number; counts: number[]; end: number }>();
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      const p = y * width + x;
+      if (region[p] < 0) continue;
+      const root = find(region[p]);
+      const position = x * height + y;
+      let instance = instances.get(root);
+      if (!instance) {
+        instance = { value: labels[p], counts: [position, 0], end: position };
+        instances.set(root, instance);
+      }
+      if (position !== instance.end) instance.counts.push(position - instance.end, 0);
+      instance.counts[instance.counts.length - 1]++;
+      instance.end = position + 1;
+    }
+  }
+
+  return Array.from(instances.values()).map(({ value, counts, end }) => {
+    if (end < width * height) counts.push(width * height - end);
+    return { value, counts };
+  });
+};
+
+/**
+ * Label map PNGs: instances are the connected regions of each class value (stored as RLE).
+ * Category ids are the pixel values, named from a class file if one is included.
+ */
+const importLabelMaps = async (files: File[], options: ImportOptions): Promise<ImportResult> => {
+  const pngFiles = files.filter(file => getExtension(file.name) === 'png').sort(byPath);
+  const classNames = await readClassNames(files);
+  const warnings: string[] = [];
+  const images: COCOImage[] = [];
+  const annotations: COCOAnnotation[] = [];
+  const values = new Set<number>();
+
+  for (let i = 0; i < pngFiles.length; i++) {
+    const file = pngFiles[i];
+    options.onProgress?.(i, pngFiles.length);
+    let decoded;
+    try {
+      decoded = await decodePngLabels(await file.arrayBuffer());
+    } catch (err: any) {
+      warnings.push(`${getRelativePath(file)}: ${err.message}`);
+      continue;
+    }
+    const { width, height, labels } = decoded;
+    const image: COCOImage = { id: images.length + 1, width, height, file_name: getRelativePath(file) };
+    images.push(image);
+
+    labelMapToInstances(labels, width, height).forEach(({ value, counts }) => {
+      values.add(value);
+      annotations.push({
+        id: annotations.length + 1,
+        image_id: image.id,
+        category_id: value,
+        segmentation: { counts: encodeCocoRleString(counts), size: [height, width] },
+        area: rleArea(counts),
+        bbox: rleToBbox(counts, height, width),
+        iscrowd: 0,
+      });
+    });
+  }
+
+  // Every named class except background, plus any unnamed values that occur
+  const named = classNames ? Array.from(classNames.keys()).filter(v => v !== LABEL_MAP_BACKGROUND && v !== LABEL_MAP_VOID) : [];
+  const categories: COCOCategory[] = Array.from(new Set([...named, ...values]))
+    .sort((a, b) => a - b)
+    .map(id => ({ id, name: classNames?.[id] || `Class ${id}`, supercategory: '' }));
+  return { data: { images, annotations, categories }, name: 'labelmap_annotations.json', warnings };
+};
+
+/**
+ * Converts dropped files of the given format into a COCO dataset. Fails if nothing could be read.
+ */
+export const importAnnotations = async (format: ImportFormat, files: File[], options: ImportOptions = {}): Promise<ImportResult> => {
+  const importers: Record<ImportFormat, (files: File[], options: ImportOptions) => Promise<ImportResult>> = {
+    voc: importVoc,
+    yolo: importYolo,
+    labelmap: importLabelMaps,
+  };
+  const result = await importers[format](files, options);
+  if (result.data.images.length === 0) {
+    throw new Error(result.warnings[0] ?? 'No annotation files found.');
+  }
+  if (result.warnings.length > MAX_WARNINGS) {
+    const more = result.warnings.length - MAX_WARNINGS;
+    result.warnings = [...result.warnings.slice(0, MAX_WARNINGS), `...and ${more} more`];
+  }
+  return result;
+};
@@ -0,0 +1,367 @@
+import { COCOJson, COCOAnnotation, COCOImage } from '../types';
+import { IouType, Prediction, annotationIou, groupByImage } from './comparison';
+
+/**
+ * COCO detection / instance segmentation evaluation, a port of pycocotools' COCOeval
+ * (evaluate + accumulate + summarize) with the default parameters, so the numbers match
+ * running pycocotools on the same ground truth and results file.
+ */
+
+// Same values as np.linspace (step multiplied in, last element pinned to stop)
+const linspace = (start: number, stop: number, num: number): number[] =>
+  Array.from({ length: num }, (_, i) => i === num - 1 ? stop : i * ((stop - start) / (num - 1)) + start);
+
+export const IOU_THRESHOLDS = linspace(0.5, 0.95, 10);
+export const RECALL_THRESHOLDS = linspace(0, 1, 101);
+export const MAX_DETS = [1, 10, 100];
+
+export type AreaLabel = 'all' | 'small' | 'medium' | 'large';
+
+export const AREA_RANGES: { label: AreaLabel; range: [number, number] }[] = [
+  { label: 'all', range: [0, 1e5 ** 2] },
+  { label: 'small', range: [0, 32 ** 2] },
+  { label: 'medium', range: [32 ** 2, 96 ** 2] },
+  { label: 'large', range: [96 ** 2, 1e5 ** 2] },
+];
+
+// One line of COCOeval.summarize()
+export interface EvalStat {
+  metric: 'AP' | 'AR';
+  iouThreshold: number | null; // null = averaged over .50:.95
+  area: AreaLabel;
+  maxDets: number;
+  value: number; // -1 when there was nothing to evaluate
+}
+
+export interface CategoryEval {
+  categoryId: number;
+  gtCount: number; // Non-crowd instances
+  dtCount: number;
+  ap: number;
+  ap50: number;
+  ap75: number;
+  ar100: number;
+}
+
+// Per-image figures for finding the worst images; AP is null when the image has no (non-crowd) ground truth
+export interface ImageEval {
+  image: COCOImage;
+  gtCount: number;
+  dtCount: number;
+  tp: number; // At IoU .50, up to 100 detections
+  fp: number;
+  fn: number;
+  ap: number | null;
+  ap50: number | null;
+}
+
+export interface EvalResult {
+  iouType: IouType;
+  categoryIds: number[];
+  // Shaped like COCOeval.eval: precision [T][R][K][A][M], recall [T][K][A][M], flattened; -1 = undefined
+  precision: Float64Array;
+  recall: Float64Array;
+  stats: EvalStat[];
+  categories: CategoryEval[];
+  images: ImageEval[];
+}
+
+// evaluateImg output for one image, category and area range (at the largest maxDets)
+interface EvalImage {
+  dtScores: number[];
+  dtMatched: boolean[][]; // [iou threshold][detection]
+  dtIgnore: boolean[][];
+  gtMatched: boolean[][]; // [iou threshold][ground truth], ground truth ordered non-ignored first
+  gtIgnore: boolean[];
+}
+
+const T = IOU_THRESHOLDS.length;
+const R = RECALL_THRESHOLDS.length;
+const A = AREA_RANGES.length;
+const M = MAX_DETS.length;
+
+// Python's sorted() order for ids: numeric when both are numbers
+const compareIds = (a: number | string, b: number | string): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+};
+
+// Stable sort by descending score, like np.argsort(-scores, kind='mergesort')
+const byScore = <D extends { score: number }>(list: D[]): D[] =>
+  list.map((d, i) => ({ d, i })).sort((x, y) => y.d.score - x.d.score || x.i - y.i).map(x => x.d);
+
+/**
+ * Greedy matching of one image/category within one area range (COCOeval.evaluateImg).
+ * dts are sorted by score and ious is [dt][gt] for them.
+ */
+const evaluateImage = (
+  gts: COCOAnnotation[],
+  dts: Prediction[],
+  ious: number[][],
+  range: [number, number],
+  maxDet: number
+): EvalImage | null => {
+  if (gts.length === 0 && dts.length === 0) return null;
+  const outside = (area: number) => area < range[0] || area > range[1];
+
+  const ignore = gts.map(g => !!g.iscrowd || outside(g.area));
+  const order = gts.map((_, i) => i).sort((a, b) => Number(ignore[a]) - Number(ignore[b]) || a - b);
+  const gtIgnore = order.map(i => ignore[i]);
+  const crowd = order.map(i => !!gts[i].iscrowd);
+  const dt = dts.slice(0, maxDet);
+
+  const gtMatched = IOU_THRESHOLDS.map(() => new Array<boolean>(order.length).fill(false));
+  const dtMatched = IOU_THRESHOLDS.map(() => new Array<boolean>(dt.length).fill(false));
+  const dtIgnore = IOU_THRESHOLDS.map(() => new Array<boolean>(dt.length).fill(false));
+
+  IOU_THRESHOLDS.forEach((threshold, t) => {
+    dt.forEach((_, d) => {
+      let best = Math.min(threshold, 1 - 1e-10);
+      let m = -1;
+      for (let g = 0; g < order.length; g++) {
+        if (gtMatched[t][g] && !crowd[g]) continue;
+        // Already matched to a regular instance and only ignored ones are left
+        if (m > -1 && !gtIgnore[m] && gtIgnore[g]) break;
+        const iou = ious[d][order[g]];
+        if (iou < best) continue;
+        best = iou;
+        m = g;
+      }
+      if (m === -1) return;
+      dtIgnore[t][d] = gtIgnore[m];
+      dtMatched[t][d] = true;
+      gtMatched[t][m] = true;
+    });
+  });
+
+  // Unmatched detections outside the area range do not count as false positives
+  dt.forEach((d, i) => {
+    if (!outside(d.area)) return;
+    for (let t = 0; t < T; t++) {
+      if (!dtMatched[t][i]) dtIgnore[t][i] = true;
+    }
+  });
+
+  return { dtScores: dt.map(d => d.score), dtMatched, dtIgnore, gtMatched, gtIgnore };
+};
+
+/**
+ * Precision at the recall thresholds and final recall for each IoU threshold (COCOeval.accumulate
+ * for one category/area/maxDets cell). Null if there is no non-ignored ground truth.
+ */
+const accumulate = (evalImages: (EvalImage | null)[], maxDet: number): { precision: number[][]; recall: number[] } | null => {
+  const list = evalImages.filter((e): e is EvalImage => !!e);
+  if (list.length === 0) return null;
+
+  const npig = list.reduce((sum, e) => sum + e.gtIgnore.filter(ig => !ig).length, 0);
+  if (npig === 0) return null;
+
+  // Detections of all images, best score first (stable, in image order on ties)
+  const entries: { score: number; e: EvalImage; d: number }[] = [];
+  list.forEach(e => e.dtScores.slice(0, maxDet).forEach((score, d) => entries.push({ score, e, d })));
+  const sorted = byScore(entries);
+  const nd = sorted.length;
+
+  const precision: number[][] = [];
+  const recall: number[] = [];
+  for (let t = 0; t < T; t++) {
+    const rc = new Array<number>(nd);
+    const pr = new Array<number>(nd);
+    let tp = 0, fp = 0;
+    sorted.forEach(({ e, d }, i) => {
+      if (!e.dtIgnore[t][d]) {
+        if (e.dtMatched[t][d]) tp++;
+        else fp++;
+      }
+      rc[i] = tp / npig;
+      pr[i] = tp / (fp + tp + Number.EPSILON);
+    });
+    recall.push(nd > 0 ? rc[nd - 1] : 0);
+
+    // Precision envelope, then sampled at the recall thresholds (searchsorted, side='left')
+    for (let i = nd - 1; i > 0; i--) {
+      if (pr[i] > pr[i - 1]) pr[i - 1] = pr[i];
+    }
+    const q = new Array<number>(R).fill(0);
+    let pi = 0;
+    for (let r = 0; r < R; r++) {
+      while (pi < nd && rc[pi] < RECALL_THRESHOLDS[r]) pi++;
+      if (pi >= nd) break;
+      q[r] = pr[pi];
+    }
+    precision.push(q);
+  }
+  return { precision, recall };
+};
+
+const meanDefined = (values: Iterable<number>): number => {
+  let sum = 0, count = 0;
+  for (const v of values) {
+    if (v > -1) {
+      sum += v;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : -1;
+};
+
+export const precisionIndex = (t: number, r: number, k: number, a: number, m: number, K: number) =>
+  (((t * R + r) * K + k) * A + a) * M + m;
+
+export const recallIndex = (t: number, k: number, a: number, m: number, K: number) =>
+  ((t * K + k) * A + a) * M + m;
+
+function* precisionValues(result: EvalResult, ts: number[], ks: number[], a: number, m: number) {
+  const K = result.categoryIds.length;
+  for (const t of ts) for (let r = 0; r < R; r++) for (const k of ks) yield result.precision[precisionIndex(t, r, k, a, m, K)];
+}
+
+function* recallValues(result: EvalResult, ts: number[], ks: number[], a: number, m: number) {
+  const K = result.categoryIds.length;
+  for (const t of ts) for (const k of ks) yield result.recall[recallIndex(t, k, a, m, K)];
+}
+
+const ALL_T = IOU_THRESHOLDS.map((_, t) => t);
+const T50 = [0];
+const T75 = [5];
+
+/**
+ * Precision/recall curve sampled at RECALL_THRESHOLDS (area all, 100 detections).
+ * t = null averages over the IoU thresholds and k = null over the categories; -1 where undefined.
+ */
+export const getPrCurve = (result: EvalResult, t: number | null, k: number | null): number[] => {
+  const K = result.categoryIds.length;
+  const ts = t === null ? ALL_T : [t];
+  const ks = k === null ? result.categoryIds.map((_, i) => i) : [k];
+  return RECALL_THRESHOLDS.map((_, r) => {
+    const values: number[] = [];
+    ts.forEach(ti => ks.forEach(ki => values.push(result.precision[precisionIndex(ti, r, ki, 0, M - 1, K)])));
+    return meanDefined(values);
+  });
+};
+
+/**
+ * Evaluates predictions against the ground truth over all ground-truth images and categories.
+ */
+export const evaluateCoco = (gt: COCOJson, predictions: Prediction[], iouType: IouType): EvalResult => {
+  const images = [...gt.images].sort((a, b) => compareIds(a.id, b.id));
+  const categoryIds = Array.from(new Set(gt.categories.map(c => c.id))).sort(compareIds);
+  const K = categoryIds.length;
+  const maxDetLast = MAX_DETS[M - 1];
+
+  const gtByImage = groupByImage(gt.annotations);
+  const dtByImage = groupByImage(predictions);
+
+  // evalImages[k][a][i], as COCOeval.evalImgs
+  const evalImages: (EvalImage | null)[][][] = categoryIds.map(() => AREA_RANGES.map(() => []));
+  const categoryCounts = categoryIds.map(() => ({ gt: 0, dt: 0 }));
+
+  images.forEach(image => {
+    const key = String(image.id);
+    const imageGts = gtByImage.get(key) || [];
+    const imageDts = dtByImage.get(key) || [];
+    categoryIds.forEach((categoryId, k) => {
+      const gts = imageGts.filter(ann => String(ann.category_id) === String(categoryId));
+      const dts = byScore(imageDts.filter(ann => String(ann.category_id) === String(categoryId))).slice(0, maxDetLast);
+      categoryCounts[k].gt += gts.filter(g => !g.iscrowd).length;
+      categoryCounts[k].dt += dts.length;
+
+      const ious = dts.map(d => gts.map(g => annotationIou(d, g, image, iouType)));
+      AREA_RANGES.forEach(({ range }, a) => {
+        evalImages[k][a].push(evaluateImage(gts, dts, ious, range, maxDetLast));
+      });
+    });
+  });
+
+  const precision = new Float64Array(T * R * K * A * M).fill(-1);
+  const recall = new Float64Array(T * K * A * M).fill(-1);
+  for (let k = 0; k < K; k++) {
+    for (let a = 0; a < A; a++) {
+      MAX_DETS.forEach((maxDet, m) => {
+        const curves = accumulate(evalImages[k][a], maxDet);
+        if (!curves) return;
+        for (let t = 0; t < T; t++) {
+          recall[recallIndex(t, k, a, m, K)] = curves.recall[t];
+          for (let r = 0; r < R; r++) precision[precisionIndex(t, r, k, a, m, K)] = curves.precision[t][r];
+        }
+      });
+    }
+  }
+
+  const result: EvalResult = { iouType, categoryIds, precision, recall, stats: [], categories: [], images: [] };
+  const allK = categoryIds.map((_, k) => k);
+  const areaIndex = (label: AreaLabel) => AREA_RANGES.findIndex(r => r.label === label);
+
+  // Same twelve numbers, in the same order, as COCOeval.summarize() for bbox/segm
+  const stat = (metric: 'AP' | 'AR', iouThreshold: number | null, area: AreaLabel, maxDets: number): EvalStat => {
+    const ts = iouThreshold === null ? ALL_T : [IOU_THRESHOLDS.findIndex(v => Math.abs(v - iouThreshold) < 1e-9)];
+    const a = areaIndex(area);
+    const m = MAX_DETS.indexOf(maxDets);
+    const values = metric === 'AP' ? precisionValues(result, ts, allK, a, m) : recallValues(result, ts, allK, a, m);
+    return { metric, iouThreshold, area, maxDets, value: meanDefined(values) };
+  };
+  result.stats = [
+    stat('AP', null, 'all', 100),
+    stat('AP', 0.5, 'all', 100),
+    stat('AP', 0.75, 'all', 100),
+    stat('AP', null, 'small', 100),
+    stat('AP', null, 'medium', 100),
+    stat('AP', null, 'large', 100),
+    stat('AR', null, 'all', 1),
+    stat('AR', null, 'all', 10),
+    stat('AR', null, 'all', 100),
+    stat('AR', null, 'small', 100),
+    stat('AR', null, 'medium', 100),
+    stat('AR', null, 'large', 100),
+  ];
+
+  result.categories = categoryIds.map((categoryId, k) => ({
+    categoryId,
+    gtCount: categoryCounts[k].gt,
+    dtCount: categoryCounts[k].dt,
+    ap: meanDefined(precisionValues(result, ALL_T, [k], 0, M - 1)),
+    ap50: meanDefined(precisionValues(result, T50, [k], 0, M - 1)),
+    ap75: meanDefined(precisionValues(result, T75, [k], 0, M - 1)),
+    ar100: meanDefined(recallValues(result, ALL_T, [k], 0, M - 1)),
+  }));
+
+  // Per image: the same accumulation restricted to that image, averaged over its categories
+  result.images = images.map((image, i) => {
+    const summary: ImageEval = { image, gtCount: 0, dtCount: 0, tp: 0, fp: 0, fn: 0, ap: null, ap50: null };
+    const ap: number[] = [];
+    const ap50: number[] = [];
+    categoryIds.forEach((_, k) => {
+      const e = evalImages[k][0][i];
+      if (!e) return;
+      summary.gtCount += e.gtIgnore.filter(ig => !ig).length;
+      summary.dtCount += e.dtScores.length;
+      e.dtScores.forEach((_, d) => {
+        if (e.dtIgnore[0][d]) return;
+        if (e.dtMatched[0][d]) summary.tp++;
+        else summary.fp++;
+      });
+      summary.fn += e.gtIgnore.filter((ig, g) => !ig && !e.gtMatched[0][g]).length;
+
+      const curves = accumulate([e], maxDetLast);
+      if (!curves) return;
+      curves.precision.forEach(q => ap.push(...q));
+      ap50.push(...curves.precision[0]);
+    });
+    if (ap.length > 0) {
+      summary.ap = meanDefined(ap);
+      summary.ap50 = meanDefined(ap50);
+    }
+    return summary;
+  }).filter(img => img.gtCount > 0 || img.dtCount > 0);
+
+  return result;
+};
+
+/**
+ * One summarize() line, e.g. "Average Precision  (AP) @[ IoU=0.50:0.95 | area=   all | maxDets=100 ] = 0.512".
+ */
+export const formatStat = (stat: EvalStat): string => {
+  const title = stat.metric === 'AP' ? 'Average Precision' : 'Average Recall';
+  const iou = stat.iouThreshold === null ? '0.50:0.95' : stat.iouThreshold.toFixed(2);
+  return `${title.padEnd(18)} (${stat.metric}) @[ IoU=${iou.padEnd(9)} | area=${stat.area.padStart(6)} | maxDets=${String(stat.maxDets).padStart(3)} ] = ${stat.value.toFixed(3)}`;
+};
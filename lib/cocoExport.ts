@@ -0,0 +1,74 @@
+import { COCOJson, COCOAnnotation, COCORLE } from '../types';
+import { isRle, getRleCounts, encodeCocoRleString } from '../utils';
+
+/**
+ * Writing the in-memory dataset back to COCO JSON.
+ * Everything is copied as-is (info, licenses, unknown fields); only RLE counts may be converted.
+ */
+
+export type RleFormat = 'compressed' | 'uncompressed';
+
+export interface ExportOptions {
+  // 'original' keeps the form the loaded file used
+  rleFormat: RleFormat | 'original';
+  // When set, only these images (and their annotations) are written
+  imageIds?: Set<string> | null;
+}
+
+/**
+ * The RLE form used by a dataset, taken from its first RLE annotation. Null if it has no RLE.
+ */
+export const detectRleFormat = (annotations: COCOAnnotation[]): RleFormat | null => {
+  const first = annotations.find(ann => isRle(ann.segmentation));
+  if (!first) return null;
+  return typeof (first.segmentation as COCORLE).counts === 'string' ? 'compressed' : 'uncompressed';
+};
+
+/**
+ * Converts RLE counts between the compressed string and the uncompressed array form.
+ */
+export const convertRle = (rle: COCORLE, format: RleFormat): COCORLE => {
+  const isCompressed = typeof rle.counts === 'string';
+  if ((format === 'compressed') === isCompressed) return rle;
+  const counts = getRleCounts(rle);
+  if (!counts) return rle;
+  return { ...rle, counts: format === 'compressed' ? encodeCocoRleString(counts) : counts };
+};
+
+/**
+ * Builds the dataset to write. inputFormat is the RLE form of the loaded file (see detectRleFormat).
+ */
+export const buildExportDataset = (data: COCOJson, options: ExportOptions, inputFormat: RleFormat | null): COCOJson => {
+  const format = options.rleFormat === 'original' ? inputFormat : options.rleFormat;
+  const { imageIds } = options;
+
+  // IDs are compared as strings since JSON files sometimes store them that way
+  const images = imageIds ? data.images.filter(img => imageIds.has(String(img.id))) : data.images;
+  const annotations = (imageIds ? data.annotations.filter(ann => imageIds.has(String(ann.image_id))) : data.annotations)
+    .map(ann => format && isRle(ann.segmentation)
+      ? { ...ann, segmentation: convertRle(ann.segmentation, format) }
+      : ann
+    );
+
+  return { ...data, images, annotations };
+};
+
+/**
+ * Serializes the dataset and triggers a browser download.
+ */
+export const downloadJson = (data: unknown, fileName: string) => {
+  downloadBlob(new Blob([JSON.stringify(data)], { type: 'application/json' }), fileName);
+};
+
+/**
+ * Triggers a browser download of the blob.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
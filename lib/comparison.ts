@@ -0,0 +1,386 @@
+import { COCOJson, COCOAnnotation, COCOImage, COCORLE, COCOPolygon } from '../types';
+import {
+  isRle, getRleCounts, segmentationToRle, polygonsToRle, bboxToRle,
+  rleArea, rleToBbox, rleIou, bbIou, rleOverlap, mergeRleCounts
+} from '../utils';
+
+/**
+ * Ground truth vs. prediction comparison.
+ * Predictions come from a COCO results file; instances are matched per image and category
+ * greedily by score, following COCOeval (crowd ground truth absorbs matches without counting).
+ */
+
+export type IouType = 'segm' | 'bbox';
+
+export interface ComparisonOptions {
+  iouType: IouType;
+  iouThreshold: number;
+  scoreThreshold: number; // Predictions below this are dropped before matching
+}
+
+export const DEFAULT_COMPARISON_OPTIONS: ComparisonOptions = {
+  iouType: 'segm',
+  iouThreshold: 0.5,
+  scoreThreshold: 0.5,
+};
+
+export interface Prediction extends COCOAnnotation {
+  score: number;
+}
+
+// Results entries left out by parseResults, by reason
+export interface SkippedResults {
+  invalid: number; // No usable image_id, category_id or segmentation/bbox
+  unknownImage: number; // image_id not in the ground truth (pycocotools' loadRes rejects the whole file)
+  unknownCategory: number; // category_id not in the ground truth
+}
+
+export interface ParsedResults {
+  predictions: Prediction[];
+  skipped: SkippedResults;
+}
+
+export type MatchStatus = 'tp' | 'fp' | 'fn' | 'ignored';
+
+export const MATCH_STATUS_COLORS: Record<MatchStatus, [number, number, number]> = {
+  tp: [34, 197, 94],
+  fp: [239, 68, 68],
+  fn: [245, 158, 11],
+  ignored: [148, 163, 184],
+};
+
+// Pixel counts behind IoU / Dice of the merged ground truth vs. merged predictions
+export interface Overlap {
+  intersection: number;
+  union: number;
+  gtArea: number;
+  predArea: number;
+}
+
+export interface CategoryComparison {
+  categoryId: number;
+  tp: number;
+  fp: number;
+  fn: number;
+  overlap: Overlap;
+}
+
+export interface ImageComparison {
+  status: Map<number, MatchStatus>; // Annotation / prediction id -> match status
+  matchedIou: Map<number, number>; // IoU of every matched pair, keyed by both ids
+  tp: number;
+  fp: number;
+  fn: number;
+  categories: CategoryComparison[];
+  overall: Overlap; // All categories merged into one foreground
+}
+
+export interface DatasetComparison {
+  images: { image: COCOImage; tp: number; fp: number; fn: number; overall: Overlap }[];
+  categories: CategoryComparison[];
+  tp: number;
+  fp: number;
+  fn: number;
+  overall: Overlap;
+}
+
+const EMPTY_OVERLAP: Overlap = { intersection: 0, union: 0, gtArea: 0, predArea: 0 };
+
+/**
+ * IoU of an overlap, or null if both sides are empty.
+ */
+export const overlapIou = (o: Overlap): number | null => o.union > 0 ? o.intersection / o.union : null;
+
+/**
+ * Dice of an overlap, or null if both sides are empty.
+ */
+export const overlapDice = (o: Overlap): number | null =>
+  o.gtArea + o.predArea > 0 ? (2 * o.intersection) / (o.gtArea + o.predArea) : null;
+
+const addOverlap = (a: Overlap, b: Overlap): Overlap => ({
+  intersection: a.intersection + b.intersection,
+  union: a.union + b.union,
+  gtArea: a.gtArea + b.gtArea,
+  predArea: a.predArea + b.predArea,
+});
+
+type Bbox = [number, number, number, number];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isBbox = (value: unknown): value is Bbox => Array.isArray(value) && value.length === 4 && value.every(isFiniteNumber);
+
+// JSON ids may be numbers or strings; both are keyed with String() downstream
+const isId = (value: unknown): value is number | string => typeof value === 'number' || typeof value === 'string';
+
+// RLE ({counts, size: [h, w]}) or a non-empty list of polygons; null for anything else
+const asSegmentation = (value: unknown): COCORLE | COCOPolygon | null => {
+  if (!value || typeof value !== 'object') return null;
+  if (Array.isArray(value)) {
+    const isPolygonList = value.length > 0 && value.every(part => Array.isArray(part) && part.every(isFiniteNumber));
+    return isPolygonList ? value as COCOPolygon : null;
+  }
+  const { counts, size } = value as Record<string, unknown>;
+  const hasCounts = typeof counts === 'string' || (Array.isArray(counts) && counts.every(isFiniteNumber));
+  const hasSize = Array.isArray(size) && size.length === 2 && size.every(isFiniteNumber);
+  return hasCounts && hasSize ? value as COCORLE : null;
+};
+
+/**
+ * Reads a COCO results file (a flat array; a full COCO file's "annotations" is accepted too).
+ * Predictions get ids after the largest ground-truth id so both sets can be shown together, and take
+ * their image and category ids from the ground truth; entries that match neither are skipped and counted.
+ * Area (and a missing bbox) is recomputed like pycocotools' loadRes, so size buckets agree with COCOeval.
+ */
+export const parseResults = (json: unknown, gt: COCOJson): ParsedResults => {
+  const items = Array.isArray(json) ? json : (json as { annotations?: unknown })?.annotations;
+  if (!Array.isArray(items)) {
+    throw new Error("Expected a COCO results array of {image_id, category_id, segmentation|bbox, score}.");
+  }
+
+  const images = new Map(gt.images.map(img => [String(img.id), img]));
+  const categories = new Map(gt.categories.map(cat => [String(cat.id), cat]));
+  const firstId = gt.annotations.reduce((max, ann) => Math.max(max, Number(ann.id) || 0), 0) + 1;
+  // Like loadRes, the first result decides whether area comes from the boxes or the masks
+  const first: unknown = items[0];
+  const boxResults = !!first && typeof first === 'object' && isBbox((first as Record<string, unknown>).bbox);
+
+  const predictions: Prediction[] = [];
+  const skipped: SkippedResults = { invalid: 0, unknownImage: 0, unknownCategory: 0 };
+  items.forEach((entry: unknown, index: number) => {
+    if (!entry || typeof entry !== 'object') {
+      skipped.invalid++;
+      return;
+    }
+    const item = entry as Record<string, unknown>;
+    const { image_id: imageId, category_id: categoryId } = item;
+    const segmentation = asSegmentation(item.segmentation);
+    const itemBbox = isBbox(item.bbox) ? item.bbox : null;
+    if (!isId(imageId) || !isId(categoryId) || (!segmentation && !itemBbox)) {
+      skipped.invalid++;
+      return;
+    }
+    // Ids may differ in type from the ground truth ("1" vs 1); the ground-truth ones are kept
+    const image = images.get(String(imageId));
+    if (!image) {
+      skipped.unknownImage++;
+      return;
+    }
+    const category = categories.get(String(categoryId));
+    if (!category) {
+      skipped.unknownCategory++;
+      return;
+    }
+
+    let area = 0;
+    let bbox: Bbox | null = itemBbox;
+    if (itemBbox && (boxResults || !segmentation)) {
+      area = itemBbox[2] * itemBbox[3];
+    } else if (segmentation) {
+      const rle = isRle(segmentation) ? segmentation : polygonsToRle(segmentation, image.height, image.width);
+      const counts = getRleCounts(rle);
+      if (counts) {
+        area = rleArea(counts);
+        if (!bbox) bbox = rleToBbox(counts, rle.size[0], rle.size[1]);
+      }
+    }
+
+    predictions.push({
+      ...item,
+      id: firstId + index,
+      image_id: image.id,
+      category_id: category.id,
+      segmentation: segmentation ?? [],
+      bbox: bbox || [0, 0, 0, 0],
+      area,
+      iscrowd: 0,
+      score: isFiniteNumber(item.score) ? item.score : 1,
+    });
+  });
+
+  if (items.length > 0 && predictions.length === 0) {
+    if (skipped.invalid === items.length) {
+      throw new Error("No usable predictions: every entry needs image_id, category_id and a segmentation or bbox.");
+    }
+    throw new Error("No usable predictions: no entry matches an image and category of the loaded annotations.");
+  }
+  return { predictions, skipped };
+};
+
+// Decoded masks by annotation object; edited annotations are new objects, so entries never go stale
+const maskCache = new WeakMap<COCOAnnotation, number[] | null>();
+
+/**
+ * RLE counts of an annotation at the image size (boxes are rasterized when there is no mask).
+ * Null if the mask does not fit the image.
+ */
+const getMaskCounts = (ann: COCOAnnotation, h: number, w: number): number[] | null => {
+  if (maskCache.has(ann)) return maskCache.get(ann)!;
+  const seg = ann.segmentation;
+  const hasSegmentation = !!seg && (isRle(seg) || seg.length > 0);
+  let rle = hasSegmentation ? segmentationToRle(seg, h, w) : null;
+  if (!rle && Array.isArray(ann.bbox) && ann.bbox[2] > 0 && ann.bbox[3] > 0) rle = bboxToRle(ann.bbox, h, w);
+  const counts = rle && rle.size[0] === h && rle.size[1] === w ? getRleCounts(rle) : null;
+  maskCache.set(ann, counts);
+  return counts;
+};
+
+const getBox = (ann: COCOAnnotation, h: number, w: number): number[] | null => {
+  if (Array.isArray(ann.bbox) && ann.bbox.length === 4) return ann.bbox;
+  const counts = getMaskCounts(ann, h, w);
+  return counts ? rleToBbox(counts, h, w) : null;
+};
+
+// Overlap of the union of ground-truth masks with the union of prediction masks
+const computeOverlap = (gts: COCOAnnotation[], dts: COCOAnnotation[], h: number, w: number): Overlap => {
+  const gtMasks = gts.map(ann => getMaskCounts(ann, h, w)).filter((c): c is number[] => !!c);
+  const dtMasks = dts.map(ann => getMaskCounts(ann, h, w)).filter((c): c is number[] => !!c);
+  if (gtMasks.length === 0 && dtMasks.length === 0) return EMPTY_OVERLAP;
+  const gtUnion = gtMasks.length > 0 ? mergeRleCounts(gtMasks) : [h * w];
+  const dtUnion = dtMasks.length > 0 ? mergeRleCounts(dtMasks) : [h * w];
+  return { ...rleOverlap(gtUnion, dtUnion), gtArea: rleArea(gtUnion), predArea: rleArea(dtUnion) };
+};
+
+/**
+ * IoU of a prediction with a ground-truth instance of the same image.
+ * Crowd ground truth is scored by the fraction of the prediction it covers, as in pycocotools.
+ */
+export const annotationIou = (dt: COCOAnnotation, gt: COCOAnnotation, image: COCOImage, iouType: IouType): number => {
+  const { height: h, width: w } = image;
+  const crowd = !!gt.iscrowd;
+  if (iouType === 'bbox') {
+    const db = getBox(dt, h, w);
+    const gb = getBox(gt, h, w);
+    return db && gb ? bbIou(db, gb, crowd) : 0;
+  }
+  const dm = getMaskCounts(dt, h, w);
+  const gm = getMaskCounts(gt, h, w);
+  return dm && gm ? rleIou(dm, gm, h, w, crowd) : 0;
+};
+
+/**
+ * Matches the predictions of one image against its ground truth.
+ */
+export const compareImage = (
+  image: COCOImage,
+  gts: COCOAnnotation[],
+  predictions: Prediction[],
+  options: ComparisonOptions
+): ImageComparison => {
+  const { height: h, width: w } = image;
+  const dts = predictions.filter(p => p.score >= options.scoreThreshold).sort((a, b) => b.score - a.score);
+  const status = new Map<number, MatchStatus>();
+  const matchedIou = new Map<number, number>();
+
+  const iou = (dt: COCOAnnotation, gt: COCOAnnotation) => annotationIou(dt, gt, image, options.iouType);
+
+  const categoryIds = Array.from(new Set([...gts, ...dts].map(ann => ann.category_id)));
+  const categories = categoryIds.map(categoryId => {
+    // Non-crowd ground truth first, so crowd regions only take what is left (as in COCOeval)
+    const g = gts.filter(ann => ann.category_id == categoryId).sort((a, b) => (a.iscrowd ? 1 : 0) - (b.iscrowd ? 1 : 0));
+    const d = dts.filter(ann => ann.category_id == categoryId);
+    const gtMatched = new Array(g.length).fill(false);
+    let tp = 0, fp = 0, fn = 0;
+
+    d.forEach(dt => {
+      let best = Math.min(options.iouThreshold, 1 - 1e-10);
+      let m = -1;
+      for (let j = 0; j < g.length; j++) {
+        if (gtMatched[j] && !g[j].iscrowd) continue;
+        // Once matched to real ground truth, never switch to a crowd region
+        if (m > -1 && !g[m].iscrowd && g[j].iscrowd) break;
+        const value = iou(dt, g[j]);
+        if (value < best) continue;
+        best = value;
+        m = j;
+      }
+      if (m === -1) {
+        status.set(dt.id, 'fp');
+        fp++;
+      } else if (g[m].iscrowd) {
+        status.set(dt.id, 'ignored');
+      } else {
+        gtMatched[m] = true;
+        status.set(dt.id, 'tp');
+        status.set(g[m].id, 'tp');
+        matchedIou.set(dt.id, best);
+        matchedIou.set(g[m].id, best);
+        tp++;
+      }
+    });
+
+    g.forEach((gt, j) => {
+      if (gt.iscrowd) {
+        status.set(gt.id, 'ignored');
+      } else if (!gtMatched[j]) {
+        status.set(gt.id, 'fn');
+        fn++;
+      }
+    });
+
+    return { categoryId, tp, fp, fn, overlap: computeOverlap(g, d, h, w) };
+  });
+
+  return {
+    status,
+    matchedIou,
+    tp: categories.reduce((sum, c) => sum + c.tp, 0),
+    fp: categories.reduce((sum, c) => sum + c.fp, 0),
+    fn: categories.reduce((sum, c) => sum + c.fn, 0),
+    categories,
+    overall: computeOverlap(gts, dts, h, w),
+  };
+};
+
+/**
+ * Groups annotations by image id (as string, since JSON ids may be strings).
+ */
+export const groupByImage = <T extends COCOAnnotation>(annotations: T[]): Map<string, T[]> => {
+  const byImage = new Map<string, T[]>();
+  annotations.forEach(ann => {
+    const key = String(ann.image_id);
+    const list = byImage.get(key);
+    if (list) list.push(ann);
+    else byImage.set(key, [ann]);
+  });
+  return byImage;
+};
+
+/**
+ * Runs compareImage over every image and pools the counts and pixel overlaps.
+ */
+export const compareDataset = (gt: COCOJson, predictions: Prediction[], options: ComparisonOptions): DatasetComparison => {
+  const gtByImage = groupByImage(gt.annotations);
+  const predByImage = groupByImage(predictions);
+  const categories = new Map<number, CategoryComparison>();
+  const result: DatasetComparison = { images: [], categories: [], tp: 0, fp: 0, fn: 0, overall: EMPTY_OVERLAP };
+
+  gt.images.forEach(image => {
+    const key = String(image.id);
+    const gts = gtByImage.get(key) || [];
+    const preds = predByImage.get(key) || [];
+    if (gts.length === 0 && preds.length === 0) return;
+
+    const comparison = compareImage(image, gts, preds, options);
+    result.images.push({ image, tp: comparison.tp, fp: comparison.fp, fn: comparison.fn, overall: comparison.overall });
+    result.tp += comparison.tp;
+    result.fp += comparison.fp;
+    result.fn += comparison.fn;
+    result.overall = addOverlap(result.overall, comparison.overall);
+
+    comparison.categories.forEach(c => {
+      const key = Number(c.categoryId);
+      const total = categories.get(key) || { categoryId: c.categoryId, tp: 0, fp: 0, fn: 0, overlap: EMPTY_OVERLAP };
+      categories.set(key, {
+        categoryId: c.categoryId,
+        tp: total.tp + c.tp,
+        fp: total.fp + c.fp,
+        fn: total.fn + c.fn,
+        overlap: addOverlap(total.overlap, c.overlap),
+      });
+    });
+  });
+
+  result.categories = Array.from(categories.values()).sort((a, b) => Number(a.categoryId) - Number(b.categoryId));
+  return result;
+};
@@ -0,0 +1,94 @@
+import { COCOJson, COCOAnnotation, COCOCategory, COCOImage } from '../types';
+import { getMatchKey } from '../utils';
+
+/**
+ * Lookup tables built once per loaded dataset, so per-image and per-category access
+ * does not scan the (possibly millions of) annotations.
+ * IDs are keyed as strings, since JSON ids may be strings while parsed ids are numbers.
+ */
+export interface DatasetIndex {
+  annotationsByImage: Map<string, COCOAnnotation[]>;
+  categoriesById: Map<string, COCOCategory>;
+  imagesById: Map<string, COCOImage>;
+  imagesByBasename: Map<string, COCOImage[]>; // Keyed by getMatchKey(file_name)
+}
+
+// Shared result for images without annotations, so memoized consumers see a stable value
+const NO_ANNOTATIONS: COCOAnnotation[] = [];
+
+const pushTo = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+/**
+ * True if parsed JSON has the three COCO arrays; element shapes are left to the validator.
+ */
+export const isCocoJson = (json: unknown): json is COCOJson => {
+  if (!json || typeof json !== 'object') return false;
+  const { images, annotations, categories } = json as Record<string, unknown>;
+  return Array.isArray(images) && Array.isArray(annotations) && Array.isArray(categories);
+};
+
+export const createDatasetIndex = (): DatasetIndex => ({
+  annotationsByImage: new Map(),
+  categoriesById: new Map(),
+  imagesById: new Map(),
+  imagesByBasename: new Map(),
+});
+
+/**
+ * Adds part of a dataset to an index in place, e.g. each batch of a file as it is received.
+ */
+export const extendDatasetIndex = (index: DatasetIndex, part: Partial<Pick<COCOJson, 'images' | 'annotations' | 'categories'>>) => {
+  part.annotations?.forEach(ann => pushTo(index.annotationsByImage, String(ann.image_id), ann));
+
+  // First category (and image) wins on duplicate ids, like categories.find
+  part.categories?.forEach(cat => {
+    const key = String(cat.id);
+    if (!index.categoriesById.has(key)) index.categoriesById.set(key, cat);
+  });
+
+  part.images?.forEach(img => {
+    const key = String(img.id);
+    if (!index.imagesById.has(key)) index.imagesById.set(key, img);
+    pushTo(index.imagesByBasename, getMatchKey(img.file_name), img);
+  });
+};
+
+export const buildDatasetIndex = (data: COCOJson): DatasetIndex => {
+  const index = createDatasetIndex();
+  extendDatasetIndex(index, data);
+  return index;
+};
+
+export const getImageAnnotations = (index: DatasetIndex, imageId: number | string): COCOAnnotation[] => {
+  return index.annotationsByImage.get(String(imageId)) || NO_ANNOTATIONS;
+};
+
+export const getImage = (index: DatasetIndex, imageId: number | string): COCOImage | null => {
+  return index.imagesById.get(String(imageId)) ?? null;
+};
+
+export const getCategoryName = (index: DatasetIndex, categoryId: number | string): string => {
+  return index.categoriesById.get(String(categoryId))?.name || `Class ${categoryId}`;
+};
+
+/**
+ * Index after swapping one annotation object for another (see App's replaceAnnotation).
+ * Only the affected image's list is copied.
+ */
+export const replaceIndexedAnnotation = (index: DatasetIndex, from: COCOAnnotation, to: COCOAnnotation): DatasetIndex => {
+  const annotationsByImage = new Map(index.annotationsByImage);
+  const fromKey = String(from.image_id);
+  const toKey = String(to.image_id);
+  const list = annotationsByImage.get(fromKey) || NO_ANNOTATIONS;
+  if (fromKey === toKey) {
+    annotationsByImage.set(fromKey, list.map(ann => ann === from ? to : ann));
+  } else {
+    annotationsByImage.set(fromKey, list.filter(ann => ann !== from));
+    annotationsByImage.set(toKey, [...(annotationsByImage.get(toKey) || NO_ANNOTATIONS), to]);
+  }
+  return { ...index, annotationsByImage };
+};
@@ -0,0 +1,456 @@
+import { RasterImage, PixelArray, getValueRange, rangeWindow, computeAutoWindow } from './raster';
+
+/**
+ * Minimal client-side DICOM (Part 10) reader.
+ * Supports uncompressed (implicit/explicit VR, little/big endian, deflated) and RLE Lossless pixel data.
+ * Only the first frame of multi-frame objects is decoded.
+ */
+
+const TS_IMPLICIT_LE = '1.2.840.10008.1.2';
+const TS_EXPLICIT_LE = '1.2.840.10008.1.2.1';
+const TS_DEFLATED_LE = '1.2.840.10008.1.2.1.99';
+const TS_EXPLICIT_BE = '1.2.840.10008.1.2.2';
+const TS_RLE_LOSSLESS = '1.2.840.10008.1.2.5';
+
+const TRANSFER_SYNTAX_NAMES: Record<string, string> = {
+  [TS_IMPLICIT_LE]: 'Implicit VR Little Endian',
+  [TS_EXPLICIT_LE]: 'Explicit VR Little Endian',
+  [TS_DEFLATED_LE]: 'Deflated Explicit VR Little Endian',
+  [TS_EXPLICIT_BE]: 'Explicit VR Big Endian',
+  [TS_RLE_LOSSLESS]: 'RLE Lossless',
+};
+
+// VRs with a reserved 2 bytes and a 4 byte length in explicit VR encoding
+const LONG_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+
+const UNDEFINED_LENGTH = 0xffffffff;
+
+const tag = (group: number, element: number) => ((group << 16) | element) >>> 0;
+
+const TAGS = {
+  transferSyntaxUid: tag(0x0002, 0x0010),
+  sopInstanceUid: tag(0x0008, 0x0018),
+  modality: tag(0x0008, 0x0060),
+  seriesInstanceUid: tag(0x0020, 0x000e),
+  instanceNumber: tag(0x0020, 0x0013),
+  samplesPerPixel: tag(0x0028, 0x0002),
+  photometric: tag(0x0028, 0x0004),
+  planarConfiguration: tag(0x0028, 0x0006),
+  numberOfFrames: tag(0x0028, 0x0008),
+  rows: tag(0x0028, 0x0010),
+  columns: tag(0x0028, 0x0011),
+  pixelSpacing: tag(0x0028, 0x0030),
+  bitsAllocated: tag(0x0028, 0x0100),
+  bitsStored: tag(0x0028, 0x0101),
+  pixelRepresentation: tag(0x0028, 0x0103),
+  windowCenter: tag(0x0028, 0x1050),
+  windowWidth: tag(0x0028, 0x1051),
+  rescaleIntercept: tag(0x0028, 0x1052),
+  rescaleSlope: tag(0x0028, 0x1053),
+  pixelData: tag(0x7fe0, 0x0010),
+  item: tag(0xfffe, 0xe000),
+  itemDelimiter: tag(0xfffe, 0xe00d),
+  sequenceDelimiter: tag(0xfffe, 0xe0dd),
+};
+
+interface DicomElement {
+  offset: number;
+  length: number;
+  littleEndian: boolean;
+  fragments?: Uint8Array[]; // Encapsulated pixel data
+}
+
+export interface DicomInfo {
+  transferSyntaxUid: string;
+  rows: number;
+  columns: number;
+  samplesPerPixel: number;
+  photometric: string;
+  bitsAllocated: number;
+  bitsStored: number;
+  pixelRepresentation: number;
+  numberOfFrames: number;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+  modality?: string;
+  pixelSpacing?: [number, number]; // [row, column] in mm
+  seriesInstanceUid?: string;
+  sopInstanceUid?: string;
+  instanceNumber?: number;
+  windowCenter?: number;
+  windowWidth?: number;
+}
+
+/**
+ * Parses the flat top-level element list of a DICOM byte stream.
+ */
+const parseElements = (
+  bytes: Uint8Array,
+  start: number,
+  littleEndian: boolean,
+  explicit: boolean,
+  elements: Map<number, DicomElement>,
+  stopAtGroupChange?: number
+): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (pos: number, len: number) => String.fromCharCode(...bytes.subarray(pos, pos + len));
+
+  // Reads one element header; returns the value offset and length
+  const readHeader = (pos: number, le: boolean, isExplicit: boolean) => {
+    const t = tag(view.getUint16(pos, le), view.getUint16(pos + 2, le));
+    if (t >>> 16 === 0xfffe) {
+      return { t, vr: null, valueOffset: pos + 8, length: view.getUint32(pos + 4, le) };
+    }
+    if (isExplicit) {
+      const vr = ascii(pos + 4, 2);
+      if (LONG_VRS.has(vr)) {
+        return { t, vr, valueOffset: pos + 12, length: view.getUint32(pos + 8, le) };
+      }
+      return { t, vr, valueOffset: pos + 8, length: view.getUint16(pos + 6, le) };
+    }
+    return { t, vr: null, valueOffset: pos + 8, length: view.getUint32(pos + 4, le) };
+  };
+
+  // Skips a sequence of undefined length, including nested undefined-length items
+  const skipUndefined = (pos: number): number => {
+    while (pos + 8 <= bytes.length) {
+      const { t, valueOffset, length } = readHeader(pos, littleEndian, explicit);
+      if (t === TAGS.sequenceDelimiter) return valueOffset;
+      if (t === TAGS.item && length !== UNDEFINED_LENGTH) {
+        pos = valueOffset + length;
+      } else if (t === TAGS.item) {
+        pos = skipItem(valueOffset);
+      } else {
+        pos = valueOffset + (length === UNDEFINED_LENGTH ? 0 : length);
+      }
+    }
+    return bytes.length;
+  };
+
+  const skipItem = (pos: number): number => {
+    while (pos + 8 <= bytes.length) {
+      const { t, valueOffset, length } = readHeader(pos, littleEndian, explicit);
+      if (t === TAGS.itemDelimiter) return valueOffset;
+      pos = length === UNDEFINED_LENGTH ? skipUndefined(valueOffset) : valueOffset + length;
+    }
+    return bytes.length;
+  };
+
+  let pos = start;
+  while (pos + 8 <= bytes.length) {
+    if (stopAtGroupChange !== undefined && view.getUint16(pos, true) !== stopAtGroupChange) break;
+
+    const { t, valueOffset, length } = readHeader(pos, littleEndian, explicit);
+
+    if (length === UNDEFINED_LENGTH) {
+      if (t === TAGS.pixelData) {
+        // Encapsulated pixel data: a basic offset table item followed by fragments
+        const fragments: Uint8Array[] = [];
+        let p = valueOffset;
+        while (p + 8 <= bytes.length) {
+          const item = readHeader(p, true, false);
+          if (item.t === TAGS.sequenceDelimiter) {
+            p = item.valueOffset;
+            break;
+          }
+          fragments.push(bytes.subarray(item.valueOffset, item.valueOffset + item.length));
+          p = item.valueOffset + item.length;
+        }
+        elements.set(t, { offset: valueOffset, length: 0, littleEndian, fragments });
+        pos = p;
+      } else {
+        pos = skipUndefined(valueOffset);
+      }
+      continue;
+    }
+
+    elements.set(t, { offset: valueOffset, length, littleEndian });
+    pos = valueOffset + length;
+  }
+  return pos;
+};
+
+/**
+ * Inflates the dataset of a Deflated Explicit VR Little Endian file.
+ */
+const inflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Decodes one RLE Lossless frame into little-endian interleaved sample bytes.
+ */
+const decodeRleFrame = (frame: Uint8Array, pixelCount: number, samples: number, bytesPerSample: number): Uint8Array => {
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const segmentCount = view.getUint32(0, true);
+  const offsets: number[] = [];
+  for (let i = 0; i < segmentCount; i++) offsets.push(view.getUint32(4 + i * 4, true));
+
+  const out = new Uint8Array(pixelCount * samples * bytesPerSample);
+  const segment = new Uint8Array(pixelCount);
+
+  for (let s = 0; s < segmentCount; s++) {
+    // PackBits decoding of one segment
+    segment.fill(0);
+    let p = offsets[s];
+    const end = s + 1 < segmentCount ? offsets[s + 1] : frame.length;
+    let o = 0;
+    while (o < pixelCount && p < end) {
+      const n = (frame[p++] << 24) >> 24;
+      if (n >= 0) {
+        const count = Math.min(n + 1, pixelCount - o);
+        segment.set(frame.subarray(p, p + count), o);
+        p += n + 1;
+        o += count;
+      } else if (n > -128) {
+        const count = Math.min(1 - n, pixelCount - o);
+        segment.fill(frame[p++], o, o + count);
+        o += count;
+      }
+    }
+
+    // Segments are ordered most significant byte first for each sample
+    const sample = Math.floor(s / bytesPerSample);
+    const significance = bytesPerSample - 1 - (s % bytesPerSample);
+    for (let i = 0; i < pixelCount; i++) {
+      out[(i * samples + sample) * bytesPerSample + significance] = segment[i];
+    }
+  }
+  return out;
+};
+
+/**
+ * Interprets raw sample bytes as a typed array of the given bit depth.
+ */
+const toTypedArray = (bytes: Uint8Array, bitsAllocated: number, signed: boolean, littleEndian: boolean): PixelArray => {
+  // Copy to an aligned buffer
+  const buffer = bytes.slice().buffer;
+  if (bitsAllocated === 8) return signed ? new Int8Array(buffer) : new Uint8Array(buffer);
+
+  const bytesPerSample = bitsAllocated / 8;
+  const count = Math.floor(bytes.length / bytesPerSample);
+  if (littleEndian) {
+    if (bitsAllocated === 16) return signed ? new Int16Array(buffer, 0, count) : new Uint16Array(buffer, 0, count);
+    if (bitsAllocated === 32) return signed ? new Int32Array(buffer, 0, count) : new Uint32Array(buffer, 0, count);
+  } else {
+    const view = new DataView(buffer);
+    if (bitsAllocated === 16) {
+      const out = signed ? new Int16Array(count) : new Uint16Array(count);
+      for (let i = 0; i < count; i++) out[i] = signed ? view.getInt16(i * 2, false) : view.getUint16(i * 2, false);
+      return out;
+    }
+    if (bitsAllocated === 32) {
+      const out = signed ? new Int32Array(count) : new Uint32Array(count);
+      for (let i = 0; i < count; i++) out[i] = signed ? view.getInt32(i * 4, false) : view.getUint32(i * 4, false);
+      return out;
+    }
+  }
+  throw new Error(`Unsupported Bits Allocated: ${bitsAllocated}`);
+};
+
+/**
+ * Converts YBR_FULL samples to RGB in place.
+ */
+const ybrToRgb = (data: Uint8Array) => {
+  for (let i = 0; i < data.length; i += 3) {
+    const y = data[i];
+    const cb = data[i + 1] - 128;
+    const cr = data[i + 2] - 128;
+    data[i] = Math.min(255, Math.max(0, Math.round(y + 1.402 * cr)));
+    data[i + 1] = Math.min(255, Math.max(0, Math.round(y - 0.344136 * cb - 0.714136 * cr)));
+    data[i + 2] = Math.min(255, Math.max(0, Math.round(y + 1.772 * cb)));
+  }
+};
+
+/**
+ * Parses a DICOM file and decodes the first frame of its pixel data.
+ */
+export const parseDicom = async (buffer: ArrayBuffer): Promise<{ raster: RasterImage; info: DicomInfo }> => {
+  let bytes: Uint8Array = new Uint8Array(buffer);
+  const hasPreamble = bytes.length > 132 && String.fromCharCode(...bytes.subarray(128, 132)) === 'DICM';
+
+  // File meta information (group 0002) is always Explicit VR Little Endian
+  const meta = new Map<number, DicomElement>();
+  let pos = 0;
+  if (hasPreamble) {
+    pos = parseElements(bytes, 132, true, true, meta, 0x0002);
+  }
+  const readMetaString = (t: number) => {
+    const el = meta.get(t);
+    if (!el) return undefined;
+    return String.fromCharCode(...bytes.subarray(el.offset, el.offset + el.length)).replace(/[\0\s]+$/, '');
+  };
+
+  const transferSyntaxUid = readMetaString(TAGS.transferSyntaxUid) || TS_IMPLICIT_LE;
+  if (!(transferSyntaxUid in TRANSFER_SYNTAX_NAMES)) {
+    throw new Error(`Unsupported DICOM transfer syntax ${transferSyntaxUid} (compressed formats other than RLE are not supported).`);
+  }
+
+  const littleEndian = transferSyntaxUid !== TS_EXPLICIT_BE;
+  const explicit = transferSyntaxUid !== TS_IMPLICIT_LE;
+
+  if (transferSyntaxUid === TS_DEFLATED_LE) {
+    bytes = await inflateRaw(bytes.subarray(pos));
+    pos = 0;
+  }
+
+  const elements = new Map<number, DicomElement>();
+  parseElements(bytes, pos, littleEndian, explicit, elements);
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readString = (t: number) => {
+    const el = elements.get(t);
+    if (!el) return undefined;
+    const value = String.fromCharCode(...bytes.subarray(el.offset, el.offset + el.length)).replace(/[\0\s]+$/, '').trim();
+    return value || undefined;
+  };
+  const readNumbers = (t: number) => (readString(t) || '').split('\\').map(parseFloat).filter(v => !isNaN(v));
+  const readUS = (t: number, fallback: number) => {
+    const el = elements.get(t);
+    return el && el.length >= 2 ? view.getUint16(el.offset, el.littleEndian) : fallback;
+  };
+
+  const spacing = readNumbers(TAGS.pixelSpacing);
+  const info: DicomInfo = {
+    transferSyntaxUid,
+    rows: readUS(TAGS.rows, 0),
+    columns: readUS(TAGS.columns, 0),
+    samplesPerPixel: readUS(TAGS.samplesPerPixel, 1),
+    photometric: readString(TAGS.photometric) || 'MONOCHROME2',
+    bitsAllocated: readUS(TAGS.bitsAllocated, 16),
+    bitsStored: readUS(TAGS.bitsStored, readUS(TAGS.bitsAllocated, 16)),
+    pixelRepresentation: readUS(TAGS.pixelRepresentation, 0),
+    numberOfFrames: readNumbers(TAGS.numberOfFrames)[0] || 1,
+    rescaleSlope: readNumbers(TAGS.rescaleSlope)[0] ?? 1,
+    rescaleIntercept: readNumbers(TAGS.rescaleIntercept)[0] ?? 0,
+    modality: readString(TAGS.modality),
+    pixelSpacing: spacing.length >= 2 ? [spacing[0], spacing[1]] : undefined,
+    seriesInstanceUid: readString(TAGS.seriesInstanceUid),
+    sopInstanceUid: readString(TAGS.sopInstanceUid),
+    instanceNumber: readNumbers(TAGS.instanceNumber)[0],
+    windowCenter: readNumbers(TAGS.windowCenter)[0],
+    windowWidth: readNumbers(TAGS.windowWidth)[0],
+  };
+
+  const { rows, columns, samplesPerPixel, bitsAllocated } = info;
+  if (!rows || !columns) throw new Error("DICOM file has no image dimensions.");
+  if (samplesPerPixel !== 1 && samplesPerPixel !== 3) {
+    throw new Error(`Unsupported Samples Per Pixel: ${samplesPerPixel}`);
+  }
+
+  const pixelElement = elements.get(TAGS.pixelData);
+  if (!pixelElement) throw new Error("DICOM file contains no pixel data.");
+
+  const pixelCount = rows * columns;
+  const bytesPerSample = bitsAllocated / 8;
+  const frameBytes = pixelCount * samplesPerPixel * bytesPerSample;
+
+  // 1. Extract the raw bytes of the first frame
+  let frame: Uint8Array;
+  let frameLittleEndian = littleEndian;
+  let interleaved = readUS(TAGS.planarConfiguration, 0) === 0;
+  if (pixelElement.fragments) {
+    if (transferSyntaxUid !== TS_RLE_LOSSLESS) throw new Error("Encapsulated pixel data requires RLE Lossless.");
+    // Skip the basic offset table; multi-frame files store one fragment per frame
+    const fragments = pixelElement.fragments.slice(1);
+    const encoded = info.numberOfFrames > 1 ? fragments[0] : concatBytes(fragments);
+    frame = decodeRleFrame(encoded, pixelCount, samplesPerPixel, bytesPerSample);
+    frameLittleEndian = true;
+    interleaved = true;
+  } else {
+    if (bitsAllocated === 1) throw new Error("1-bit DICOM pixel data is not supported.");
+    frame = bytes.subarray(pixelElement.offset, pixelElement.offset + Math.min(frameBytes, pixelElement.length));
+  }
+
+  // 2. Color images: always 8-bit interleaved RGB
+  if (samplesPerPixel === 3) {
+    if (bitsAllocated !== 8) throw new Error("Only 8-bit color DICOM is supported.");
+    let rgb = new Uint8Array(frame);
+    if (!interleaved) {
+      rgb = new Uint8Array(pixelCount * 3);
+      for (let i = 0; i < pixelCount; i++) {
+        for (let c = 0; c < 3; c++) rgb[i * 3 + c] = frame[c * pixelCount + i];
+      }
+    }
+    if (info.photometric.startsWith('YBR_FULL')) ybrToRgb(rgb);
+    const { min, max } = getValueRange(rgb);
+    return {
+      raster: { width: columns, height: rows, channels: 3, data: rgb, min, max, defaultWindow: rangeWindow(0, 255) },
+      info
+    };
+  }
+
+  // 3. Grayscale: mask/sign-extend to Bits Stored, then apply the modality rescale
+  let data = toTypedArray(frame, bitsAllocated, info.pixelRepresentation === 1, frameLittleEndian);
+  const { bitsStored } = info;
+  if (bitsStored < bitsAllocated && bitsAllocated <= 32) {
+    const shift = 32 - bitsStored;
+    const mask = bitsStored >= 32 ? 0xffffffff : (1 << bitsStored) - 1;
+    for (let i = 0; i < data.length; i++) {
+      const raw = data[i] & mask;
+      data[i] = info.pixelRepresentation === 1 ? (raw << shift) >> shift : raw;
+    }
+  }
+
+  if (info.rescaleSlope !== 1 || info.rescaleIntercept !== 0) {
+    const rescaled = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i++) rescaled[i] = data[i] * info.rescaleSlope + info.rescaleIntercept;
+    data = rescaled;
+  }
+
+  const { min, max } = getValueRange(data);
+  const raster: RasterImage = {
+    width: columns,
+    height: rows,
+    channels: 1,
+    data,
+    min,
+    max,
+    defaultWindow: rangeWindow(min, max),
+    invertDisplay: info.photometric === 'MONOCHROME1'
+  };
+
+  // Prefer the window stored in the file; otherwise derive one from the histogram
+  raster.defaultWindow = info.windowCenter !== undefined && info.windowWidth
+    ? { center: info.windowCenter, width: info.windowWidth }
+    : computeAutoWindow(raster);
+
+  return { raster, info };
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  chunks.forEach(c => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  return out;
+};
+
+/**
+ * Key tags shown next to the image, in display order.
+ */
+export const describeDicom = (info: DicomInfo): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  if (info.modality) entries['Modality'] = info.modality;
+  if (info.pixelSpacing) entries['Pixel Spacing'] = `${info.pixelSpacing[0]} x ${info.pixelSpacing[1]} mm`;
+  if (info.seriesInstanceUid) entries['Series UID'] = info.seriesInstanceUid;
+  if (info.sopInstanceUid) entries['Instance UID'] = info.sopInstanceUid;
+  if (info.instanceNumber !== undefined) entries['Instance No.'] = `${info.instanceNumber}`;
+  entries['Bits Stored'] = `${info.bitsStored}${info.pixelRepresentation === 1 ? ' (signed)' : ''}`;
+  if (info.rescaleSlope !== 1 || info.rescaleIntercept !== 0) {
+    entries['Rescale'] = `${info.rescaleSlope}x ${info.rescaleIntercept < 0 ? '-' : '+'} ${Math.abs(info.rescaleIntercept)}`;
+  }
+  entries['Transfer Syntax'] = TRANSFER_SYNTAX_NAMES[info.transferSyntaxUid] || info.transferSyntaxUid;
+  return entries;
+};
+
+/**
+ * Reads a .dcm file into a raster with DICOM tags attached as metadata.
+ */
+export const decodeDicomFile = async (file: File): Promise<RasterImage> => {
+  const { raster, info } = await parseDicom(await file.arrayBuffer());
+  return { ...raster, metadata: describeDicom(info) };
+};
@@ -0,0 +1,74 @@
+/**
+ * Directory handles (File System Access API, Chromium only) for image folders, so a saved
+ * session can read the same folder again after a reload without the user dropping it in.
+ * Other browsers fall back to plain file lists and never produce a handle.
+ */
+
+// Parts of the API the DOM typings leave out
+type PermissionMode = { mode: 'read' };
+interface ReadableDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterable<FileSystemHandle>;
+  queryPermission(descriptor: PermissionMode): Promise<PermissionState>;
+  requestPermission(descriptor: PermissionMode): Promise<PermissionState>;
+}
+type DirectoryPicker = (options?: { mode?: 'read' }) => Promise<FileSystemDirectoryHandle>;
+type HandleItem = DataTransferItem & { getAsFileSystemHandle?: () => Promise<FileSystemHandle | null> };
+
+export const supportsDirectoryPicker = (): boolean =>
+  typeof (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker === 'function';
+
+/**
+ * Asks the user for a folder; null when the dialog is dismissed.
+ */
+export const pickDirectory = async (): Promise<FileSystemDirectoryHandle | null> => {
+  const picker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+  try {
+    return await picker({ mode: 'read' });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return null;
+    throw err;
+  }
+};
+
+/**
+ * Handles of the folders in a drop. Must be called synchronously in the drop handler,
+ * before the DataTransfer is cleared; resolves to [] where the browser has no handles.
+ */
+export const getDroppedDirectoryHandles = (items: DataTransferItemList): Promise<FileSystemDirectoryHandle[]> => {
+  const pending = Array.from(items)
+    .map(item => (item as HandleItem).getAsFileSystemHandle?.())
+    .filter((handle): handle is Promise<FileSystemHandle | null> => !!handle);
+  return Promise.all(pending)
+    .then(handles => handles.filter((handle): handle is FileSystemDirectoryHandle => handle?.kind === 'directory'))
+    .catch(() => []);
+};
+
+/**
+ * All files below a folder. Like dropped folders, each file gets its path (starting with the
+ * folder name) as webkitRelativePath, for matching against file_name.
+ */
+export const readDirectoryFiles = async (handle: FileSystemDirectoryHandle, path = handle.name): Promise<File[]> => {
+  const files: File[] = [];
+  for await (const entry of (handle as ReadableDirectoryHandle).values()) {
+    const entryPath = `${path}/${entry.name}`;
+    if (entry.kind === 'file') {
+      const file = await (entry as FileSystemFileHandle).getFile();
+      Object.defineProperty(file, 'webkitRelativePath', { value: entryPath });
+      files.push(file);
+    } else {
+      files.push(...await readDirectoryFiles(entry as FileSystemDirectoryHandle, entryPath));
+    }
+  }
+  return files;
+};
+
+/**
+ * Whether the folder can be read. Permission lapses when the page is reloaded; asking again
+ * (`request`) shows a browser prompt and only works from a user gesture such as a click.
+ */
+export const hasReadPermission = async (handle: FileSystemDirectoryHandle, request = false): Promise<boolean> => {
+  const readable = handle as ReadableDirectoryHandle;
+  if (typeof readable.queryPermission !== 'function') return true;
+  if (await readable.queryPermission({ mode: 'read' }) === 'granted') return true;
+  return request && await readable.requestPermission({ mode: 'read' }) === 'granted';
+};
@@ -0,0 +1,65 @@
+import { RasterImage, decodeImageFile } from './raster';
+import { decodeDicomFile } from './dicom';
+import { decodePng, needsFullDepthDecode, readPngHeader } from './png';
+import { decodeTiff } from './tiff';
+
+/**
+ * File extensions the image loader understands, without the dot.
+ */
+export const SUPPORTED_IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'tif', 'tiff', 'dcm', 'dicom'];
+
+export const isSupportedImageFile = (file: File): boolean =>
+  SUPPORTED_IMAGE_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() || '');
+
+/**
+ * Decodes any supported image file into a raster, dispatching on the extension.
+ * 16-bit PNGs are decoded in JS because the browser reduces them to 8 bits.
+ */
+export const loadImageFile = async (file: File): Promise<RasterImage> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (extension === 'dcm' || extension === 'dicom') {
+    return decodeDicomFile(file);
+  }
+  if (extension === 'tif' || extension === 'tiff') {
+    return decodeTiff(await file.arrayBuffer());
+  }
+  if (extension === 'png') {
+    const buffer = await file.arrayBuffer();
+    const header = readPngHeader(new Uint8Array(buffer));
+    if (header && needsFullDepthDecode(header)) {
+      return decodePng(buffer);
+    }
+  }
+  return decodeImageFile(file);
+};
+
+// JPEG start-of-frame markers (baseline, progressive, ...); C4, C8 and CC are other segments
+const isJpegFrameMarker = (marker: number) => marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+// Bytes read when looking for a JPEG frame header (it follows EXIF data, which may hold a thumbnail)
+const JPEG_HEADER_BYTES = 1024 * 1024;
+
+/**
+ * Width and height of an image file. PNG and JPEG sizes come from their headers;
+ * other formats are decoded.
+ */
+export const readImageSize = async (file: File): Promise<{ width: number; height: number }> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (extension === 'png') {
+    const header = readPngHeader(new Uint8Array(await file.slice(0, 33).arrayBuffer()));
+    if (header) return { width: header.width, height: header.height };
+  }
+  if (extension === 'jpg' || extension === 'jpeg') {
+    const bytes = new Uint8Array(await file.slice(0, JPEG_HEADER_BYTES).arrayBuffer());
+    let pos = 2;
+    while (pos + 9 < bytes.length && bytes[pos] === 0xff) {
+      const marker = bytes[pos + 1];
+      if (isJpegFrameMarker(marker)) {
+        return { height: (bytes[pos + 5] << 8) | bytes[pos + 6], width: (bytes[pos + 7] << 8) | bytes[pos + 8] };
+      }
+      pos += 2 + ((bytes[pos + 2] << 8) | bytes[pos + 3]);
+    }
+  }
+  const raster = await loadImageFile(file);
+  return { width: raster.width, height: raster.height };
+};
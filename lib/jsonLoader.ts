@@ -0,0 +1,92 @@
+import { DatasetIndex, createDatasetIndex, extendDatasetIndex, isCocoJson } from './datasetIndex';
+
+/**
+ * Parses JSON files in a Web Worker (see jsonParser.worker.ts), keeping the page responsive
+ * on multi-GB annotation files. Large arrays come back in batches, each deserialized in its own
+ * task, so the page is never blocked by one huge message; the index is built as they arrive.
+ */
+
+export interface JsonWorkerRequest {
+  file: File;
+}
+
+export type JsonWorkerMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  // A batch of a large array: a COCO member (images, annotations, categories), or the root array when key is null
+  | { type: 'chunk'; key: string | null; items: unknown[]; total: number }
+  | { type: 'done'; json: unknown } // The chunked arrays are left empty here
+  | { type: 'error'; message: string };
+
+// Bytes while the file is read, then array elements while they are received
+export type LoadProgressUnit = 'bytes' | 'items';
+
+export interface JsonLoadOptions {
+  buildIndex?: boolean;
+  onProgress?: (loaded: number, total: number, unit: LoadProgressUnit) => void;
+  signal?: AbortSignal; // Aborting terminates the worker and rejects with an AbortError
+}
+
+export interface JsonLoadResult {
+  json: unknown;
+  index: DatasetIndex | null;
+}
+
+export const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+export const parseJsonFile = (file: File, options: JsonLoadOptions = {}): Promise<JsonLoadResult> => {
+  const { buildIndex = false, onProgress, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Loading cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./jsonParser.worker.ts', import.meta.url), { type: 'module' });
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Loading cancelled', 'AbortError'));
+    };
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    const chunks = new Map<string | null, unknown[]>();
+    const index = buildIndex ? createDatasetIndex() : null;
+    let received = 0;
+
+    worker.onmessage = (e: MessageEvent<JsonWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.loaded, message.total, 'bytes');
+      } else if (message.type === 'chunk') {
+        const list = chunks.get(message.key);
+        if (list) message.items.forEach(item => list.push(item));
+        else chunks.set(message.key, message.items);
+        if (index && message.key !== null) extendDatasetIndex(index, { [message.key]: message.items });
+        received += message.items.length;
+        onProgress?.(received, message.total, 'items');
+      } else if (message.type === 'done') {
+        cleanup();
+        let json = message.json;
+        if (chunks.has(null)) json = chunks.get(null);
+        else chunks.forEach((items, key) => {
+          (json as Record<string, unknown>)[key as string] = items;
+        });
+        resolve({ json, index: index && isCocoJson(json) ? index : null });
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      cleanup();
+      reject(new Error(e.message || 'JSON worker failed'));
+    };
+
+    const request: JsonWorkerRequest = { file };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,56 @@
+import { createJsonCollector } from './jsonStream';
+import { isCocoJson } from './datasetIndex';
+import type { JsonWorkerRequest, JsonWorkerMessage } from './jsonLoader';
+
+// Progress messages are throttled to this interval
+const PROGRESS_INTERVAL_MS = 100;
+// Array elements per message; small enough that deserializing one does not stall the page
+const CHUNK_SIZE = 5000;
+
+const post = (message: JsonWorkerMessage) => self.postMessage(message);
+
+// Sends large arrays in batches (see jsonLoader), then the rest of the document
+const postResult = (json: unknown) => {
+  const arrays: [string | null, unknown[]][] = Array.isArray(json)
+    ? [[null, json]]
+    : isCocoJson(json) ? [['categories', json.categories], ['images', json.images], ['annotations', json.annotations]] : [];
+  const total = arrays.reduce((sum, [, items]) => sum + items.length, 0);
+
+  arrays.forEach(([key, items]) => {
+    for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+      post({ type: 'chunk', key, items: items.slice(i, i + CHUNK_SIZE), total });
+    }
+  });
+  const rest = Array.isArray(json) ? [] : isCocoJson(json) ? { ...json, categories: [], images: [], annotations: [] } : json;
+  post({ type: 'done', json: rest });
+};
+
+self.onmessage = async (e: MessageEvent<JsonWorkerRequest>) => {
+  const { file } = e.data;
+  try {
+    const collector = createJsonCollector();
+    const decoder = new TextDecoder();
+    const reader = file.stream().getReader();
+    let loaded = 0;
+    let lastReport = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      loaded += value.byteLength;
+      collector.write(decoder.decode(value, { stream: true }));
+
+      const now = performance.now();
+      if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        post({ type: 'progress', loaded, total: file.size });
+      }
+    }
+    collector.write(decoder.decode());
+    post({ type: 'progress', loaded, total: file.size });
+
+    postResult(collector.end());
+  } catch (err: any) {
+    post({ type: 'error', message: err.message });
+  }
+};
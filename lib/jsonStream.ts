@@ -0,0 +1,192 @@
+/**
+ * Incremental JSON parsing for files too large for one JSON.parse call (or one string).
+ * Text is fed in chunks; each element of a top-level array, or of an array under a key of a
+ * top-level object (COCO's images / annotations / categories), is parsed on its own,
+ * so only one element is ever held as text.
+ */
+
+export interface JsonCollector {
+  write: (text: string) => void;
+  end: () => unknown; // The parsed document
+}
+
+const QUOTE = 34;
+const BACKSLASH = 92;
+const COMMA = 44;
+const COLON = 58;
+const OPEN_BRACE = 123;
+const CLOSE_BRACE = 125;
+const OPEN_BRACKET = 91;
+const CLOSE_BRACKET = 93;
+const BOM = 0xfeff;
+
+const isWhitespace = (c: number) => c === 32 || c === 10 || c === 13 || c === 9;
+
+// What may come next between members of the root object
+type MemberState =
+  | 'keyOrEnd' // After "{": a key or "}"
+  | 'key' // After ",": a key
+  | 'colon'
+  | 'value' // After ":": the value starts
+  | 'inValue' // Inside a captured value, ended by "," or "}"
+  | 'commaOrEnd'; // After a collected array: "," or "}"
+
+export const createJsonCollector = (): JsonCollector => {
+  let root: unknown = undefined;
+  // Members of the root object; null when the root is an array
+  let members: Record<string, unknown> | null = null;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let finished = false;
+
+  // Array whose elements are being collected, and the depth its elements start at
+  let target: unknown[] | null = null;
+  let elementDepth = 1;
+  let afterComma = false;
+
+  // Root object members: "key": value
+  let key = '';
+  let memberState: MemberState = 'keyOrEnd';
+
+  // Text being captured; starts at captureStart in the current chunk, earlier chunks are in carry
+  let captureKind: 'key' | 'value' | 'element' | null = null;
+  let captureStart = 0;
+  let carry = '';
+
+  const write = (text: string) => {
+    const begin = (kind: 'key' | 'value' | 'element', i: number) => {
+      captureKind = kind;
+      captureStart = i;
+      carry = '';
+    };
+    const take = (end: number) => {
+      const captured = carry + text.slice(captureStart, end);
+      captureKind = null;
+      carry = '';
+      return captured;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const c = text.charCodeAt(i);
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === BACKSLASH) escaped = true;
+        else if (c === QUOTE) {
+          inString = false;
+          if (captureKind === 'key') {
+            key = JSON.parse(take(i + 1));
+            memberState = 'colon';
+          }
+        }
+        continue;
+      }
+      if (isWhitespace(c)) continue;
+
+      if (depth === 0) {
+        if (finished || root !== undefined) throw new SyntaxError(`Unexpected character "${text[i]}" after the end of the JSON document`);
+        if (c === OPEN_BRACE) {
+          members = {};
+          root = members;
+          memberState = 'keyOrEnd';
+          depth = 1;
+        } else if (c === OPEN_BRACKET) {
+          target = [];
+          root = target;
+          elementDepth = 1;
+          afterComma = false;
+          depth = 1;
+        } else if (c !== BOM) {
+          throw new SyntaxError('Expected a JSON object or array');
+        }
+        continue;
+      }
+
+      if (target && depth === elementDepth) {
+        // Between elements of the collected array
+        if (c === COMMA || c === CLOSE_BRACKET) {
+          if (captureKind === 'element') target.push(JSON.parse(take(i)));
+          else if (c === COMMA || afterComma) throw new SyntaxError(`Unexpected "${text[i]}" in array`);
+          afterComma = c === COMMA;
+          if (c === CLOSE_BRACKET) {
+            target = null;
+            depth--;
+            if (depth === 0) finished = true;
+          }
+          continue;
+        }
+        if (captureKind === null) {
+          begin('element', i);
+          afterComma = false;
+        }
+      } else if (depth === 1 && members) {
+        // Between members of the root object; anything out of place is an error, as in JSON.parse
+        const unexpected = () => new SyntaxError(`Unexpected "${text[i]}" in JSON object`);
+        switch (memberState) {
+          case 'keyOrEnd':
+          case 'key':
+            if (c === QUOTE) {
+              begin('key', i);
+            } else if (c === CLOSE_BRACE && memberState === 'keyOrEnd') {
+              depth = 0;
+              finished = true;
+              continue;
+            } else {
+              throw unexpected();
+            }
+            break;
+          case 'colon':
+            if (c !== COLON) throw unexpected();
+            memberState = 'value';
+            continue;
+          case 'value':
+            if (c === COMMA || c === CLOSE_BRACE) throw unexpected();
+            if (c === OPEN_BRACKET) {
+              target = [];
+              members[key] = target;
+              elementDepth = 2;
+              afterComma = false;
+              depth = 2;
+              memberState = 'commaOrEnd';
+              continue;
+            }
+            begin('value', i);
+            memberState = 'inValue';
+            break;
+          case 'inValue':
+          case 'commaOrEnd':
+            if (c === COMMA || c === CLOSE_BRACE) {
+              // JSON.parse rejects anything else caught in the value, e.g. a missing comma
+              if (memberState === 'inValue') members[key] = JSON.parse(take(i));
+              memberState = 'key';
+              if (c === CLOSE_BRACE) {
+                depth = 0;
+                finished = true;
+              }
+              continue;
+            }
+            if (memberState === 'commaOrEnd') throw unexpected();
+            break;
+        }
+      }
+
+      if (c === QUOTE) inString = true;
+      else if (c === OPEN_BRACE || c === OPEN_BRACKET) depth++;
+      else if (c === CLOSE_BRACE || c === CLOSE_BRACKET) depth--;
+    }
+
+    // Keep the unfinished capture for the next chunk
+    if (captureKind !== null) {
+      carry += text.slice(captureStart);
+      captureStart = 0;
+    }
+  };
+
+  const end = () => {
+    if (!finished) throw new SyntaxError('Unexpected end of JSON input');
+    return root;
+  };
+
+  return { write, end };
+};
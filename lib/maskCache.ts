@@ -0,0 +1,207 @@
+import { COCOAnnotation, COCORLE, COCOPolygon } from '../types';
+import { segmentationToRle, getRleCounts, rleToStencil, rleToBoundary } from '../utils';
+import { createWorkerPool, WorkerPool } from './workerPool';
+
+/**
+ * Decoded annotation masks, kept across images and display changes.
+ * Masks are decoded by a pool of workers into stencils cropped to the mask's bounding box;
+ * tinted copies are made per color on first use. Each mask also keeps its boundary, for outlines.
+ */
+
+export interface MaskDecodeRequest {
+  segmentation: COCORLE | COCOPolygon;
+  height: number; // Image size, for rasterizing polygons
+  width: number;
+}
+
+export interface MaskDecodeResult {
+  size: [number, number]; // [h, w] of the decoded RLE, which may differ from the image
+  crop: { x: number; y: number; width: number; height: number; pixels: Uint8ClampedArray<ArrayBuffer> } | null;
+  boundary: Float32Array<ArrayBuffer> | null; // Pixel-edge segments in RLE pixels (see rleToBoundary)
+}
+
+// A tinted mask and where to draw it, in image coordinates, with its boundary for outlines
+export interface MaskLayer {
+  canvas: HTMLCanvasElement;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  outline: Path2D;
+}
+
+interface CacheEntry {
+  segmentation: COCORLE | COCOPolygon; // The decoded object; a changed annotation gets a new one
+  imageWidth: number;
+  imageHeight: number;
+  stencil: HTMLCanvasElement | null; // null for empty masks
+  rect: { x: number; y: number; width: number; height: number };
+  outline: Path2D;
+  layers: Map<string, HTMLCanvasElement>; // Keyed by color
+  bytes: number;
+}
+
+// Least recently used masks are dropped past this many bytes of canvas pixels
+const MAX_CACHE_BYTES = 384 * 1024 * 1024;
+
+const cache = new Map<number, CacheEntry>(); // Annotation id -> entry, in least recently used order
+const pending = new Map<number, Promise<CacheEntry>>();
+let cacheBytes = 0;
+let pool: WorkerPool<MaskDecodeRequest, MaskDecodeResult> | null = null;
+
+const getPool = () => {
+  if (!pool) {
+    const size = Math.min(Math.max((navigator.hardwareConcurrency || 2) - 1, 1), 4);
+    pool = createWorkerPool<MaskDecodeRequest, MaskDecodeResult>(
+      () => new Worker(new URL('./maskDecoder.worker.ts', import.meta.url), { type: 'module' }),
+      size
+    );
+  }
+  return pool;
+};
+
+// Same decoding as the worker, for when workers are unavailable
+const decodeOnMainThread = (request: MaskDecodeRequest): MaskDecodeResult => {
+  const rle = segmentationToRle(request.segmentation, request.height, request.width);
+  const counts = rle && getRleCounts(rle);
+  const crop = rle && counts ? rleToStencil(counts, rle.size[0], rle.size[1]) : null;
+  return {
+    size: rle ? rle.size : [request.height, request.width],
+    crop,
+    boundary: rle && counts && crop ? rleToBoundary(counts, rle.size[0], rle.size[1]) : null,
+  };
+};
+
+const decode = async (request: MaskDecodeRequest): Promise<MaskDecodeResult> => {
+  if (typeof Worker === 'undefined') return decodeOnMainThread(request);
+  try {
+    return await getPool().run(request);
+  } catch (err) {
+    console.error('[MaskCache] Worker decode failed, decoding on the main thread', err);
+    return decodeOnMainThread(request);
+  }
+};
+
+const isFresh = (entry: CacheEntry, ann: COCOAnnotation, width: number, height: number) =>
+  entry.segmentation === ann.segmentation && entry.imageWidth === width && entry.imageHeight === height;
+
+const forget = (id: number) => {
+  const entry = cache.get(id);
+  if (!entry) return;
+  cache.delete(id);
+  cacheBytes -= entry.bytes;
+};
+
+const remember = (id: number, entry: CacheEntry) => {
+  forget(id);
+  cache.set(id, entry);
+  cacheBytes += entry.bytes;
+  for (const oldest of cache.keys()) {
+    if (cacheBytes <= MAX_CACHE_BYTES || oldest === id) break;
+    forget(oldest);
+  }
+};
+
+const buildEntry = (ann: COCOAnnotation, width: number, height: number, result: MaskDecodeResult): CacheEntry => {
+  const entry: CacheEntry = {
+    segmentation: ann.segmentation,
+    imageWidth: width,
+    imageHeight: height,
+    stencil: null,
+    rect: { x: 0, y: 0, width: 0, height: 0 },
+    outline: new Path2D(),
+    layers: new Map(),
+    bytes: 0,
+  };
+  const { crop, boundary, size } = result;
+  if (!crop) return entry;
+
+  const stencil = document.createElement('canvas');
+  stencil.width = crop.width;
+  stencil.height = crop.height;
+  const ctx = stencil.getContext('2d');
+  if (!ctx) return entry;
+  ctx.putImageData(new ImageData(crop.pixels, crop.width, crop.height), 0, 0);
+
+  // RLE pixels map onto the whole image, as if the mask were drawn stretched to the image size
+  const scaleX = width / size[1];
+  const scaleY = height / size[0];
+  entry.stencil = stencil;
+  entry.rect = { x: crop.x * scaleX, y: crop.y * scaleY, width: crop.width * scaleX, height: crop.height * scaleY };
+  entry.bytes = crop.width * crop.height * 4 + (boundary ? boundary.byteLength : 0);
+  if (boundary) {
+    for (let i = 0; i < boundary.length; i += 4) {
+      entry.outline.moveTo(boundary[i] * scaleX, boundary[i + 1] * scaleY);
+      entry.outline.lineTo(boundary[i + 2] * scaleX, boundary[i + 3] * scaleY);
+    }
+  }
+  return entry;
+};
+
+const getTintedLayer = (id: number, entry: CacheEntry, color: [number, number, number]): MaskLayer | null => {
+  if (!entry.stencil) return null;
+  const key = color.join(',');
+  let canvas = entry.layers.get(key);
+  if (!canvas) {
+    canvas = document.createElement('canvas');
+    canvas.width = entry.stencil.width;
+    canvas.height = entry.stencil.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(entry.stencil, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = `rgb(${key})`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    entry.layers.set(key, canvas);
+    const bytes = canvas.width * canvas.height * 4;
+    entry.bytes += bytes;
+    if (cache.get(id) === entry) cacheBytes += bytes;
+  }
+  return { canvas, ...entry.rect, outline: entry.outline };
+};
+
+const getEntry = (ann: COCOAnnotation, width: number, height: number): Promise<CacheEntry> => {
+  const cached = cache.get(ann.id);
+  if (cached && isFresh(cached, ann, width, height)) {
+    remember(ann.id, cached); // Mark as recently used
+    return Promise.resolve(cached);
+  }
+  const inFlight = pending.get(ann.id);
+  if (inFlight) return inFlight.then(entry => isFresh(entry, ann, width, height) ? entry : getEntry(ann, width, height));
+
+  const promise: Promise<CacheEntry> = decode({ segmentation: ann.segmentation, height, width })
+    .then(result => {
+      const entry = buildEntry(ann, width, height, result);
+      remember(ann.id, entry);
+      return entry;
+    })
+    .finally(() => {
+      if (pending.get(ann.id) === promise) pending.delete(ann.id);
+    });
+  pending.set(ann.id, promise);
+  return promise;
+};
+
+/**
+ * Opaque, tinted mask layers for the annotations of one image, keyed by annotation id.
+ * Empty masks and masks that fail to decode are left out.
+ */
+export const loadMaskLayers = async (
+  annotations: COCOAnnotation[],
+  height: number,
+  width: number,
+  getColor: (ann: COCOAnnotation) => [number, number, number]
+): Promise<Map<number, MaskLayer>> => {
+  const layers = new Map<number, MaskLayer>();
+  await Promise.all(annotations.map(async ann => {
+    if (!ann.segmentation) return;
+    try {
+      const entry = await getEntry(ann, width, height);
+      const layer = getTintedLayer(ann.id, entry, getColor(ann));
+      if (layer) layers.set(ann.id, layer);
+    } catch (err) {
+      console.error(`[MaskCache] Failed to decode mask of annotation ${ann.id}`, err);
+    }
+  }));
+  return layers;
+};
@@ -0,0 +1,22 @@
+import { segmentationToRle, getRleCounts, rleToStencil, rleToBoundary } from '../utils';
+import type { WorkerTaskMessage, WorkerReplyMessage } from './workerPool';
+import type { MaskDecodeRequest, MaskDecodeResult } from './maskCache';
+
+self.onmessage = (e: MessageEvent<WorkerTaskMessage<MaskDecodeRequest>>) => {
+  const { taskId, request } = e.data;
+  try {
+    const rle = segmentationToRle(request.segmentation, request.height, request.width);
+    const counts = rle && getRleCounts(rle);
+    const crop = rle && counts ? rleToStencil(counts, rle.size[0], rle.size[1]) : null;
+    const result: MaskDecodeResult = {
+      size: rle ? rle.size : [request.height, request.width],
+      crop,
+      boundary: rle && counts && crop ? rleToBoundary(counts, rle.size[0], rle.size[1]) : null,
+    };
+    const reply: WorkerReplyMessage<MaskDecodeResult> = { taskId, result };
+    self.postMessage(reply, { transfer: crop && result.boundary ? [crop.pixels.buffer, result.boundary.buffer] : [] });
+  } catch (err: any) {
+    const reply: WorkerReplyMessage<MaskDecodeResult> = { taskId, error: err.message };
+    self.postMessage(reply);
+  }
+};
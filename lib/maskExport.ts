@@ -0,0 +1,172 @@
+import { COCOJson, COCOImage, COCOAnnotation } from '../types';
+import { segmentationToRle, getRleCounts, forEachRleSpan, decodeRleToMask, rleToPolygons, isRle, stripExtension } from '../utils';
+import { encodeGrayPng } from './png';
+import { createZipWriter } from './zip';
+
+/**
+ * Exports the dataset's masks for training pipelines, as a zip laid out like the JSON tree
+ * (each image's folders from its file_name):
+ * - YOLO-seg: one label .txt per image plus classes.txt
+ * - Semantic: one PNG per image with the category id as pixel value (0 is background), plus categories.json
+ * - Instances: one binary PNG (0 / 255) per annotation, in a folder per image
+ * Masks are rasterized the way the viewer draws them: polygons through pycocotools' rasterizer,
+ * RLE stretched to the image size, later annotations on top.
+ */
+
+export type MaskExportFormat = 'yolo' | 'semantic' | 'instances';
+
+export const MASK_EXPORT_FORMATS: { value: MaskExportFormat; label: string }[] = [
+  { value: 'yolo', label: 'YOLO-seg labels (.zip)' },
+  { value: 'semantic', label: 'Semantic mask PNGs (.zip)' },
+  { value: 'instances', label: 'Per-instance mask PNGs (.zip)' },
+];
+
+export interface MaskExportOptions {
+  imageIds?: Set<string> | null; // When set, only these images are exported
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Progress is reported (and the page allowed to repaint) after this many images
+const PROGRESS_INTERVAL = 20;
+
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Output path of an image without extension, keeping its folders (see buildFileTree)
+const getImageStem = (image: COCOImage) => {
+  const parts = image.file_name.split(/[/\\]/);
+  return [...parts.slice(0, -1), stripExtension(parts[parts.length - 1])].join('/');
+};
+
+const toFileNamePart = (name: string) => name.replace(/[^\w.-]+/g, '_');
+
+const hasMask = (ann: COCOAnnotation) => !!ann.segmentation && (isRle(ann.segmentation) || ann.segmentation.length > 0);
+
+/**
+ * Calls fn for every image pixel (row-major index) covered by the annotation's mask.
+ * RLE of another size is stretched to the image, as in the viewer.
+ */
+const forEachMaskPixel = (ann: COCOAnnotation, image: COCOImage, fn: (index: number) => void) => {
+  const { width, height } = image;
+  const rle = segmentationToRle(ann.segmentation, height, width);
+  const counts = rle && getRleCounts(rle);
+  if (!rle || !counts) return;
+  const [rh, rw] = rle.size;
+
+  if (rh === height && rw === width) {
+    forEachRleSpan(counts, height, (x, y0, y1) => {
+      if (x >= width) return;
+      for (let y = y0; y < y1; y++) fn(y * width + x);
+    });
+    return;
+  }
+  // Nearest-neighbour resampling
+  const mask = decodeRleToMask({ size: rle.size, counts });
+  if (!mask) return;
+  for (let y = 0; y < height; y++) {
+    const ry = Math.min(rh - 1, Math.floor((y * rh) / height));
+    for (let x = 0; x < width; x++) {
+      if (mask[ry * rw + Math.min(rw - 1, Math.floor((x * rw) / width))]) fn(y * width + x);
+    }
+  }
+};
+
+/**
+ * Polygons of an annotation in image pixels: its own polygons, traced RLE outlines,
+ * or the box for annotations without a mask (so every instance has a segment).
+ */
+const getPolygons = (ann: COCOAnnotation, image: COCOImage): number[][] => {
+  const seg = ann.segmentation;
+  if (seg && !isRle(seg) && seg.length > 0) return seg;
+  if (seg && isRle(seg)) {
+    const counts = getRleCounts(seg);
+    if (!counts) return [];
+    const [rh, rw] = seg.size;
+    return rleToPolygons(counts, rh, rw).map(poly => poly.map((v, i) => v * (i % 2 === 0 ? image.width / rw : image.height / rh)));
+  }
+  if (ann.bbox && ann.bbox.length === 4) {
+    const [x, y, w, h] = ann.bbox;
+    return [[x, y, x + w, y, x + w, y + h, x, y + h]];
+  }
+  return [];
+};
+
+// Semantic pixel values are the category ids themselves, so they must fit a 16-bit PNG and leave 0 for the background
+const MAX_SEMANTIC_LABEL = 65535;
+
+const checkSemanticLabels = (data: COCOJson) => {
+  const check = (id: number | string) => {
+    const value = Number(id);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_SEMANTIC_LABEL) {
+      throw new Error(
+        `Semantic masks use category ids as pixel values, so ids must be integers from 1 to ${MAX_SEMANTIC_LABEL} (0 is background); found category id ${JSON.stringify(id)}.`
+      );
+    }
+  };
+  data.categories.forEach(cat => check(cat.id));
+  data.annotations.forEach(ann => check(ann.category_id));
+};
+
+const formatCoordinate = (value: number, size: number) => Math.min(1, Math.max(0, value / size)).toFixed(6);
+
+export const exportMasksZip = async (data: COCOJson, format: MaskExportFormat, options: MaskExportOptions = {}): Promise<Blob> => {
+  const { imageIds, onProgress } = options;
+  if (format === 'semantic') checkSemanticLabels(data);
+  const images = imageIds ? data.images.filter(img => imageIds.has(String(img.id))) : data.images;
+  const annotationsByImage = new Map<string, COCOAnnotation[]>();
+  data.annotations.forEach(ann => {
+    const key = String(ann.image_id);
+    const list = annotationsByImage.get(key);
+    if (list) list.push(ann);
+    else annotationsByImage.set(key, [ann]);
+  });
+
+  const categories = [...data.categories].sort((a, b) => a.id - b.id);
+  // YOLO class indices are contiguous from 0, in category id order
+  const classIndex = new Map(categories.map((cat, i) => [String(cat.id), i]));
+  const categoryNames = new Map(categories.map(cat => [String(cat.id), cat.name]));
+  const maxCategoryId = data.annotations.reduce((max, ann) => Math.max(max, ann.category_id), Math.max(0, ...categories.map(cat => cat.id)));
+
+  const zip = createZipWriter();
+  if (format === 'yolo') zip.add('classes.txt', categories.map(cat => cat.name).join('\n') + '\n');
+  else zip.add('categories.json', JSON.stringify(categories, null, 2));
+
+  for (let i = 0; i < images.length; i++) {
+    const image = images[i];
+    const annotations = annotationsByImage.get(String(image.id)) || [];
+    const stem = getImageStem(image);
+    const { width, height } = image;
+
+    if (format === 'yolo') {
+      // One line per polygon; images without annotations get an empty file (background)
+      const lines: string[] = [];
+      annotations.forEach(ann => {
+        const cls = classIndex.get(String(ann.category_id));
+        if (cls === undefined) return;
+        getPolygons(ann, image).forEach(poly => {
+          if (poly.length < 6) return;
+          lines.push([cls, ...poly.map((v, k) => formatCoordinate(v, k % 2 === 0 ? width : height))].join(' '));
+        });
+      });
+      zip.add(`${stem}.txt`, lines.map(line => line + '\n').join(''));
+    } else if (format === 'semantic') {
+      const labels = maxCategoryId > 255 ? new Uint16Array(width * height) : new Uint8Array(width * height);
+      annotations.forEach(ann => forEachMaskPixel(ann, image, p => { labels[p] = ann.category_id; }));
+      zip.add(`${stem}.png`, await encodeGrayPng(width, height, labels));
+    } else {
+      for (const ann of annotations) {
+        if (!hasMask(ann)) continue;
+        const mask = new Uint8Array(width * height);
+        forEachMaskPixel(ann, image, p => { mask[p] = 255; });
+        const name = toFileNamePart(categoryNames.get(String(ann.category_id)) ?? `class_${ann.category_id}`);
+        zip.add(`${stem}/${ann.id}_${name}.png`, await encodeGrayPng(width, height, mask));
+      }
+    }
+
+    if ((i + 1) % PROGRESS_INTERVAL === 0) {
+      onProgress?.(i + 1, images.length);
+      await yieldToBrowser();
+    }
+  }
+  onProgress?.(images.length, images.length);
+  return zip.finish();
+};
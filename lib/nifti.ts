@@ -0,0 +1,262 @@
+import { COCOImage, WindowLevel } from '../types';
+import { getBasename, stripExtension } from '../utils';
+import { RasterImage, PixelArray, getValueRange, computeAutoWindow } from './raster';
+
+/**
+ * Minimal NIfTI-1 / NIfTI-2 reader (.nii and .nii.gz).
+ * Voxel data is kept as stored; scl_slope/scl_inter are applied when slices are extracted.
+ */
+
+export type SliceAxis = 'axial' | 'coronal' | 'sagittal';
+
+export interface NiftiVolume {
+  name: string; // File name without .nii/.nii.gz
+  dims: [number, number, number]; // [x, y, z]
+  spacing: [number, number, number]; // Voxel size in mm
+  data: PixelArray; // x varies fastest
+  slope: number;
+  intercept: number;
+  min: number; // Scaled value range of the whole volume
+  max: number;
+  defaultWindow: WindowLevel; // Auto window of the whole volume, in scaled units
+}
+
+export interface SliceMappingOptions {
+  axis: SliceAxis;
+  // Basename template without extension; {name} = volume name, {index} = slice index ({index:3} documents padding)
+  pattern: string;
+  indexOffset: number; // Added to the slice index before matching (e.g. 1 for 1-based exports)
+  transpose: boolean;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+export const DEFAULT_SLICE_MAPPING: SliceMappingOptions = {
+  axis: 'axial',
+  pattern: '{name}_slice_{index:3}',
+  indexOffset: 0,
+  transpose: false,
+  flipX: false,
+  flipY: false,
+};
+
+const NIFTI1_HEADER_SIZE = 348;
+const NIFTI2_HEADER_SIZE = 540;
+
+/**
+ * Returns true for .nii and .nii.gz file names.
+ */
+export const isNiftiFileName = (name: string): boolean => /\.nii(\.gz)?$/i.test(name);
+
+const gunzip = async (buffer: ArrayBuffer): Promise<ArrayBuffer> => {
+  const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+};
+
+const readVoxels = (buffer: ArrayBuffer, offset: number, count: number, datatype: number, littleEndian: boolean): PixelArray => {
+  const view = new DataView(buffer);
+  const read = <T extends PixelArray>(Ctor: new (n: number) => T, size: number, getter: (pos: number) => number): T => {
+    const out = new Ctor(count);
+    for (let i = 0; i < count; i++) out[i] = getter(offset + i * size);
+    return out;
+  };
+
+  switch (datatype) {
+    case 2: return new Uint8Array(buffer.slice(offset, offset + count));
+    case 256: return new Int8Array(buffer.slice(offset, offset + count));
+    case 4: return read(Int16Array, 2, p => view.getInt16(p, littleEndian));
+    case 512: return read(Uint16Array, 2, p => view.getUint16(p, littleEndian));
+    case 8: return read(Int32Array, 4, p => view.getInt32(p, littleEndian));
+    case 768: return read(Uint32Array, 4, p => view.getUint32(p, littleEndian));
+    case 16: return read(Float32Array, 4, p => view.getFloat32(p, littleEndian));
+    case 64: return read(Float64Array, 8, p => view.getFloat64(p, littleEndian));
+    default: throw new Error(`Unsupported NIfTI datatype ${datatype}.`);
+  }
+};
+
+/**
+ * Parses a NIfTI file (gzip-compressed or not) into a volume.
+ */
+export const parseNifti = async (input: ArrayBuffer, name: string): Promise<NiftiVolume> => {
+  let buffer = input;
+  const magic = new Uint8Array(buffer, 0, 2);
+  if (magic[0] === 0x1f && magic[1] === 0x8b) {
+    buffer = await gunzip(buffer);
+  }
+
+  const view = new DataView(buffer);
+  let littleEndian = true;
+  let headerSize = view.getInt32(0, true);
+  if (headerSize !== NIFTI1_HEADER_SIZE && headerSize !== NIFTI2_HEADER_SIZE) {
+    littleEndian = false;
+    headerSize = view.getInt32(0, false);
+  }
+
+  let dims: number[];
+  let spacing: number[];
+  let datatype: number;
+  let voxOffset: number;
+  let slope: number;
+  let intercept: number;
+
+  if (headerSize === NIFTI1_HEADER_SIZE) {
+    dims = [1, 2, 3].map(i => view.getInt16(40 + i * 2, littleEndian));
+    datatype = view.getInt16(70, littleEndian);
+    spacing = [1, 2, 3].map(i => view.getFloat32(76 + i * 4, littleEndian));
+    voxOffset = view.getFloat32(108, littleEndian);
+    slope = view.getFloat32(112, littleEndian);
+    intercept = view.getFloat32(116, littleEndian);
+  } else if (headerSize === NIFTI2_HEADER_SIZE) {
+    dims = [1, 2, 3].map(i => Number(view.getBigInt64(16 + i * 8, littleEndian)));
+    datatype = view.getInt16(12, littleEndian);
+    spacing = [1, 2, 3].map(i => view.getFloat64(104 + i * 8, littleEndian));
+    voxOffset = Number(view.getBigInt64(168, littleEndian));
+    slope = view.getFloat64(176, littleEndian);
+    intercept = view.getFloat64(184, littleEndian);
+  } else {
+    throw new Error("Not a NIfTI file (invalid header size).");
+  }
+
+  // 2D images have dim[3] = 0 or 1
+  const [nx, ny, nz] = dims.map(d => Math.max(d, 1));
+  // A slope of 0 means "no scaling" per the NIfTI spec
+  if (!slope || !isFinite(slope)) {
+    slope = 1;
+    intercept = 0;
+  }
+  if (!isFinite(intercept)) intercept = 0;
+
+  const data = readVoxels(buffer, Math.max(voxOffset, headerSize), nx * ny * nz, datatype, littleEndian);
+  const range = getValueRange(data);
+  const scaled = [range.min * slope + intercept, range.max * slope + intercept];
+  const rawWindow = computeAutoWindow({ data, ...range }, 0.005);
+
+  return {
+    name: name.replace(/\.nii(\.gz)?$/i, ''),
+    dims: [nx, ny, nz],
+    spacing: [Math.abs(spacing[0]) || 1, Math.abs(spacing[1]) || 1, Math.abs(spacing[2]) || 1],
+    data,
+    slope,
+    intercept,
+    min: Math.min(scaled[0], scaled[1]),
+    max: Math.max(scaled[0], scaled[1]),
+    defaultWindow: { center: rawWindow.center * slope + intercept, width: rawWindow.width * Math.abs(slope) },
+  };
+};
+
+/**
+ * Number of slices along the given axis.
+ */
+export const getSliceCount = (volume: NiftiVolume, axis: SliceAxis): number => {
+  const [nx, ny, nz] = volume.dims;
+  return axis === 'axial' ? nz : axis === 'coronal' ? ny : nx;
+};
+
+/**
+ * Extracts one 2D slice as a raster, using a volume-wide default window so slices look consistent.
+ */
+export const extractSlice = (volume: NiftiVolume, options: SliceMappingOptions, index: number): RasterImage => {
+  const [nx, ny] = volume.dims;
+  const { axis, transpose, flipX, flipY } = options;
+
+  // In-plane size and voxel index for (u, v) before any transform
+  let su: number;
+  let sv: number;
+  let voxelIndex: (u: number, v: number) => number;
+  if (axis === 'axial') {
+    su = nx; sv = ny;
+    voxelIndex = (u, v) => u + v * nx + index * nx * ny;
+  } else if (axis === 'coronal') {
+    su = nx; sv = volume.dims[2];
+    voxelIndex = (u, v) => u + index * nx + v * nx * ny;
+  } else {
+    su = ny; sv = volume.dims[2];
+    voxelIndex = (u, v) => index + u * nx + v * nx * ny;
+  }
+
+  const width = transpose ? sv : su;
+  const height = transpose ? su : sv;
+  const scaled = volume.slope !== 1 || volume.intercept !== 0;
+  const data: PixelArray = scaled || volume.data instanceof Float64Array
+    ? new Float32Array(width * height)
+    : new (volume.data.constructor as new (n: number) => PixelArray)(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = flipX ? width - 1 - x : x;
+      const py = flipY ? height - 1 - y : y;
+      const u = transpose ? py : px;
+      const v = transpose ? px : py;
+      const raw = volume.data[voxelIndex(u, v)];
+      data[y * width + x] = scaled ? raw * volume.slope + volume.intercept : raw;
+    }
+  }
+
+  const { min, max } = getValueRange(data);
+  const [dx, dy, dz] = volume.spacing;
+  const planeSpacing = axis === 'axial' ? [dx, dy] : axis === 'coronal' ? [dx, dz] : [dy, dz];
+
+  return {
+    width,
+    height,
+    channels: 1,
+    data,
+    min,
+    max,
+    defaultWindow: volume.defaultWindow,
+    metadata: {
+      'Volume': volume.name,
+      'Dimensions': volume.dims.join(' x '),
+      'Voxel Size': `${volume.spacing.map(s => +s.toFixed(3)).join(' x ')} mm`,
+      'Pixel Spacing': `${planeSpacing.map(s => +s.toFixed(3)).join(' x ')} mm`,
+      'Slice': `${index} / ${getSliceCount(volume, axis) - 1} (${axis})`,
+    }
+  };
+};
+
+/**
+ * Builds a regex from a slice pattern; the slice index is captured in group 1.
+ */
+const patternToRegex = (pattern: string, volumeName: string): RegExp => {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const source = pattern
+    .split(/(\{name\}|\{index(?::\d+)?\})/)
+    .map(part => {
+      if (part === '{name}') return escape(volumeName);
+      if (/^\{index(?::\d+)?\}$/.test(part)) return '(\\d+)';
+      return escape(part);
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+/**
+ * Maps slice indices to COCO images whose basename (without extension) matches the pattern.
+ */
+export const mapSlicesToImages = (
+  volume: NiftiVolume,
+  options: SliceMappingOptions,
+  images: COCOImage[]
+): Map<number, COCOImage> => {
+  const regex = patternToRegex(options.pattern, volume.name);
+  const sliceCount = getSliceCount(volume, options.axis);
+  const mapping = new Map<number, COCOImage>();
+
+  images.forEach(img => {
+    const match = stripExtension(getBasename(img.file_name)).match(regex);
+    if (!match) return;
+    const index = parseInt(match[1], 10) - options.indexOffset;
+    if (index >= 0 && index < sliceCount && !mapping.has(index)) {
+      mapping.set(index, img);
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Reads a .nii / .nii.gz file into a volume.
+ */
+export const loadNiftiFile = async (file: File): Promise<NiftiVolume> => {
+  return parseNifti(await file.arrayBuffer(), file.name);
+};
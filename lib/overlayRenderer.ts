@@ -0,0 +1,331 @@
+import { COCOAnnotation, DisplaySettings, WindowLevel, AnnotationStyle } from '../types';
+import { calculateCentroid, getColorForId, isAnnotationVisible } from '../utils';
+import { RasterImage, applyWindow } from './raster';
+import { MaskLayer } from './maskCache';
+
+/**
+ * Canvas drawing passes of the Viewer. Snapshots and batch renders call the same functions,
+ * so exported images look exactly like the screen.
+ */
+
+// Screen transform of the image: screen = image * scale + (x, y)
+export interface ViewState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+// Where a label should be placed, in image coordinates
+export interface LabelAnchor {
+  annotation: COCOAnnotation;
+  text: string;
+  x: number;
+  y: number;
+  bbox?: [number, number, number, number];
+}
+
+export interface OverlayDrawOptions {
+  getColor: (ann: COCOAnnotation) => [number, number, number];
+  isDashed?: (ann: COCOAnnotation) => boolean; // Dashed box whatever the box style (e.g. predictions)
+  forceVisibleId?: number | null; // Drawn with its mask even when hidden (the mask being edited)
+  editLayer?: { id: number; canvas: HTMLCanvasElement } | null; // Full-size layer shown instead of the cached mask
+  highlightId?: number | null; // Selected annotation, outlined on top of everything else
+}
+
+// Highlight outline width in image pixels; grows with the image so it stays visible when zoomed out
+const getHighlightWidth = (width: number, height: number) => Math.max(2, Math.round(Math.max(width, height) / 400));
+
+// Color and label of an annotation, from its style override or its id / category
+export const getStyledColor = (ann: COCOAnnotation, styles?: Map<number, AnnotationStyle>): [number, number, number] =>
+  styles?.get(ann.id)?.color ?? getColorForId(ann.id);
+
+export const getStyledLabel = (ann: COCOAnnotation, getCategoryName: (id: number) => string, styles?: Map<number, AnnotationStyle>): string =>
+  styles?.get(ann.id)?.label ?? getCategoryName(ann.category_id);
+
+/**
+ * Draws the windowed image into the canvas, resizing it to the image.
+ * Photometric inversion (e.g. MONOCHROME1) combines with the user's invert toggle.
+ */
+export const drawBaseImage = (canvas: HTMLCanvasElement, raster: RasterImage, window: WindowLevel, invert: boolean) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  canvas.width = raster.width;
+  canvas.height = raster.height;
+  const imageData = ctx.createImageData(raster.width, raster.height);
+  applyWindow(raster, window, invert !== !!raster.invertDisplay, imageData);
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Label positions: above the bbox when there is one, otherwise at the mask centroid.
+ */
+export const computeLabelAnchors = (annotations: COCOAnnotation[], getLabel: (ann: COCOAnnotation) => string): LabelAnchor[] => {
+  const anchors: LabelAnchor[] = [];
+  annotations.forEach((ann) => {
+    const text = getLabel(ann);
+    if (ann.bbox && ann.bbox.length === 4) {
+      anchors.push({ annotation: ann, text, x: ann.bbox[0], y: ann.bbox[1], bbox: ann.bbox });
+    } else if (ann.segmentation) {
+      const centroid = calculateCentroid(ann.segmentation);
+      if (centroid) {
+        anchors.push({ annotation: ann, text, x: centroid.x, y: centroid.y });
+      }
+    }
+  });
+  return anchors;
+};
+
+/**
+ * Pass 1: masks and bounding boxes, in image coordinates.
+ */
+export const drawAnnotations = (
+  ctx: CanvasRenderingContext2D,
+  annotations: COCOAnnotation[],
+  maskLayers: Map<number, MaskLayer>,
+  settings: DisplaySettings,
+  options: OverlayDrawOptions
+) => {
+  const { getColor, isDashed, forceVisibleId = null, editLayer = null, highlightId = null } = options;
+  const { opacity, maskStyle, boxStyle } = settings;
+  let highlighted: COCOAnnotation | null = null;
+
+  annotations.forEach((ann) => {
+    const isForced = forceVisibleId !== null && ann.id === forceVisibleId;
+    if (!isForced && !isAnnotationVisible(ann, settings)) return;
+    const color = getColor(ann); // [r, g, b]
+    if (ann.id === highlightId) highlighted = ann;
+
+    // A. Draw Bounding Box (Enhanced Visibility)
+    if (settings.showBoxes && ann.bbox && ann.bbox.length === 4) {
+       const [x, y, w, h] = ann.bbox;
+       ctx.save();
+
+       // 1. Semi-transparent fill
+       if (boxStyle === 'filled') {
+         ctx.fillStyle = `rgba(${color[0]}, ${color[1]}, ${color[2]}, ${0.3 * opacity})`;
+         ctx.fillRect(x, y, w, h);
+       }
+
+       // 2. Thick border (dashed if the box style or the annotation's style asks for it, e.g. predictions)
+       ctx.strokeStyle = `rgba(${color[0]}, ${color[1]}, ${color[2]}, 1.0)`;
+       ctx.lineWidth = 3;
+       ctx.setLineDash(boxStyle === 'dashed' || isDashed?.(ann) ? [8, 4] : []);
+       ctx.strokeRect(x, y, w, h);
+
+       ctx.restore();
+    }
+
+    // B. Draw cached Mask (or the layer being painted, always filled while it changes)
+    const edited = editLayer?.id === ann.id ? editLayer.canvas : null;
+    const layer = maskLayers.get(ann.id);
+    if ((settings.showMasks || isForced) && (edited || layer)) {
+      ctx.save();
+      ctx.globalAlpha = opacity;
+      if (edited) ctx.drawImage(edited, 0, 0, ctx.canvas.width, ctx.canvas.height);
+      else if (layer && maskStyle !== 'outline') ctx.drawImage(layer.canvas, layer.x, layer.y, layer.width, layer.height);
+      ctx.restore();
+
+      // Outlines are opaque, like box borders, so the anatomy inside stays visible
+      if (!edited && layer && maskStyle !== 'fill') {
+        ctx.save();
+        ctx.strokeStyle = `rgb(${color[0]}, ${color[1]}, ${color[2]})`;
+        ctx.lineWidth = settings.outlineWidth;
+        ctx.lineCap = 'square'; // Closes the corners between edge segments
+        ctx.stroke(layer.outline);
+        ctx.restore();
+      }
+    }
+  });
+
+  // C. Highlight the selected annotation: its mask outline, or its box when it has no mask
+  if (highlighted) {
+    const ann: COCOAnnotation = highlighted;
+    const layer = maskLayers.get(ann.id);
+    ctx.save();
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = getHighlightWidth(ctx.canvas.width, ctx.canvas.height);
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.9)';
+    ctx.shadowBlur = ctx.lineWidth * 2;
+    if (layer) {
+      ctx.lineCap = 'square';
+      ctx.stroke(layer.outline);
+    } else if (ann.bbox && ann.bbox.length === 4) {
+      ctx.strokeRect(ann.bbox[0], ann.bbox[1], ann.bbox[2], ann.bbox[3]);
+    }
+    ctx.restore();
+  }
+};
+
+/**
+ * Topmost visible annotation at an image point: the last drawn mask covering the pixel,
+ * otherwise the smallest shown box containing the point.
+ */
+export const hitTestAnnotations = (
+  annotations: COCOAnnotation[],
+  maskLayers: Map<number, MaskLayer>,
+  settings: DisplaySettings,
+  x: number,
+  y: number
+): COCOAnnotation | null => {
+  const visible = annotations.filter(ann => isAnnotationVisible(ann, settings));
+
+  if (settings.showMasks) {
+    for (let i = visible.length - 1; i >= 0; i--) {
+      const layer = maskLayers.get(visible[i].id);
+      if (!layer || x < layer.x || y < layer.y || x >= layer.x + layer.width || y >= layer.y + layer.height) continue;
+      // Layers may be stretched (RLE of another size), so map into the layer's own pixels
+      const px = Math.floor(((x - layer.x) * layer.canvas.width) / layer.width);
+      const py = Math.floor(((y - layer.y) * layer.canvas.height) / layer.height);
+      const alpha = layer.canvas.getContext('2d')?.getImageData(px, py, 1, 1).data[3] ?? 0;
+      if (alpha > 0) return visible[i];
+    }
+  }
+
+  if (settings.showBoxes) {
+    let best: COCOAnnotation | null = null;
+    visible.forEach(ann => {
+      if (!ann.bbox || ann.bbox.length !== 4) return;
+      const [bx, by, bw, bh] = ann.bbox;
+      if (x < bx || y < by || x > bx + bw || y > by + bh) return;
+      if (!best || bw * bh <= best.bbox[2] * best.bbox[3]) best = ann;
+    });
+    return best;
+  }
+  return null;
+};
+
+/**
+ * Pass 2: labels in screen space, so they stay readable at every zoom level.
+ * The caller sets up (and clears) the context; `view` maps image to screen coordinates.
+ */
+export const drawLabels = (ctx: CanvasRenderingContext2D, anchors: LabelAnchor[], settings: DisplaySettings, view: ViewState) => {
+  if (!settings.showLabels) return;
+  ctx.save();
+  ctx.globalAlpha = 1.0;
+  ctx.font = 'bold 14px sans-serif'; // Slightly smaller for better fit
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  anchors.forEach((anchor) => {
+     if (!isAnnotationVisible(anchor.annotation, settings)) return;
+
+     let labelX: number;
+     let labelY: number;
+
+     // Position Label (Prefer above BBox)
+     if (anchor.bbox) {
+        const [x, y, w, h] = anchor.bbox;
+        labelX = (x + w / 2) * view.scale + view.x;
+        // Position above the bounding box
+        // Box height is approx 22px (14px text + 2*4px pad)
+        labelY = y * view.scale + view.y - 15;
+
+        // If too close to top edge, place below
+        if (labelY < 15) {
+            labelY = (y + h) * view.scale + view.y + 15;
+        }
+     } else {
+        labelX = anchor.x * view.scale + view.x;
+        labelY = anchor.y * view.scale + view.y;
+     }
+
+     const text = anchor.text;
+     const textMetrics = ctx.measureText(text);
+     const pad = 4;
+     const textH = 14;
+
+     ctx.save();
+
+     const boxW = textMetrics.width + pad * 2;
+     const boxH = textH + pad * 2;
+     const boxX = labelX - boxW / 2;
+     const boxY = labelY - boxH / 2;
+
+     // Shadow
+     ctx.shadowColor = 'rgba(0,0,0,0.8)';
+     ctx.shadowBlur = 4;
+
+     // Label Background
+     ctx.fillStyle = `rgba(0, 0, 0, 0.6)`;
+     ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+     ctx.lineWidth = 1;
+
+     ctx.beginPath();
+     if (ctx.roundRect) {
+        ctx.roundRect(boxX, boxY, boxW, boxH, 4);
+     } else {
+        ctx.rect(boxX, boxY, boxW, boxH);
+     }
+     ctx.fill();
+     ctx.stroke();
+
+     // Text
+     ctx.shadowColor = 'transparent';
+     ctx.fillStyle = '#ffffff';
+     ctx.fillText(text, labelX, labelY);
+     ctx.restore();
+  });
+  ctx.restore();
+};
+
+// Entries beyond this are summarized as "+ N more"
+const MAX_LEGEND_ENTRIES = 30;
+
+/**
+ * Canvas version of the legend (visible annotations with their colors), top-right aligned at `right`.
+ */
+export const drawLegend = (
+  ctx: CanvasRenderingContext2D,
+  annotations: COCOAnnotation[],
+  settings: DisplaySettings,
+  getColor: (ann: COCOAnnotation) => [number, number, number],
+  getLabel: (ann: COCOAnnotation) => string,
+  right: number,
+  top: number
+) => {
+  const visible = annotations.filter(ann => isAnnotationVisible(ann, settings));
+  const entries = visible.slice(0, MAX_LEGEND_ENTRIES);
+  const title = `Objects (${visible.length})`;
+  const more = visible.length - entries.length;
+  const pad = 10;
+  const lineH = 18;
+  const swatch = 10;
+
+  ctx.save();
+  ctx.font = '12px sans-serif';
+  ctx.textBaseline = 'middle';
+  const texts = entries.map(ann => `ID:${ann.id} - ${getLabel(ann)}`);
+  const textW = Math.max(ctx.measureText(title).width, ...texts.map(text => ctx.measureText(text).width + swatch + 8));
+  const width = Math.ceil(textW) + pad * 2;
+  const height = (1 + entries.length + (more > 0 ? 1 : 0)) * lineH + pad * 2;
+  const left = right - width;
+
+  // Same colors as the on-screen legend (slate-900/90, slate-700 border)
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.9)';
+  ctx.strokeStyle = '#334155';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  if (ctx.roundRect) ctx.roundRect(left, top, width, height, 8);
+  else ctx.rect(left, top, width, height);
+  ctx.fill();
+  ctx.stroke();
+
+  let y = top + pad + lineH / 2;
+  ctx.fillStyle = '#94a3b8';
+  ctx.fillText(title, left + pad, y);
+  entries.forEach((ann, i) => {
+    y += lineH;
+    const [r, g, b] = getColor(ann);
+    ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+    ctx.beginPath();
+    ctx.arc(left + pad + swatch / 2, y, swatch / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#e2e8f0';
+    ctx.fillText(texts[i], left + pad + swatch + 8, y);
+  });
+  if (more > 0) {
+    ctx.fillStyle = '#64748b';
+    ctx.fillText(`+ ${more} more`, left + pad, y + lineH);
+  }
+  ctx.restore();
+};
@@ -0,0 +1,274 @@
+import { RasterImage, PixelArray, getValueRange, rangeWindow } from './raster';
+import { crc32 } from './zip';
+
+/**
+ * PNG decoder for images the browser would squash to 8 bits, and an encoder for label masks.
+ * Handles 8/16-bit grayscale and truecolor (with or without alpha), interlaced or not.
+ * Palette and sub-byte images are left to the browser decoder, except as label maps.
+ */
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+// Samples per pixel for each color type
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: [xStart, yStart, xStep, yStep]
+const ADAM7 = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4],
+  [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+/**
+ * Reads the IHDR chunk without decoding pixel data. Returns null for non-PNG input.
+ */
+export const readPngHeader = (bytes: Uint8Array): PngHeader | null => {
+  if (bytes.length < 33 || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return {
+    width: view.getUint32(16),
+    height: view.getUint32(20),
+    bitDepth: bytes[24],
+    colorType: bytes[25],
+    interlace: bytes[28],
+  };
+};
+
+/**
+ * True if the PNG needs this decoder to keep its full precision.
+ */
+export const needsFullDepthDecode = (header: PngHeader): boolean => header.bitDepth === 16;
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+/**
+ * Reverses the per-scanline filters of one (sub-)image in place. Returns the offset after it.
+ */
+const unfilter = (data: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number, out: Uint8Array): number => {
+  let prev: Uint8Array = new Uint8Array(rowBytes);
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset++];
+    const row = out.subarray(y * rowBytes, (y + 1) * rowBytes);
+    row.set(data.subarray(offset, offset + rowBytes));
+    offset += rowBytes;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bpp ? row[i - bpp] : 0;
+      const up = prev[i];
+      const upLeft = i >= bpp ? prev[i - bpp] : 0;
+      switch (filter) {
+        case 1: row[i] = row[i] + left; break;
+        case 2: row[i] = row[i] + up; break;
+        case 3: row[i] = row[i] + ((left + up) >> 1); break;
+        case 4: row[i] = row[i] + paeth(left, up, upLeft); break;
+      }
+    }
+    prev = row;
+  }
+  return offset;
+};
+
+/**
+ * Inflates and unfilters the image data, returning every sample of every pixel (interleaved).
+ * Sub-byte samples are unpacked, palette images keep their indices.
+ */
+const readSamples = async (buffer: ArrayBuffer, header: PngHeader): Promise<Uint8Array | Uint16Array> => {
+  const bytes = new Uint8Array(buffer);
+  const { width, height, bitDepth, colorType, interlace } = header;
+
+  // Concatenate IDAT chunks
+  const view = new DataView(buffer);
+  const idat: Uint8Array[] = [];
+  let pos = 8;
+  while (pos + 8 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    if (type === 'IDAT') idat.push(bytes.subarray(pos + 8, pos + 8 + length));
+    if (type === 'IEND') break;
+    pos += 12 + length;
+  }
+  const compressed = new Uint8Array(idat.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  idat.forEach(chunk => {
+    compressed.set(chunk, offset);
+    offset += chunk.length;
+  });
+  const data = await inflate(compressed);
+
+  const samples = CHANNELS_BY_COLOR_TYPE[colorType];
+  const bitsPerPixel = samples * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3); // Filters work on whole bytes
+  const sampleMask = (1 << Math.min(bitDepth, 8)) - 1;
+  const out = bitDepth === 16 ? new Uint16Array(width * height * samples) : new Uint8Array(width * height * samples);
+
+  const writeRows = (raw: Uint8Array, passWidth: number, passHeight: number, x0: number, y0: number, dx: number, dy: number) => {
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    for (let y = 0; y < passHeight; y++) {
+      const row = y * rowBytes;
+      for (let x = 0; x < passWidth; x++) {
+        const dst = ((y0 + y * dy) * width + (x0 + x * dx)) * samples;
+        for (let c = 0; c < samples; c++) {
+          const i = x * samples + c;
+          if (bitDepth === 16) {
+            // 16-bit samples are big-endian
+            out[dst + c] = (raw[row + i * 2] << 8) | raw[row + i * 2 + 1];
+          } else if (bitDepth === 8) {
+            out[dst + c] = raw[row + i];
+          } else {
+            // Sub-byte samples are packed from the most significant bit
+            const bit = i * bitDepth;
+            out[dst + c] = (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & sampleMask;
+          }
+        }
+      }
+    }
+  };
+
+  if (interlace === 1) {
+    let dataOffset = 0;
+    ADAM7.forEach(([x0, y0, dx, dy]) => {
+      const passWidth = Math.ceil((width - x0) / dx);
+      const passHeight = Math.ceil((height - y0) / dy);
+      if (passWidth <= 0 || passHeight <= 0) return;
+      const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+      const raw = new Uint8Array(rowBytes * passHeight);
+      dataOffset = unfilter(data, dataOffset, rowBytes, passHeight, bpp, raw);
+      writeRows(raw, passWidth, passHeight, x0, y0, dx, dy);
+    });
+  } else {
+    const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+    const raw = new Uint8Array(rowBytes * height);
+    unfilter(data, 0, rowBytes, height, bpp, raw);
+    writeRows(raw, width, height, 0, 0, 1, 1);
+  }
+  return out;
+};
+
+/**
+ * Decodes a PNG with 8 or 16 bits per sample, keeping the raw sample values.
+ */
+export const decodePng = async (buffer: ArrayBuffer): Promise<RasterImage> => {
+  const header = readPngHeader(new Uint8Array(buffer));
+  if (!header) throw new Error("Not a PNG file.");
+  const { width, height, bitDepth, colorType } = header;
+  if (colorType === 3 || bitDepth < 8) throw new Error("Palette and sub-byte PNGs are decoded by the browser.");
+
+  const samplesPerPixel = CHANNELS_BY_COLOR_TYPE[colorType];
+  const samples = await readSamples(buffer, header);
+
+  // Keep gray (drop alpha) or RGB (drop alpha)
+  const channels: 1 | 3 = samplesPerPixel <= 2 ? 1 : 3;
+  const pixels: PixelArray = bitDepth === 16 ? new Uint16Array(width * height * channels) : new Uint8Array(width * height * channels);
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < channels; c++) pixels[p * channels + c] = samples[p * samplesPerPixel + c];
+  }
+
+  const { min, max } = getValueRange(pixels);
+  const colorNames: Record<number, string> = { 0: 'Grayscale', 2: 'RGB', 4: 'Grayscale + Alpha', 6: 'RGBA' };
+  return {
+    width,
+    height,
+    channels,
+    data: pixels,
+    min,
+    max,
+    defaultWindow: bitDepth === 8 ? rangeWindow(0, 255) : rangeWindow(min, max),
+    metadata: {
+      'Format': 'PNG',
+      'Bit Depth': `${bitDepth}-bit ${colorNames[colorType]}`,
+      'Value Range': `${min} - ${max}`,
+    }
+  };
+};
+
+/**
+ * Decodes a label map PNG (grayscale or palette, any bit depth) into one value per pixel, row-major.
+ * Palette images give their palette indices, which is how e.g. Pascal VOC stores class ids.
+ */
+export const decodePngLabels = async (buffer: ArrayBuffer): Promise<{ width: number; height: number; labels: Uint8Array | Uint16Array }> => {
+  const header = readPngHeader(new Uint8Array(buffer));
+  if (!header) throw new Error("Not a PNG file.");
+  const { width, height, colorType } = header;
+  if (colorType === 2 || colorType === 6) throw new Error("Label maps must be grayscale or palette PNGs (pixel value = class), not RGB.");
+
+  const samples = await readSamples(buffer, header);
+  if (colorType !== 4) return { width, height, labels: samples };
+  // Grayscale + alpha: drop the alpha samples
+  const labels = samples instanceof Uint16Array ? new Uint16Array(width * height) : new Uint8Array(width * height);
+  for (let p = 0; p < width * height; p++) labels[p] = samples[p * 2];
+  return { width, height, labels };
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/**
+ * Encodes single-channel samples (row-major) as a grayscale PNG, 8-bit for a Uint8Array
+ * and 16-bit for a Uint16Array, so label values are stored exactly.
+ */
+export const encodeGrayPng = async (width: number, height: number, samples: Uint8Array | Uint16Array): Promise<Uint8Array> => {
+  const bitDepth = samples instanceof Uint16Array ? 16 : 8;
+  const rowBytes = width * (bitDepth / 8);
+  // Every scanline starts with its filter type (0 = none)
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (rowBytes + 1) + 1;
+    for (let x = 0; x < width; x++) {
+      const value = samples[y * width + x];
+      if (bitDepth === 16) {
+        raw[row + x * 2] = value >> 8;
+        raw[row + x * 2 + 1] = value & 0xff;
+      } else {
+        raw[row + x] = value;
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = 0; // Grayscale; compression, filter and interlace methods stay 0
+
+  const chunks = [pngChunk('IHDR', header), pngChunk('IDAT', await deflate(raw)), pngChunk('IEND', new Uint8Array(0))];
+  const png = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((sum, c) => sum + c.length, 0));
+  png.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  chunks.forEach(chunk => {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return png;
+};
@@ -0,0 +1,180 @@
+import { WindowLevel } from '../types';
+
+export type PixelArray =
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int8Array
+  | Uint16Array
+  | Int16Array
+  | Uint32Array
+  | Int32Array
+  | Float32Array
+  | Float64Array;
+
+/**
+ * Decoded image with its raw (un-windowed) pixel values.
+ * Grayscale images have 1 channel, color images 3 interleaved RGB channels.
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  channels: 1 | 3;
+  data: PixelArray;
+  min: number;
+  max: number;
+  defaultWindow: WindowLevel;
+  invertDisplay?: boolean; // e.g. DICOM MONOCHROME1, where low values are bright
+  metadata?: Record<string, string>; // Format-specific tags shown in the sidebar
+}
+
+/**
+ * Standard CT windows in Hounsfield units.
+ */
+export const WINDOW_PRESETS: { name: string; window: WindowLevel }[] = [
+  { name: 'Lung', window: { center: -600, width: 1500 } },
+  { name: 'Mediastinum', window: { center: 50, width: 350 } },
+  { name: 'Bone', window: { center: 400, width: 1800 } },
+  { name: 'Brain', window: { center: 40, width: 80 } },
+];
+
+/**
+ * Returns the min and max of a pixel array.
+ */
+export const getValueRange = (data: PixelArray): { min: number; max: number } => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    const v = data[i];
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min === Infinity) return { min: 0, max: 0 };
+  return { min, max };
+};
+
+/**
+ * Window covering the full value range.
+ */
+export const rangeWindow = (min: number, max: number): WindowLevel => ({
+  center: (min + max) / 2,
+  width: Math.max(max - min, 1)
+});
+
+/**
+ * Converts browser-decoded RGBA pixels into a raster.
+ * Images where every pixel has R = G = B are stored as a single grayscale channel.
+ */
+export const rasterFromImageData = (imageData: ImageData): RasterImage => {
+  const { width, height, data } = imageData;
+  const pixelCount = width * height;
+
+  let isGray = true;
+  for (let i = 0; i < pixelCount * 4; i += 4) {
+    if (data[i] !== data[i + 1] || data[i] !== data[i + 2]) {
+      isGray = false;
+      break;
+    }
+  }
+
+  const channels = isGray ? 1 : 3;
+  const out = new Uint8Array(pixelCount * channels);
+  for (let p = 0; p < pixelCount; p++) {
+    for (let c = 0; c < channels; c++) {
+      out[p * channels + c] = data[p * 4 + c];
+    }
+  }
+
+  const { min, max } = getValueRange(out);
+  return {
+    width,
+    height,
+    channels,
+    data: out,
+    min,
+    max,
+    // 8-bit images are displayed exactly as stored by default
+    defaultWindow: rangeWindow(0, 255)
+  };
+};
+
+/**
+ * Decodes a browser-supported image file (PNG/JPEG) into a raster.
+ */
+export const decodeImageFile = async (file: File): Promise<RasterImage> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return rasterFromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+/**
+ * Maps raw values to 8-bit display values through a linear window.
+ * Writes into `out` (RGBA), so only the base image layer is affected.
+ */
+export const applyWindow = (raster: RasterImage, window: WindowLevel, invert: boolean, out: ImageData) => {
+  const { data, channels } = raster;
+  const pixels = out.data;
+  const lower = window.center - window.width / 2;
+  const scale = 255 / Math.max(window.width, 1e-6);
+  const pixelCount = raster.width * raster.height;
+
+  for (let p = 0; p < pixelCount; p++) {
+    const o = p * 4;
+    for (let c = 0; c < 3; c++) {
+      const v = data[p * channels + (channels === 1 ? 0 : c)];
+      let mapped = (v - lower) * scale;
+      mapped = mapped < 0 ? 0 : mapped > 255 ? 255 : mapped;
+      pixels[o + c] = invert ? 255 - mapped : mapped;
+    }
+    pixels[o + 3] = 255;
+  }
+};
+
+/**
+ * Picks a window from the histogram, clipping the given fraction of outliers on each side.
+ */
+export const computeAutoWindow = (raster: Pick<RasterImage, 'data' | 'min' | 'max'>, clip = 0.01): WindowLevel => {
+  const { data, min, max } = raster;
+  if (max <= min) return rangeWindow(min, max);
+
+  const bins = 4096;
+  const histogram = new Uint32Array(bins);
+  const binScale = (bins - 1) / (max - min);
+  for (let i = 0; i < data.length; i++) {
+    histogram[Math.floor((data[i] - min) * binScale)]++;
+  }
+
+  const lowTarget = data.length * clip;
+  const highTarget = data.length * (1 - clip);
+  let cumulative = 0;
+  let low = 0;
+  let high = bins - 1;
+  let foundLow = false;
+  for (let b = 0; b < bins; b++) {
+    cumulative += histogram[b];
+    if (!foundLow && cumulative > lowTarget) {
+      low = b;
+      foundLow = true;
+    }
+    if (cumulative >= highTarget) {
+      high = b;
+      break;
+    }
+  }
+
+  return rangeWindow(min + low / binScale, min + (high + 1) / binScale);
+};
+
+/**
+ * Formats the raw value(s) at a pixel for display.
+ */
+export const formatPixelValue = (raster: RasterImage, x: number, y: number): string => {
+  const offset = (y * raster.width + x) * raster.channels;
+  const values = Array.from(raster.data.subarray(offset, offset + raster.channels));
+  return values.map(v => (Number.isInteger(v) ? `${v}` : v.toFixed(2))).join(', ');
+};
@@ -0,0 +1,157 @@
+import { COCOJson, DisplaySettings } from '../types';
+
+/**
+ * Sessions saved in IndexedDB: the parsed dataset, the UI state and the image folder handles,
+ * so a reload restores the work without re-parsing the JSON. Datasets live in their own store,
+ * so listing sessions never loads them.
+ */
+
+// UI state restored with a session
+export interface SessionUiState {
+  activeTab: string;
+  treeSearch: string;
+  selectedImageId: number | string | null; // Image open in the tree preview
+  matchedImageId: number | string | null; // Image open in the viewer, once its folder is read again
+  displaySettings: DisplaySettings;
+}
+
+export interface SessionRecord {
+  id: string;
+  name: string;
+  fileName: string; // Annotation file the dataset came from
+  createdAt: number;
+  updatedAt: number;
+  imageCount: number;
+  annotationCount: number;
+  ui: SessionUiState | null;
+  directories: FileSystemDirectoryHandle[]; // Image folders, where the browser provides handles
+}
+
+const DB_NAME = 'medseg-viewer';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const DATASETS = 'datasets';
+// Session reopened on the next page load
+const LAST_SESSION_KEY = 'medseg-viewer.lastSession';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available in this browser'));
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(DATASETS)) db.createObjectStore(DATASETS);
+    };
+    dbPromise = requestToPromise(request);
+    dbPromise.catch(() => {
+      dbPromise = null; // Retry on the next call
+    });
+  }
+  return dbPromise;
+};
+
+const createSessionId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Saved sessions, most recently used first.
+ */
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  const db = await openDb();
+  const sessions = await requestToPromise(db.transaction(SESSIONS).objectStore(SESSIONS).getAll() as IDBRequest<SessionRecord[]>);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Stores a newly loaded dataset as a new session.
+ */
+export const createSession = async (data: COCOJson, fileName: string): Promise<SessionRecord> => {
+  const now = Date.now();
+  const session: SessionRecord = {
+    id: createSessionId(),
+    name: fileName,
+    fileName,
+    createdAt: now,
+    updatedAt: now,
+    imageCount: data.images.length,
+    annotationCount: data.annotations.length,
+    ui: null,
+    directories: [],
+  };
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, DATASETS], 'readwrite');
+  tx.objectStore(DATASETS).put(data, session.id);
+  tx.objectStore(SESSIONS).put(session);
+  await transactionDone(tx);
+  return session;
+};
+
+/**
+ * Updates a session's metadata (name, UI state, folders); resolves to null if it was deleted meanwhile.
+ */
+export const updateSession = async (
+  id: string,
+  patch: Partial<Pick<SessionRecord, 'name' | 'ui' | 'directories'>>
+): Promise<SessionRecord | null> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const store = tx.objectStore(SESSIONS);
+  const session = await requestToPromise(store.get(id) as IDBRequest<SessionRecord | undefined>);
+  if (!session) return null;
+  const updated = { ...session, ...patch, updatedAt: Date.now() };
+  store.put(updated);
+  await transactionDone(tx);
+  return updated;
+};
+
+/**
+ * Replaces a session's dataset (after mask edits); does nothing if the session was deleted.
+ */
+export const saveSessionData = async (id: string, data: COCOJson): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, DATASETS], 'readwrite');
+  const sessions = tx.objectStore(SESSIONS);
+  const session = await requestToPromise(sessions.get(id) as IDBRequest<SessionRecord | undefined>);
+  if (!session) return;
+  tx.objectStore(DATASETS).put(data, id);
+  sessions.put({ ...session, imageCount: data.images.length, annotationCount: data.annotations.length, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const loadSessionData = async (id: string): Promise<COCOJson | null> => {
+  const db = await openDb();
+  const data = await requestToPromise(db.transaction(DATASETS).objectStore(DATASETS).get(id) as IDBRequest<COCOJson | undefined>);
+  return data ?? null;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, DATASETS], 'readwrite');
+  tx.objectStore(SESSIONS).delete(id);
+  tx.objectStore(DATASETS).delete(id);
+  await transactionDone(tx);
+  if (getLastSessionId() === id) setLastSessionId(null);
+};
+
+export const getLastSessionId = (): string | null => localStorage.getItem(LAST_SESSION_KEY);
+
+export const setLastSessionId = (id: string | null) => {
+  if (id) localStorage.setItem(LAST_SESSION_KEY, id);
+  else localStorage.removeItem(LAST_SESSION_KEY);
+};
@@ -0,0 +1,167 @@
+import { COCOAnnotation, DisplaySettings } from '../types';
+import { stripExtension } from '../utils';
+import { RasterImage } from './raster';
+import { loadMaskLayers } from './maskCache';
+import { createZipWriter } from './zip';
+import { ViewState, LabelAnchor, drawBaseImage, drawAnnotations, drawLabels, drawLegend, computeLabelAnchors } from './overlayRenderer';
+
+/**
+ * PNG snapshots of the overlay, composed from the Viewer's drawing passes (lib/overlayRenderer).
+ * The Viewer snapshots its own canvases; batch renders draw each image offscreen the same way.
+ */
+
+export type SnapshotArea = 'full' | 'view';
+
+export interface SnapshotOptions {
+  area: SnapshotArea; // Full image resolution, or the viewport as it is zoomed and panned
+  labels: boolean;
+  legend: boolean;
+}
+
+export const DEFAULT_SNAPSHOT_OPTIONS: SnapshotOptions = { area: 'full', labels: true, legend: false };
+
+export interface SnapshotLayers {
+  base: CanvasImageSource | null; // Windowed image; left black when missing
+  overlay: CanvasImageSource; // Masks and boxes at image resolution
+  width: number;
+  height: number;
+  annotations: COCOAnnotation[];
+  anchors: LabelAnchor[];
+  settings: DisplaySettings;
+  getColor: (ann: COCOAnnotation) => [number, number, number];
+  getLabel: (ann: COCOAnnotation) => string;
+}
+
+export interface SnapshotViewport {
+  view: ViewState;
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+// Legend inset from the top-right corner, as in the Viewer (top-4 right-4)
+const LEGEND_MARGIN = 16;
+
+// Full-resolution snapshots scale labels and legend up for large images, so they stay readable
+const getTextScale = (width: number, height: number) => Math.max(1, Math.round(Math.max(width, height) / 1024));
+
+/**
+ * Draws the layers into a new canvas: the full image, or the viewport when one is given.
+ */
+export const composeSnapshot = (layers: SnapshotLayers, options: SnapshotOptions, viewport?: SnapshotViewport | null): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  // Drawing units: image pixels for full resolution, CSS pixels of the viewport otherwise
+  const { view, width, height, ratio } = viewport
+    ? { view: viewport.view, width: viewport.width, height: viewport.height, ratio: viewport.pixelRatio }
+    : { view: { scale: 1, x: 0, y: 0 }, width: layers.width, height: layers.height, ratio: 1 };
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.setTransform(ratio * view.scale, 0, 0, ratio * view.scale, ratio * view.x, ratio * view.y);
+  // Zoomed-in pixels stay sharp, as with the Viewer's pixelated rendering
+  ctx.imageSmoothingEnabled = view.scale * ratio < 1;
+  if (layers.base) ctx.drawImage(layers.base, 0, 0, layers.width, layers.height);
+  ctx.drawImage(layers.overlay, 0, 0, layers.width, layers.height);
+
+  const textScale = viewport ? ratio : getTextScale(layers.width, layers.height);
+  ctx.setTransform(textScale, 0, 0, textScale, 0, 0);
+  ctx.imageSmoothingEnabled = true;
+  if (options.labels) {
+    const scaledView = { scale: view.scale * ratio / textScale, x: view.x * ratio / textScale, y: view.y * ratio / textScale };
+    drawLabels(ctx, layers.anchors, { ...layers.settings, showLabels: true }, scaledView);
+  }
+  if (options.legend) {
+    drawLegend(ctx, layers.annotations, layers.settings, layers.getColor, layers.getLabel, canvas.width / textScale - LEGEND_MARGIN, LEGEND_MARGIN);
+  }
+  return canvas;
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode PNG')), 'image/png');
+  });
+
+/**
+ * An image to render in a batch, with the annotations (and colors/labels) the Viewer would show for it.
+ */
+export interface SnapshotSource {
+  path: string; // COCO file_name; the PNG keeps its folders in the zip
+  loadRaster: () => Promise<RasterImage>;
+  annotations: COCOAnnotation[];
+  getColor: (ann: COCOAnnotation) => [number, number, number];
+  getLabel: (ann: COCOAnnotation) => string;
+  isDashed?: (ann: COCOAnnotation) => boolean;
+}
+
+// Output path without extension, keeping the image's folders
+const getSnapshotStem = (path: string) => {
+  const parts = path.split(/[/\\]/);
+  return [...parts.slice(0, -1), stripExtension(parts[parts.length - 1])].join('/');
+};
+
+export interface BatchSnapshotOptions {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Renders every source at full resolution into a zip of PNGs.
+ * Images that fail to load are skipped and reported by path.
+ */
+export const renderSnapshotsZip = async (
+  sources: SnapshotSource[],
+  settings: DisplaySettings,
+  options: Pick<SnapshotOptions, 'labels' | 'legend'>,
+  { onProgress, signal }: BatchSnapshotOptions = {}
+): Promise<{ blob: Blob; failed: string[] }> => {
+  const zip = createZipWriter();
+  const failed: string[] = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    signal?.throwIfAborted();
+    const source = sources[i];
+    let raster: RasterImage;
+    try {
+      raster = await source.loadRaster();
+    } catch {
+      failed.push(source.path);
+      onProgress?.(i + 1, sources.length);
+      continue;
+    }
+    const { width, height } = raster;
+
+    const base = document.createElement('canvas');
+    drawBaseImage(base, raster, settings.window ?? raster.defaultWindow, settings.invert);
+
+    const overlay = document.createElement('canvas');
+    overlay.width = width;
+    overlay.height = height;
+    const maskLayers = await loadMaskLayers(source.annotations, height, width, source.getColor);
+    const overlayCtx = overlay.getContext('2d');
+    if (overlayCtx) {
+      drawAnnotations(overlayCtx, source.annotations, maskLayers, settings, { getColor: source.getColor, isDashed: source.isDashed });
+    }
+
+    const canvas = composeSnapshot({
+      base,
+      overlay,
+      width,
+      height,
+      annotations: source.annotations,
+      anchors: computeLabelAnchors(source.annotations, source.getLabel),
+      settings,
+      getColor: source.getColor,
+      getLabel: source.getLabel,
+    }, { area: 'full', ...options });
+    const png = await canvasToPng(canvas);
+    zip.add(`${getSnapshotStem(source.path)}.png`, new Uint8Array(await png.arrayBuffer()));
+    onProgress?.(i + 1, sources.length);
+  }
+
+  return { blob: zip.finish(), failed };
+};
@@ -0,0 +1,230 @@
+import { COCOJson, COCOImage, COCOAnnotation } from '../types';
+
+/**
+ * Dataset-wide statistics, optionally broken down by a folder level of the file tree
+ * (e.g. level 1 = modality, level 2 = sub-dataset for "Modality/dataset/file.png").
+ */
+
+// Counts per bin (or category), one series per group
+export interface Histogram {
+  labels: string[];
+  series: Record<string, number[]>;
+}
+
+export interface DatasetStats {
+  groups: string[]; // Group names in display order; a single '' group when not broken down
+  imageCounts: Record<string, number>;
+  annotationCounts: Record<string, number>;
+  instancesPerCategory: Histogram;
+  imagesPerCategory: Histogram;
+  annotationsPerImage: Histogram;
+  maskArea: Histogram;
+  bboxAspectRatio: Histogram;
+  imageSizes: Histogram;
+  emptyImages: COCOImage[];
+}
+
+// Annotations-per-image bins: 0..9 and 10+
+const MAX_PER_IMAGE_BIN = 10;
+// Area bins in powers of two (px), from < 16 to >= 2^20
+const AREA_BIN_EXPONENTS = Array.from({ length: 17 }, (_, i) => i + 4);
+// Aspect ratio (w / h) bins in powers of two, from < 1/8 to >= 8
+const ASPECT_BIN_EXPONENTS = [-3, -2, -1, 0, 1, 2, 3];
+// Only the most common image sizes get their own bar
+const MAX_IMAGE_SIZES = 12;
+
+/**
+ * Number of folder levels in the dataset (0 if all images sit at the root).
+ */
+export const getFolderDepth = (images: COCOImage[]): number => {
+  return images.reduce((depth, img) => Math.max(depth, img.file_name.split(/[/\\]/).length - 1), 0);
+};
+
+/**
+ * Group key of an image at a folder level: the path of its first `level` folders.
+ * Images in shallower folders are grouped under their full folder path (or "(root)").
+ */
+export const getFolderGroup = (fileName: string, level: number): string => {
+  if (level <= 0) return '';
+  const folders = fileName.split(/[/\\]/).slice(0, -1);
+  return folders.slice(0, level).join('/') || '(root)';
+};
+
+// Totals for a folder of the file tree and everything below it
+export interface FolderStats {
+  images: number;
+  annotations: number;
+  categories: Map<number, number>; // Annotations per category id
+}
+
+/**
+ * Aggregates of every folder of buildFileTree, keyed by folder path ('' for the root).
+ */
+export const computeFolderStats = (
+  images: COCOImage[],
+  getAnnotations: (image: COCOImage) => COCOAnnotation[]
+): Map<string, FolderStats> => {
+  const stats = new Map<string, FolderStats>();
+  const getStats = (path: string) => {
+    let folder = stats.get(path);
+    if (!folder) {
+      folder = { images: 0, annotations: 0, categories: new Map() };
+      stats.set(path, folder);
+    }
+    return folder;
+  };
+
+  images.forEach(img => {
+    const annotations = getAnnotations(img);
+    const categories = new Map<number, number>();
+    annotations.forEach(ann => categories.set(ann.category_id, (categories.get(ann.category_id) || 0) + 1));
+
+    // Same paths as buildFileTree: the root, then each enclosing folder
+    const parts = img.file_name.split(/[/\\]/);
+    let path = '';
+    for (let i = 0; i < parts.length; i++) {
+      const folder = getStats(path);
+      folder.images++;
+      folder.annotations += annotations.length;
+      categories.forEach((count, key) => folder.categories.set(key, (folder.categories.get(key) || 0) + count));
+      if (i === parts.length - 1) break;
+      path = path ? `${path}/${parts[i]}` : parts[i];
+    }
+  });
+  return stats;
+};
+
+/**
+ * Example folder names at each level, for labelling the breakdown options.
+ */
+export const getFolderLevelExamples = (images: COCOImage[], level: number, max = 3): string[] => {
+  const names = new Set<string>();
+  for (const img of images) {
+    const folder = img.file_name.split(/[/\\]/).slice(0, -1)[level - 1];
+    if (folder) names.add(folder);
+    if (names.size >= max) break;
+  }
+  return Array.from(names);
+};
+
+const formatPowerOfTwo = (exponent: number) => exponent >= 0 ? `${2 ** exponent}` : `1/${2 ** -exponent}`;
+
+const formatArea = (exponent: number) => {
+  const value = 2 ** exponent;
+  return value >= 1024 * 1024 ? `${value / (1024 * 1024)}M` : value >= 1024 ? `${value / 1024}k` : `${value}`;
+};
+
+// Labels for bins split at the given edges: "< e0", "e0-e1", ..., ">= eN"
+const edgeLabels = (edges: string[]): string[] => [
+  `< ${edges[0]}`,
+  ...edges.slice(1).map((edge, i) => `${edges[i]}-${edge}`),
+  `>= ${edges[edges.length - 1]}`
+];
+
+// Bin index of log2(value) for bins split at the given exponents
+const logBin = (value: number, exponents: number[]): number => {
+  const log = Math.log2(value);
+  let bin = 0;
+  while (bin < exponents.length && log >= exponents[bin]) bin++;
+  return bin;
+};
+
+/**
+ * Computes every statistic in one pass over images and annotations.
+ */
+export const computeDatasetStats = (data: COCOJson, level: number): DatasetStats => {
+  const groupOf = new Map<string, string>(); // image id -> group
+  const imageCounts: Record<string, number> = {};
+  data.images.forEach(img => {
+    const group = getFolderGroup(img.file_name, level);
+    groupOf.set(String(img.id), group);
+    imageCounts[group] = (imageCounts[group] || 0) + 1;
+  });
+  const groups = Object.keys(imageCounts).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const histogram = (labels: string[]): Histogram => ({
+    labels,
+    series: Object.fromEntries(groups.map(group => [group, new Array(labels.length).fill(0)]))
+  });
+
+  const categoryIndex = new Map<string, number>();
+  data.categories.forEach((cat, i) => categoryIndex.set(String(cat.id), i));
+  const categoryLabels = data.categories.map(cat => cat.name);
+  const hasUnknownCategory = data.annotations.some(ann => !categoryIndex.has(String(ann.category_id)));
+  if (hasUnknownCategory) categoryLabels.push('(unknown)');
+
+  const instancesPerCategory = histogram(categoryLabels);
+  const maskArea = histogram(edgeLabels(AREA_BIN_EXPONENTS.map(formatArea)));
+  const bboxAspectRatio = histogram(edgeLabels(ASPECT_BIN_EXPONENTS.map(formatPowerOfTwo)));
+
+  const annotationCounts: Record<string, number> = Object.fromEntries(groups.map(group => [group, 0]));
+  const perImage = new Map<string, number>();
+  const imageCategories = new Map<string, Set<number>>();
+
+  data.annotations.forEach(ann => {
+    const imageKey = String(ann.image_id);
+    const group = groupOf.get(imageKey);
+    // Annotations on missing images are reported by the validator, not counted here
+    if (group === undefined) return;
+    annotationCounts[group]++;
+    perImage.set(imageKey, (perImage.get(imageKey) || 0) + 1);
+
+    const category = categoryIndex.get(String(ann.category_id)) ?? categoryLabels.length - 1;
+    instancesPerCategory.series[group][category]++;
+    const seen = imageCategories.get(imageKey) || new Set<number>();
+    seen.add(category);
+    imageCategories.set(imageKey, seen);
+
+    if (typeof ann.area === 'number' && ann.area > 0) {
+      maskArea.series[group][logBin(ann.area, AREA_BIN_EXPONENTS)]++;
+    }
+    if (Array.isArray(ann.bbox) && ann.bbox[2] > 0 && ann.bbox[3] > 0) {
+      bboxAspectRatio.series[group][logBin(ann.bbox[2] / ann.bbox[3], ASPECT_BIN_EXPONENTS)]++;
+    }
+  });
+
+  const imagesPerCategory = histogram(categoryLabels);
+  const annotationsPerImage = histogram([...Array.from({ length: MAX_PER_IMAGE_BIN }, (_, i) => `${i}`), `${MAX_PER_IMAGE_BIN}+`]);
+  const sizeCounts = new Map<string, Record<string, number>>();
+  const emptyImages: COCOImage[] = [];
+
+  data.images.forEach(img => {
+    const key = String(img.id);
+    const group = groupOf.get(key)!;
+    const count = perImage.get(key) || 0;
+    annotationsPerImage.series[group][Math.min(count, MAX_PER_IMAGE_BIN)]++;
+    if (count === 0) emptyImages.push(img);
+    imageCategories.get(key)?.forEach(category => imagesPerCategory.series[group][category]++);
+
+    const size = `${img.width}x${img.height}`;
+    const bySize = sizeCounts.get(size) || {};
+    bySize[group] = (bySize[group] || 0) + 1;
+    sizeCounts.set(size, bySize);
+  });
+
+  // Most common sizes first; the rest are summed into "Other"
+  const total = (counts: Record<string, number>) => Object.values(counts).reduce((sum, c) => sum + c, 0);
+  const sortedSizes = Array.from(sizeCounts.entries()).sort((a, b) => total(b[1]) - total(a[1]));
+  const shownSizes = sortedSizes.slice(0, MAX_IMAGE_SIZES);
+  const otherSizes = sortedSizes.slice(MAX_IMAGE_SIZES);
+  const imageSizes = histogram([...shownSizes.map(([size]) => size), ...(otherSizes.length > 0 ? ['Other'] : [])]);
+  groups.forEach(group => {
+    shownSizes.forEach(([, counts], i) => { imageSizes.series[group][i] = counts[group] || 0; });
+    if (otherSizes.length > 0) {
+      imageSizes.series[group][shownSizes.length] = otherSizes.reduce((sum, [, counts]) => sum + (counts[group] || 0), 0);
+    }
+  });
+
+  return {
+    groups,
+    imageCounts,
+    annotationCounts,
+    instancesPerCategory,
+    imagesPerCategory,
+    annotationsPerImage,
+    maskArea,
+    bboxAspectRatio,
+    imageSizes,
+    emptyImages,
+  };
+};
@@ -0,0 +1,315 @@
+import { RasterImage, PixelArray, getValueRange, rangeWindow } from './raster';
+
+/**
+ * Baseline TIFF decoder (first page only).
+ * Supports strips and tiles; uncompressed, LZW, Deflate and PackBits; horizontal predictor;
+ * 8/16/32-bit integer and 32/64-bit float samples; grayscale and RGB(A), chunky layout.
+ */
+
+const TAG = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  sampleFormat: 339,
+};
+
+const COMPRESSION_NAMES: Record<number, string> = {
+  1: 'None',
+  5: 'LZW',
+  8: 'Deflate',
+  32946: 'Deflate',
+  32773: 'PackBits',
+};
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 16: 8 };
+
+/**
+ * Reads the first IFD into a tag -> values map.
+ */
+const readIfd = (view: DataView, littleEndian: boolean): Map<number, number[]> => {
+  const tags = new Map<number, number[]>();
+  const ifdOffset = view.getUint32(4, littleEndian);
+  const count = view.getUint16(ifdOffset, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const n = view.getUint32(entry + 4, littleEndian);
+    const size = TYPE_SIZES[type] || 1;
+    // Values that fit in 4 bytes are stored inline
+    const valueOffset = size * n <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+
+    const values: number[] = [];
+    for (let k = 0; k < n; k++) {
+      const p = valueOffset + k * size;
+      switch (type) {
+        case 3: values.push(view.getUint16(p, littleEndian)); break;
+        case 4: values.push(view.getUint32(p, littleEndian)); break;
+        case 8: values.push(view.getInt16(p, littleEndian)); break;
+        case 9: values.push(view.getInt32(p, littleEndian)); break;
+        case 16: values.push(Number(view.getBigUint64(p, littleEndian))); break;
+        default: values.push(view.getUint8(p));
+      }
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+/**
+ * TIFF-flavoured LZW (MSB-first codes, early change).
+ */
+const decodeLzw = (input: Uint8Array, expectedLength: number): Uint8Array => {
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    lengths[i] = 1;
+  }
+
+  let out = new Uint8Array(expectedLength);
+  let outPos = 0;
+  let bitPos = 0;
+  let width = 9;
+  let nextCode = 258;
+  let prev = -1;
+
+  const readCode = () => {
+    let code = 0;
+    for (let i = 0; i < width; i++) {
+      const byte = input[bitPos >> 3];
+      code = (code << 1) | ((byte >> (7 - (bitPos & 7))) & 1);
+      bitPos++;
+    }
+    return code;
+  };
+
+  const ensure = (extra: number) => {
+    if (outPos + extra <= out.length) return;
+    const grown = new Uint8Array(Math.max(out.length * 2, outPos + extra));
+    grown.set(out);
+    out = grown;
+  };
+
+  const write = (code: number) => {
+    const len = lengths[code];
+    ensure(len);
+    let c = code;
+    for (let i = len - 1; i >= 0; i--) {
+      out[outPos + i] = suffix[c];
+      c = prefix[c];
+    }
+    outPos += len;
+  };
+
+  const firstByte = (code: number) => {
+    let c = code;
+    while (prefix[c] !== -1) c = prefix[c];
+    return suffix[c];
+  };
+
+  while (bitPos + width <= input.length * 8) {
+    const code = readCode();
+    if (code === 257) break; // End of information
+    if (code === 256) { // Clear
+      width = 9;
+      nextCode = 258;
+      prev = -1;
+      continue;
+    }
+    if (prev === -1) {
+      write(code);
+      prev = code;
+      continue;
+    }
+
+    const first = code < nextCode ? firstByte(code) : firstByte(prev);
+    if (nextCode < 4096) {
+      prefix[nextCode] = prev;
+      suffix[nextCode] = first;
+      lengths[nextCode] = lengths[prev] + 1;
+      nextCode++;
+    }
+    write(code);
+    prev = code;
+    if (nextCode >= (1 << width) - 1 && width < 12) width++;
+  }
+
+  return out.subarray(0, outPos);
+};
+
+const decodePackBits = (input: Uint8Array, expectedLength: number): Uint8Array => {
+  const out = new Uint8Array(expectedLength);
+  let p = 0;
+  let o = 0;
+  while (p < input.length && o < expectedLength) {
+    const n = (input[p++] << 24) >> 24;
+    if (n >= 0) {
+      out.set(input.subarray(p, p + n + 1).subarray(0, expectedLength - o), o);
+      p += n + 1;
+      o += n + 1;
+    } else if (n > -128) {
+      out.fill(input[p++], o, Math.min(o + 1 - n, expectedLength));
+      o += 1 - n;
+    }
+  }
+  return out;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Creates a typed array matching the sample format and bit depth.
+ */
+const createSampleArray = (bits: number, format: number, length: number): PixelArray => {
+  if (format === 3) {
+    if (bits === 32) return new Float32Array(length);
+    if (bits === 64) return new Float64Array(length);
+  } else if (format === 2) {
+    if (bits === 8) return new Int8Array(length);
+    if (bits === 16) return new Int16Array(length);
+    if (bits === 32) return new Int32Array(length);
+  } else {
+    if (bits === 8) return new Uint8Array(length);
+    if (bits === 16) return new Uint16Array(length);
+    if (bits === 32) return new Uint32Array(length);
+  }
+  throw new Error(`Unsupported TIFF sample type (${bits}-bit, format ${format}).`);
+};
+
+/**
+ * Decodes the first page of a TIFF file, keeping the raw sample values.
+ */
+export const decodeTiff = async (buffer: ArrayBuffer): Promise<RasterImage> => {
+  const view = new DataView(buffer);
+  const order = String.fromCharCode(view.getUint8(0), view.getUint8(1));
+  if (order !== 'II' && order !== 'MM') throw new Error("Not a TIFF file.");
+  const littleEndian = order === 'II';
+  if (view.getUint16(2, littleEndian) !== 42) throw new Error("BigTIFF files are not supported.");
+
+  const tags = readIfd(view, littleEndian);
+  const get = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+
+  const width = get(TAG.imageWidth, 0);
+  const height = get(TAG.imageLength, 0);
+  const samplesPerPixel = get(TAG.samplesPerPixel, 1);
+  const bits = get(TAG.bitsPerSample, 1);
+  const compression = get(TAG.compression, 1);
+  const photometric = get(TAG.photometric, 1);
+  const predictor = get(TAG.predictor, 1);
+  const sampleFormat = get(TAG.sampleFormat, 1);
+
+  if (!width || !height) throw new Error("TIFF has no image dimensions.");
+  if (!(compression in COMPRESSION_NAMES)) throw new Error(`Unsupported TIFF compression ${compression}.`);
+  if (get(TAG.planarConfiguration, 1) !== 1 && samplesPerPixel > 1) throw new Error("Planar TIFF layout is not supported.");
+  if (photometric === 3) throw new Error("Palette TIFFs are not supported.");
+  if (bits % 8 !== 0) throw new Error(`Unsupported TIFF bit depth ${bits}.`);
+  if (predictor === 3) throw new Error("Floating point predictor is not supported.");
+
+  const bytesPerSample = bits / 8;
+  const image = createSampleArray(bits, sampleFormat, width * height * samplesPerPixel);
+
+  // Chunks are either strips (full width) or tiles
+  const tiled = tags.has(TAG.tileOffsets);
+  const offsets = tags.get(tiled ? TAG.tileOffsets : TAG.stripOffsets) || [];
+  const byteCounts = tags.get(tiled ? TAG.tileByteCounts : TAG.stripByteCounts) || [];
+  const chunkWidth = tiled ? get(TAG.tileWidth, width) : width;
+  const chunkHeight = tiled ? get(TAG.tileLength, height) : Math.min(get(TAG.rowsPerStrip, height), height);
+  const tilesAcross = Math.ceil(width / chunkWidth);
+
+  const bytes = new Uint8Array(buffer);
+  const chunkSamples = chunkWidth * chunkHeight * samplesPerPixel;
+  const chunkBytes = chunkSamples * bytesPerSample;
+
+  for (let i = 0; i < offsets.length; i++) {
+    const raw = bytes.subarray(offsets[i], offsets[i] + byteCounts[i]);
+    let decoded: Uint8Array;
+    if (compression === 5) decoded = decodeLzw(raw, chunkBytes);
+    else if (compression === 8 || compression === 32946) decoded = await inflate(raw);
+    else if (compression === 32773) decoded = decodePackBits(raw, chunkBytes);
+    else decoded = raw;
+
+    // Convert bytes to samples in file byte order
+    const chunk = createSampleArray(bits, sampleFormat, chunkSamples);
+    const chunkView = new DataView(decoded.buffer, decoded.byteOffset, decoded.byteLength);
+    const available = Math.min(chunkSamples, Math.floor(decoded.length / bytesPerSample));
+    for (let s = 0; s < available; s++) {
+      const p = s * bytesPerSample;
+      if (bits === 8) chunk[s] = sampleFormat === 2 ? chunkView.getInt8(p) : chunkView.getUint8(p);
+      else if (bits === 16) chunk[s] = sampleFormat === 2 ? chunkView.getInt16(p, littleEndian) : chunkView.getUint16(p, littleEndian);
+      else if (bits === 32 && sampleFormat === 3) chunk[s] = chunkView.getFloat32(p, littleEndian);
+      else if (bits === 32) chunk[s] = sampleFormat === 2 ? chunkView.getInt32(p, littleEndian) : chunkView.getUint32(p, littleEndian);
+      else chunk[s] = chunkView.getFloat64(p, littleEndian);
+    }
+
+    // Horizontal differencing is undone per chunk row
+    if (predictor === 2) {
+      const rowLength = chunkWidth * samplesPerPixel;
+      for (let row = 0; row < chunkHeight; row++) {
+        const base = row * rowLength;
+        for (let k = samplesPerPixel; k < rowLength; k++) {
+          chunk[base + k] += chunk[base + k - samplesPerPixel];
+        }
+      }
+    }
+
+    // Copy into the image, clipping tiles at the right/bottom edge
+    const x0 = tiled ? (i % tilesAcross) * chunkWidth : 0;
+    const y0 = tiled ? Math.floor(i / tilesAcross) * chunkHeight : i * chunkHeight;
+    const copyWidth = Math.min(chunkWidth, width - x0);
+    for (let row = 0; row < chunkHeight && y0 + row < height; row++) {
+      const src = row * chunkWidth * samplesPerPixel;
+      const dst = ((y0 + row) * width + x0) * samplesPerPixel;
+      image.set(chunk.subarray(src, src + copyWidth * samplesPerPixel), dst);
+    }
+  }
+
+  // Keep gray or RGB; extra (alpha) samples are dropped
+  const channels: 1 | 3 = samplesPerPixel >= 3 ? 3 : 1;
+  let data: PixelArray = image;
+  if (samplesPerPixel !== channels) {
+    data = createSampleArray(bits, sampleFormat, width * height * channels);
+    for (let p = 0; p < width * height; p++) {
+      for (let c = 0; c < channels; c++) data[p * channels + c] = image[p * samplesPerPixel + c];
+    }
+  }
+
+  const { min, max } = getValueRange(data);
+  const formatName = sampleFormat === 3 ? 'float' : sampleFormat === 2 ? 'signed' : 'unsigned';
+  return {
+    width,
+    height,
+    channels,
+    data,
+    min,
+    max,
+    defaultWindow: bits === 8 && sampleFormat === 1 ? rangeWindow(0, 255) : rangeWindow(min, max),
+    // WhiteIsZero stores inverted grayscale
+    invertDisplay: photometric === 0,
+    metadata: {
+      'Format': 'TIFF',
+      'Bit Depth': `${bits}-bit ${formatName}, ${samplesPerPixel} sample${samplesPerPixel > 1 ? 's' : ''}`,
+      'Compression': COMPRESSION_NAMES[compression],
+      'Value Range': `${+min.toFixed(3)} - ${+max.toFixed(3)}`,
+    }
+  };
+};
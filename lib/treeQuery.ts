@@ -0,0 +1,242 @@
+import { COCOImage, COCOAnnotation } from '../types';
+import { DatasetIndex, getImageAnnotations } from './datasetIndex';
+
+/**
+ * Query language of the JSON Tree search, e.g.
+ *   category:tumor annotations>3 width>=512 path:CT/* iscrowd:1
+ *   (category:liver AND category:lesion>1) OR NOT empty:true
+ * Terms next to each other are ANDed; AND / OR / NOT (any case), a leading "-" and parentheses combine them.
+ * A bare word keeps the old behaviour: substring of file_name or id.
+ */
+
+export type TreeQuery = (image: COCOImage) => boolean;
+
+type Comparator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+interface ImageContext {
+  image: COCOImage;
+  annotations: COCOAnnotation[];
+}
+
+type Predicate = (ctx: ImageContext) => boolean;
+
+// Field reference shown in the search help
+export const TREE_QUERY_FIELDS: { syntax: string; description: string }[] = [
+  { syntax: 'category:liver', description: 'Has an annotation of the category (name or id, * wildcards)' },
+  { syntax: 'category:lesion>1', description: 'More than one annotation of the category' },
+  { syntax: 'annotations>3', description: 'Annotation count (also categories, for distinct categories)' },
+  { syntax: 'width>=512', description: 'Image width, height or id' },
+  { syntax: 'area<100', description: 'Has an annotation with area in range' },
+  { syntax: 'path:CT/*', description: 'file_name glob (* and ?), or substring without wildcards' },
+  { syntax: 'iscrowd:1', description: 'Has a crowd (1) or non-crowd (0) annotation' },
+  { syntax: 'empty:true', description: 'Has no annotations' },
+  { syntax: 'a OR NOT b', description: 'AND is implied; use OR, NOT / -term and parentheses' },
+];
+
+const COMPARATOR_PATTERN = /^([a-z_]+)(:|>=|<=|!=|>|<|=)(.*)$/i;
+const COUNT_SUFFIX_PATTERN = /^(.*?)(>=|<=|!=|>|<|=)(\d+)$/;
+
+const compare = (value: number, op: Comparator, target: number): boolean => {
+  switch (op) {
+    case '=': return value === target;
+    case '!=': return value !== target;
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+  }
+};
+
+const hasWildcard = (pattern: string) => /[*?]/.test(pattern);
+
+// Anchored, case-insensitive glob: * matches any run of characters (including /), ? one character
+const globToRegExp = (pattern: string) =>
+  new RegExp('^' + pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$', 'i');
+
+const parseNumber = (field: string, value: string): number => {
+  const number = Number(value);
+  if (value === '' || !isFinite(number)) throw new Error(`"${field}" needs a number, got "${value}"`);
+  return number;
+};
+
+const parseBoolean = (field: string, value: string): boolean => {
+  const lower = value.toLowerCase();
+  if (lower === 'true' || lower === '1' || lower === 'yes') return true;
+  if (lower === 'false' || lower === '0' || lower === 'no') return false;
+  throw new Error(`"${field}" needs true or false, got "${value}"`);
+};
+
+// Splits the query into parentheses and words; quotes keep spaces inside a word and are dropped
+const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push(char);
+      i++;
+    } else {
+      let word = '';
+      while (i < text.length && !/[\s()]/.test(text[i])) {
+        if (text[i] === '"') {
+          const end = text.indexOf('"', i + 1);
+          if (end < 0) throw new Error('Missing closing quote');
+          word += text.slice(i + 1, end);
+          i = end + 1;
+        } else {
+          word += text[i++];
+        }
+      }
+      tokens.push(word);
+    }
+  }
+  return tokens;
+};
+
+const compileTerm = (term: string, index: DatasetIndex): Predicate => {
+  const match = term.match(COMPARATOR_PATTERN);
+  if (!match) {
+    // Bare word: substring of the path or id
+    const lower = term.toLowerCase();
+    return ({ image }) => image.file_name.toLowerCase().includes(lower) || String(image.id).includes(lower);
+  }
+
+  const field = match[1].toLowerCase();
+  const op = (match[2] === ':' ? '=' : match[2]) as Comparator;
+  const value = match[3];
+  const requireEquality = () => {
+    if (op !== '=') throw new Error(`"${field}" only supports ":"`);
+  };
+
+  switch (field) {
+    case 'category':
+    case 'cat': {
+      requireEquality();
+      // An optional count comparison follows the name: category:lesion>1
+      const countMatch = value.match(COUNT_SUFFIX_PATTERN);
+      const name = countMatch ? countMatch[1] : value;
+      const countOp = countMatch ? countMatch[2] as Comparator : '>=';
+      const count = countMatch ? Number(countMatch[3]) : 1;
+      const nameRegExp = globToRegExp(name);
+      const ids = new Set<string>();
+      index.categoriesById.forEach((cat, id) => {
+        if (id === name || nameRegExp.test(cat.name)) ids.add(id);
+      });
+      if (ids.size === 0) throw new Error(`Unknown category "${name}"`);
+      return ({ annotations }) => {
+        let n = 0;
+        annotations.forEach(ann => {
+          if (ids.has(String(ann.category_id))) n++;
+        });
+        return compare(n, countOp, count);
+      };
+    }
+    case 'annotations':
+    case 'anns': {
+      const target = parseNumber(field, value);
+      return ({ annotations }) => compare(annotations.length, op, target);
+    }
+    case 'categories': {
+      const target = parseNumber(field, value);
+      return ({ annotations }) => compare(new Set(annotations.map(ann => String(ann.category_id))).size, op, target);
+    }
+    case 'width':
+    case 'height': {
+      const target = parseNumber(field, value);
+      return ({ image }) => compare(image[field], op, target);
+    }
+    case 'id': {
+      // String ids only support equality
+      if (op === '=' && !isFinite(Number(value))) return ({ image }) => String(image.id) === value;
+      const target = parseNumber(field, value);
+      return ({ image }) => compare(Number(image.id), op, target);
+    }
+    case 'area': {
+      const target = parseNumber(field, value);
+      return ({ annotations }) => annotations.some(ann => compare(ann.area, op, target));
+    }
+    case 'path':
+    case 'file': {
+      requireEquality();
+      if (hasWildcard(value)) {
+        const regExp = globToRegExp(value);
+        return ({ image }) => regExp.test(image.file_name.replace(/\\/g, '/'));
+      }
+      const lower = value.toLowerCase();
+      return ({ image }) => image.file_name.toLowerCase().includes(lower);
+    }
+    case 'iscrowd': {
+      requireEquality();
+      const crowd = parseBoolean(field, value) ? 1 : 0;
+      return ({ annotations }) => annotations.some(ann => (ann.iscrowd ? 1 : 0) === crowd);
+    }
+    case 'empty': {
+      requireEquality();
+      const empty = parseBoolean(field, value);
+      return ({ annotations }) => (annotations.length === 0) === empty;
+    }
+    default:
+      throw new Error(`Unknown field "${match[1]}"`);
+  }
+};
+
+/**
+ * Compiles a query into an image filter; null for a blank query.
+ * Throws an Error describing the first problem (unknown field or category, bad value, unbalanced parentheses).
+ */
+export const compileTreeQuery = (text: string, index: DatasetIndex): TreeQuery | null => {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return null;
+  let pos = 0;
+
+  const isKeyword = (token: string | undefined, keyword: string) => token?.toUpperCase() === keyword;
+
+  const parseOr = (): Predicate => {
+    const terms = [parseAnd()];
+    while (isKeyword(tokens[pos], 'OR')) {
+      pos++;
+      terms.push(parseAnd());
+    }
+    return terms.length === 1 ? terms[0] : ctx => terms.some(term => term(ctx));
+  };
+
+  const parseAnd = (): Predicate => {
+    const terms = [parseUnary()];
+    while (pos < tokens.length && tokens[pos] !== ')' && !isKeyword(tokens[pos], 'OR')) {
+      if (isKeyword(tokens[pos], 'AND')) pos++;
+      terms.push(parseUnary());
+    }
+    return terms.length === 1 ? terms[0] : ctx => terms.every(term => term(ctx));
+  };
+
+  const parseUnary = (): Predicate => {
+    const token = tokens[pos];
+    if (token === undefined) throw new Error('Query ends too early');
+    if (isKeyword(token, 'NOT') || (token === '-' && tokens[pos + 1] === '(')) {
+      pos++;
+      const inner = parseUnary();
+      return ctx => !inner(ctx);
+    }
+    if (token === '(') {
+      pos++;
+      const inner = parseOr();
+      if (tokens[pos] !== ')') throw new Error('Missing closing parenthesis');
+      pos++;
+      return inner;
+    }
+    if (token === ')') throw new Error('Unexpected ")"');
+    if (isKeyword(token, 'AND') || isKeyword(token, 'OR')) throw new Error(`Unexpected ${token.toUpperCase()}`);
+    pos++;
+    if (token.length > 1 && token.startsWith('-')) {
+      const inner = compileTerm(token.slice(1), index);
+      return ctx => !inner(ctx);
+    }
+    return compileTerm(token, index);
+  };
+
+  const predicate = parseOr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  return image => predicate({ image, annotations: getImageAnnotations(index, image.id) });
+};
@@ -0,0 +1,67 @@
+import { WindowLevel } from '../types';
+
+/**
+ * View state kept in the URL hash, so a view can be shared as a link, e.g.
+ *   #tab=upload&image=18342&cats=3&zoom=2,256,310&win=40,400
+ * Ids are kept as strings, since JSON ids may be numbers or strings.
+ */
+
+// Zoom level and the image point at the center of the viewport, independent of the window size
+export interface ViewFocus {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface UrlState {
+  tab: string | null;
+  imageId: string | null; // Image in the viewer (Uploads tab) or the tree preview
+  query: string; // JSON Tree search
+  visibleCategoryIds: string[] | null; // null = every category
+  focus: ViewFocus | null;
+  window: WindowLevel | null;
+  invert: boolean;
+}
+
+const parseNumbers = (value: string | null, count: number): number[] | null => {
+  if (!value) return null;
+  const numbers = value.split(',').map(Number);
+  return numbers.length === count && numbers.every(isFinite) ? numbers : null;
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Reads the hash (with or without the leading "#"); missing or malformed entries are left empty.
+ */
+export const parseUrlHash = (hash: string): UrlState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const cats = params.get('cats');
+  const zoom = parseNumbers(params.get('zoom'), 3);
+  const win = parseNumbers(params.get('win'), 2);
+  return {
+    tab: params.get('tab'),
+    imageId: params.get('image') || null,
+    query: params.get('q') ?? '',
+    visibleCategoryIds: cats === null ? null : cats.split(',').filter(id => id !== ''),
+    focus: zoom && zoom[0] > 0 ? { scale: zoom[0], x: zoom[1], y: zoom[2] } : null,
+    window: win && win[1] > 0 ? { center: win[0], width: win[1] } : null,
+    invert: params.get('inv') === '1',
+  };
+};
+
+/**
+ * Hash for a state (without the "#"); defaults are left out to keep links short.
+ */
+export const formatUrlHash = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  if (state.tab) params.set('tab', state.tab);
+  if (state.imageId !== null) params.set('image', state.imageId);
+  if (state.query) params.set('q', state.query);
+  if (state.visibleCategoryIds) params.set('cats', state.visibleCategoryIds.join(','));
+  if (state.focus) params.set('zoom', [round(state.focus.scale, 3), round(state.focus.x, 1), round(state.focus.y, 1)].join(','));
+  if (state.window) params.set('win', [round(state.window.center, 1), round(state.window.width, 1)].join(','));
+  if (state.invert) params.set('inv', '1');
+  // Commas, colons and slashes are valid in a fragment; unescaped they keep shared links readable
+  return params.toString().replace(/%2C/g, ',').replace(/%3A/g, ':').replace(/%2F/g, '/');
+};
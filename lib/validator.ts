@@ -0,0 +1,170 @@
+import { COCOJson, COCOImage } from '../types';
+import { isRle, getRleCounts, polygonsToRle, rleArea } from '../utils';
+
+/**
+ * Dataset integrity checks that catch problems which break training pipelines
+ * (pycocotools, detectron2, mmdet) but load fine in the viewer.
+ */
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueType =
+  | 'duplicate-image-id'
+  | 'duplicate-annotation-id'
+  | 'string-id'
+  | 'missing-image'
+  | 'unknown-category'
+  | 'rle-size-mismatch'
+  | 'invalid-rle'
+  | 'invalid-bbox'
+  | 'bbox-out-of-bounds'
+  | 'area-mismatch';
+
+export const ISSUE_TYPES: Record<IssueType, { title: string; severity: IssueSeverity }> = {
+  'duplicate-image-id': { title: 'Duplicate image IDs', severity: 'error' },
+  'duplicate-annotation-id': { title: 'Duplicate annotation IDs', severity: 'error' },
+  'missing-image': { title: 'Annotations on missing images', severity: 'error' },
+  'unknown-category': { title: 'Unknown category_id', severity: 'error' },
+  'rle-size-mismatch': { title: 'RLE size differs from image', severity: 'error' },
+  'invalid-rle': { title: 'Invalid RLE counts', severity: 'error' },
+  'invalid-bbox': { title: 'Malformed bbox', severity: 'error' },
+  'string-id': { title: 'String IDs', severity: 'warning' },
+  'bbox-out-of-bounds': { title: 'BBox outside the image', severity: 'warning' },
+  'area-mismatch': { title: 'Area differs from mask', severity: 'warning' },
+};
+
+export interface ValidationIssue {
+  type: IssueType;
+  message: string;
+  imageId?: number | string; // As stored in the JSON
+  annotationId?: number | string;
+}
+
+export interface IssueGroup {
+  type: IssueType;
+  title: string;
+  severity: IssueSeverity;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationReport {
+  groups: IssueGroup[]; // Errors first, empty groups omitted
+  errorCount: number;
+  warningCount: number;
+  checkedAnnotations: number;
+}
+
+// Area may differ slightly from the decoded mask (e.g. polygon area vs. raster area)
+const AREA_TOLERANCE_RATIO = 0.05;
+const AREA_TOLERANCE_PIXELS = 2;
+// Sub-pixel overshoot is common with float boxes and harmless
+const BBOX_TOLERANCE = 1;
+
+/**
+ * Runs every check over the dataset and groups the findings by type.
+ */
+export const validateDataset = (data: COCOJson): ValidationReport => {
+  const issues: ValidationIssue[] = [];
+  const add = (issue: ValidationIssue) => issues.push(issue);
+
+  // Images: duplicates and string IDs (IDs are keyed as strings to catch "1" vs 1)
+  const imagesById = new Map<string, COCOImage>();
+  data.images.forEach(img => {
+    const key = String(img.id);
+    if (imagesById.has(key)) {
+      add({ type: 'duplicate-image-id', message: `Image ID ${img.id} is used by "${imagesById.get(key)!.file_name}" and "${img.file_name}"`, imageId: img.id });
+    } else {
+      imagesById.set(key, img);
+    }
+    if (typeof img.id === 'string') {
+      add({ type: 'string-id', message: `Image "${img.file_name}" has string ID "${img.id}"`, imageId: img.id });
+    }
+  });
+
+  const categoryIds = new Set<string>();
+  data.categories.forEach(cat => {
+    categoryIds.add(String(cat.id));
+    if (typeof cat.id === 'string') {
+      add({ type: 'string-id', message: `Category "${cat.name}" has string ID "${cat.id}"` });
+    }
+  });
+
+  const annotationIds = new Set<string>();
+  data.annotations.forEach(ann => {
+    const ref = { imageId: ann.image_id, annotationId: ann.id };
+    const label = `Annotation ${ann.id}`;
+
+    if (annotationIds.has(String(ann.id))) {
+      add({ type: 'duplicate-annotation-id', message: `${label} appears more than once`, ...ref });
+    }
+    annotationIds.add(String(ann.id));
+
+    const stringFields = (['id', 'image_id', 'category_id'] as const).filter(field => typeof ann[field] === 'string');
+    if (stringFields.length > 0) {
+      add({ type: 'string-id', message: `${label} stores ${stringFields.join(', ')} as string`, ...ref });
+    }
+
+    if (!categoryIds.has(String(ann.category_id))) {
+      add({ type: 'unknown-category', message: `${label} uses category_id ${ann.category_id}, which is not defined`, ...ref });
+    }
+
+    const image = imagesById.get(String(ann.image_id));
+    if (!image) {
+      add({ type: 'missing-image', message: `${label} refers to image ${ann.image_id}, which does not exist`, annotationId: ann.id });
+    }
+
+    // BBox shape and bounds
+    const bbox = ann.bbox;
+    if (bbox !== undefined) {
+      if (!Array.isArray(bbox) || bbox.length !== 4 || bbox.some(v => typeof v !== 'number' || !isFinite(v)) || bbox[2] <= 0 || bbox[3] <= 0) {
+        add({ type: 'invalid-bbox', message: `${label} has bbox ${JSON.stringify(bbox)}`, ...ref });
+      } else if (image) {
+        const [x, y, w, h] = bbox;
+        if (x < -BBOX_TOLERANCE || y < -BBOX_TOLERANCE || x + w > image.width + BBOX_TOLERANCE || y + h > image.height + BBOX_TOLERANCE) {
+          add({ type: 'bbox-out-of-bounds', message: `${label} bbox [${bbox.map(v => +v.toFixed(1)).join(', ')}] exceeds ${image.width}x${image.height}`, ...ref });
+        }
+      }
+    }
+
+    // Mask size and area
+    const seg = ann.segmentation;
+    if (!seg) return;
+    let decodedArea: number | null = null;
+    if (isRle(seg)) {
+      const [h, w] = seg.size || [];
+      if (image && (h !== image.height || w !== image.width)) {
+        add({ type: 'rle-size-mismatch', message: `${label} RLE size is ${h}x${w} (h x w), image is ${image.height}x${image.width}`, ...ref });
+      }
+      const counts = getRleCounts(seg);
+      const total = counts ? counts.reduce((sum, c) => sum + c, 0) : -1;
+      if (!counts || counts.some(c => c < 0) || total !== h * w) {
+        add({ type: 'invalid-rle', message: `${label} RLE counts cover ${total < 0 ? 'an unreadable number of' : total} pixels, expected ${h * w}`, ...ref });
+      } else {
+        decodedArea = rleArea(counts);
+      }
+    } else if (Array.isArray(seg) && seg.length > 0 && image) {
+      const rle = polygonsToRle(seg, image.height, image.width);
+      decodedArea = rleArea(rle.counts as number[]);
+    }
+
+    if (decodedArea !== null && typeof ann.area === 'number') {
+      const diff = Math.abs(ann.area - decodedArea);
+      if (diff > Math.max(AREA_TOLERANCE_PIXELS, decodedArea * AREA_TOLERANCE_RATIO)) {
+        add({ type: 'area-mismatch', message: `${label} area is ${+ann.area.toFixed(1)}, mask has ${decodedArea} px`, ...ref });
+      }
+    }
+  });
+
+  const severityRank: Record<IssueSeverity, number> = { error: 0, warning: 1 };
+  const groups = (Object.keys(ISSUE_TYPES) as IssueType[])
+    .map(type => ({ type, ...ISSUE_TYPES[type], issues: issues.filter(issue => issue.type === type) }))
+    .filter(group => group.issues.length > 0)
+    .sort((a, b) => severityRank[a.severity] - severityRank[b.severity]);
+
+  return {
+    groups,
+    errorCount: issues.filter(issue => ISSUE_TYPES[issue.type].severity === 'error').length,
+    warningCount: issues.filter(issue => ISSUE_TYPES[issue.type].severity === 'warning').length,
+    checkedAnnotations: data.annotations.length,
+  };
+};
@@ -0,0 +1,70 @@
+/**
+ * A fixed set of identical workers sharing a task queue: each task goes to the least busy worker.
+ * Workers receive { taskId, request } and answer { taskId, result } or { taskId, error }.
+ */
+
+export interface WorkerTaskMessage<Request> {
+  taskId: number;
+  request: Request;
+}
+
+export type WorkerReplyMessage<Result> =
+  | { taskId: number; result: Result }
+  | { taskId: number; error: string };
+
+export interface WorkerPool<Request, Result> {
+  run: (request: Request) => Promise<Result>;
+  terminate: () => void;
+}
+
+interface Slot {
+  worker: Worker;
+  busy: number;
+}
+
+export const createWorkerPool = <Request, Result>(createWorker: () => Worker, size: number): WorkerPool<Request, Result> => {
+  const tasks = new Map<number, { slot: Slot; resolve: (result: Result) => void; reject: (err: Error) => void }>();
+  let nextTaskId = 1;
+
+  const finish = (taskId: number) => {
+    const task = tasks.get(taskId);
+    if (!task) return null;
+    tasks.delete(taskId);
+    task.slot.busy--;
+    return task;
+  };
+
+  const slots: Slot[] = Array.from({ length: Math.max(1, size) }, () => {
+    const slot: Slot = { worker: createWorker(), busy: 0 };
+    slot.worker.onmessage = (e: MessageEvent<WorkerReplyMessage<Result>>) => {
+      const task = finish(e.data.taskId);
+      if (!task) return;
+      if ('error' in e.data) task.reject(new Error(e.data.error));
+      else task.resolve(e.data.result);
+    };
+    // A crashed worker fails everything it was given
+    slot.worker.onerror = (e) => {
+      Array.from(tasks.entries())
+        .filter(([, task]) => task.slot === slot)
+        .forEach(([taskId]) => finish(taskId)?.reject(new Error(e.message || 'Worker failed')));
+    };
+    return slot;
+  });
+
+  const run = (request: Request) => new Promise<Result>((resolve, reject) => {
+    const slot = slots.reduce((best, s) => s.busy < best.busy ? s : best);
+    const taskId = nextTaskId++;
+    tasks.set(taskId, { slot, resolve, reject });
+    slot.busy++;
+    const message: WorkerTaskMessage<Request> = { taskId, request };
+    slot.worker.postMessage(message);
+  });
+
+  const terminate = () => {
+    slots.forEach(slot => slot.worker.terminate());
+    tasks.forEach(task => task.reject(new Error('Worker pool terminated')));
+    tasks.clear();
+  };
+
+  return { run, terminate };
+};
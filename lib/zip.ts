@@ -0,0 +1,157 @@
+/**
+ * Minimal ZIP writer for downloads: entries are stored uncompressed (PNGs are already deflated),
+ * and ZIP64 records are added when the archive outgrows the classic 65535 entries / 4 GB limits.
+ * Entry data is kept as Blob parts, so the archive is never copied into one buffer.
+ */
+
+export interface ZipWriter {
+  add: (path: string, data: Uint8Array | string) => void;
+  finish: () => Blob;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (as used by ZIP and PNG) of the bytes, optionally continuing a previous value.
+ */
+export const crc32 = (bytes: Uint8Array, crc = 0): number => {
+  let c = ~crc;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+};
+
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+
+interface Entry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// Little-endian record builder
+const record = (size: number, write: (view: DataView) => void) => {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+};
+
+// Modification time and date in MS-DOS format
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZipWriter = (): ZipWriter => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const entries: Entry[] = [];
+  const { time, date } = dosDateTime(new Date());
+  let offset = 0;
+
+  const push = (bytes: Uint8Array) => {
+    parts.push(bytes as Uint8Array<ArrayBuffer>);
+    offset += bytes.length;
+  };
+
+  const add = (path: string, content: Uint8Array | string) => {
+    const data = typeof content === 'string' ? encoder.encode(content) : content;
+    if (data.length >= UINT32_MAX) throw new Error(`${path} is too large for a ZIP entry`);
+    const entry: Entry = { name: encoder.encode(path), crc: crc32(data), size: data.length, offset };
+    entries.push(entry);
+
+    push(record(30, view => {
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(4, 20, true); // Version needed
+      view.setUint16(6, 0x0800, true); // UTF-8 names
+      view.setUint16(8, 0, true); // Stored
+      view.setUint16(10, time, true);
+      view.setUint16(12, date, true);
+      view.setUint32(14, entry.crc, true);
+      view.setUint32(18, entry.size, true);
+      view.setUint32(22, entry.size, true);
+      view.setUint16(26, entry.name.length, true);
+      view.setUint16(28, 0, true);
+    }));
+    push(entry.name);
+    push(data);
+  };
+
+  const finish = () => {
+    const directoryOffset = offset;
+    entries.forEach(entry => {
+      // Offsets past 4 GB move to a ZIP64 extra field
+      const needsZip64 = entry.offset >= UINT32_MAX;
+      push(record(46, view => {
+        view.setUint32(0, 0x02014b50, true);
+        view.setUint16(4, needsZip64 ? 45 : 20, true); // Version made by
+        view.setUint16(6, needsZip64 ? 45 : 20, true); // Version needed
+        view.setUint16(8, 0x0800, true);
+        view.setUint16(10, 0, true);
+        view.setUint16(12, time, true);
+        view.setUint16(14, date, true);
+        view.setUint32(16, entry.crc, true);
+        view.setUint32(20, entry.size, true);
+        view.setUint32(24, entry.size, true);
+        view.setUint16(28, entry.name.length, true);
+        view.setUint16(30, needsZip64 ? 12 : 0, true);
+        // Comment length, disk number, internal and external attributes stay 0
+        view.setUint32(42, needsZip64 ? UINT32_MAX : entry.offset, true);
+      }));
+      push(entry.name);
+      if (needsZip64) {
+        push(record(12, view => {
+          view.setUint16(0, 0x0001, true);
+          view.setUint16(2, 8, true);
+          setUint64(view, 4, entry.offset);
+        }));
+      }
+    });
+    const directorySize = offset - directoryOffset;
+
+    const needsZip64 = entries.length > UINT16_MAX || directoryOffset >= UINT32_MAX || directorySize >= UINT32_MAX;
+    if (needsZip64) {
+      const zip64Offset = offset;
+      push(record(56, view => {
+        view.setUint32(0, 0x06064b50, true);
+        setUint64(view, 4, 44); // Size of the rest of this record
+        view.setUint16(12, 45, true);
+        view.setUint16(14, 45, true);
+        setUint64(view, 24, entries.length);
+        setUint64(view, 32, entries.length);
+        setUint64(view, 40, directorySize);
+        setUint64(view, 48, directoryOffset);
+      }));
+      push(record(20, view => {
+        view.setUint32(0, 0x07064b50, true);
+        setUint64(view, 8, zip64Offset);
+        view.setUint32(16, 1, true); // Total number of disks
+      }));
+    }
+    push(record(22, view => {
+      view.setUint32(0, 0x06054b50, true);
+      view.setUint16(8, Math.min(entries.length, UINT16_MAX), true);
+      view.setUint16(10, Math.min(entries.length, UINT16_MAX), true);
+      view.setUint32(12, Math.min(directorySize, UINT32_MAX), true);
+      view.setUint32(16, Math.min(directoryOffset, UINT32_MAX), true);
+    }));
+
+    return new Blob(parts, { type: 'application/zip' });
+  };
+
+  return { add, finish };
+};
@@ -20,11 +20,14 @@ export interface COCORLE {
   size: [number, number]; // [height, width]
 }
 
+// Polygon segmentation: one flat [x1, y1, x2, y2, ...] list per part
+export type COCOPolygon = number[][];
+
 export interface COCOAnnotation {
   id: number;
   image_id: number;
   category_id: number;
-  segmentation: COCORLE | number[][]; // Can be RLE or Polygon (we focus on RLE per requirements)
+  segmentation: COCORLE | COCOPolygon; // Can be RLE or Polygon
   area: number;
   bbox: [number, number, number, number]; // [x, y, width, height]
   iscrowd: number;
@@ -36,4 +39,36 @@ export interface COCOJson {
   images: COCOImage[];
   annotations: COCOAnnotation[];
   categories: COCOCategory[];
-}
\ No newline at end of file
+}
+
+export interface WindowLevel {
+  center: number;
+  width: number;
+}
+
+// How masks are drawn: filled, as boundary outlines, or both
+export type MaskStyle = 'fill' | 'outline' | 'both';
+
+// How boxes are drawn: filled with an outline, or outline only
+export type BoxStyle = 'filled' | 'solid' | 'dashed';
+
+export interface DisplaySettings {
+  showMasks: boolean;
+  showBoxes: boolean;
+  showLabels: boolean;
+  maskStyle: MaskStyle;
+  outlineWidth: number; // Mask outline thickness in image pixels
+  boxStyle: BoxStyle;
+  opacity: number; // 0-1, applied to mask and box fills
+  hiddenAnnotationIds: number[];
+  hiddenCategoryIds: number[];
+  window: WindowLevel | null; // null = the image's default window
+  invert: boolean;
+}
+
+// Per-annotation display override (e.g. match status when comparing with predictions)
+export interface AnnotationStyle {
+  color: [number, number, number];
+  label?: string; // Replaces the category name on the canvas and in the legend
+  dashed?: boolean; // Dashed bbox outline, whatever the box style
+}
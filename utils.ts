@@ -1,4 +1,4 @@
-import { COCORLE, COCOImage } from './types';
+import { COCORLE, COCOImage, COCOPolygon, COCOAnnotation, DisplaySettings } from './types';
 
 /**
  * Decodes COCO RLE String (Compressed) into an array of run lengths.
@@ -40,30 +40,61 @@ export const decodeCocoRleString = (rleString: string): number[] => {
   return counts;
 };
 
+/**
+ * Normalizes RLE counts into a number[] regardless of the stored format.
+ * Returns null if the counts cannot be decoded.
+ */
+export const getRleCounts = (rle: COCORLE): number[] | null => {
+  if (Array.isArray(rle.counts)) return rle.counts;
+  if (typeof rle.counts === 'string') {
+    try {
+      return decodeCocoRleString(rle.counts);
+    } catch (e) {
+      console.error("Failed to decode RLE string", e);
+      return null;
+    }
+  }
+  return null;
+};
+
+/**
+ * Calls fn for every foreground span of RLE counts. Runs are column-major, so a span is
+ * one column x covering rows y0 (inclusive) to y1 (exclusive); runs crossing columns are split.
+ */
+export const forEachRleSpan = (counts: number[], h: number, fn: (x: number, y0: number, y1: number) => void) => {
+  let p = 0;
+  for (let i = 0; i < counts.length; i++) {
+    const end = p + counts[i];
+    if (i % 2 === 1) {
+      while (p < end) {
+        const x = Math.floor(p / h);
+        const y0 = p - x * h;
+        const y1 = Math.min(h, y0 + end - p);
+        fn(x, y0, y1);
+        p += y1 - y0;
+      }
+    }
+    p = end;
+  }
+};
+
+// One RGBA pixel as a 32-bit value in the platform's byte order, for filling ImageData through a Uint32Array
+const packRgba = (r: number, g: number, b: number, a: number): number =>
+  new Uint32Array(new Uint8ClampedArray([r, g, b, a]).buffer)[0];
+
 /**
  * Decodes COCO RLE (Run-Length Encoding) into an HTMLCanvasElement.
  * Supports both Array (Uncompressed) and String (Compressed) formats.
  */
 export const decodeRleToCanvas = (
   rle: COCORLE,
-  color: [number, number, number]
+  color: [number, number, number],
+  alpha = 210
 ): HTMLCanvasElement | null => {
   const [h, w] = rle.size;
   
-  // Normalize counts: ensure we have a number[]
-  let counts: number[];
-  if (Array.isArray(rle.counts)) {
-    counts = rle.counts;
-  } else if (typeof rle.counts === 'string') {
-    try {
-      counts = decodeCocoRleString(rle.counts);
-    } catch (e) {
-      console.error("Failed to decode RLE string", e);
-      return null;
-    }
-  } else {
-    return null;
-  }
+  const counts = getRleCounts(rle);
+  if (!counts || counts.length === 0) return null;
 
   const canvas = document.createElement('canvas');
   canvas.width = w;
@@ -72,65 +103,190 @@ export const decodeRleToCanvas = (
   if (!ctx) return null;
 
   const imageData = ctx.createImageData(w, h);
-  const data = imageData.data;
+  // Alpha defaults to 210 for better visibility
+  const pixels = new Uint32Array(imageData.data.buffer);
+  const value = packRgba(color[0], color[1], color[2], alpha);
 
-  let countsIndex = 0;
-  if (!counts || counts.length === 0) return null;
+  forEachRleSpan(counts, h, (x, y0, y1) => {
+    if (x >= w) return;
+    for (let y = y0; y < y1; y++) pixels[y * w + x] = value;
+  });
+
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
 
-  let runRemaining = counts[0];
-  let currentValue = 0; // 0 = background, 1 = foreground. Starts with 0.
+/**
+ * Foreground of RLE counts cropped to its bounding box, as white RGBA pixels
+ * (a stencil to be tinted when drawn). Null if the mask is empty.
+ */
+export const rleToStencil = (
+  counts: number[],
+  h: number,
+  w: number
+): { x: number; y: number; width: number; height: number; pixels: Uint8ClampedArray<ArrayBuffer> } | null => {
+  let xMin = Infinity, yMin = Infinity, xMax = -1, yMax = -1;
+  forEachRleSpan(counts, h, (x, y0, y1) => {
+    if (x >= w) return;
+    if (x < xMin) xMin = x;
+    if (x > xMax) xMax = x;
+    if (y0 < yMin) yMin = y0;
+    if (y1 - 1 > yMax) yMax = y1 - 1;
+  });
+  if (xMax < 0) return null;
 
-  // Iterate in Column-Major order (x outer, y inner)
-  for (let x = 0; x < w; x++) {
-    for (let y = 0; y < h; y++) {
-      
-      // Consume runs until we have a valid positive run length or run out of data
-      while (runRemaining === 0) {
-        countsIndex++;
-        if (countsIndex < counts.length) {
-          runRemaining = counts[countsIndex];
-          currentValue = countsIndex % 2;
-        } else {
-          // End of stream, stop processing
-          break;
+  const width = xMax - xMin + 1;
+  const height = yMax - yMin + 1;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const view = new Uint32Array(pixels.buffer);
+  const white = packRgba(255, 255, 255, 255);
+  forEachRleSpan(counts, h, (x, y0, y1) => {
+    if (x >= w) return;
+    for (let y = y0; y < y1; y++) view[(y - yMin) * width + (x - xMin)] = white;
+  });
+  return { x: xMin, y: yMin, width, height, pixels };
+};
+
+/**
+ * Boundary of RLE counts as pixel-edge line segments, flattened as [x0, y0, x1, y1, ...]
+ * in pixel-corner coordinates. Collinear neighbouring edges are joined, so strokes stay cheap.
+ */
+export const rleToBoundary = (counts: number[], h: number, w: number): Float32Array<ArrayBuffer> => {
+  // Foreground intervals per column, flattened as [y0, y1, ...]
+  const columns: number[][] = Array.from({ length: w }, () => []);
+  forEachRleSpan(counts, h, (x, y0, y1) => {
+    if (x >= w) return;
+    const column = columns[x];
+    if (column.length > 0 && column[column.length - 1] === y0) column[column.length - 1] = y1;
+    else column.push(y0, y1);
+  });
+
+  const segments: number[] = [];
+  const NONE: number[] = [];
+  // Horizontal edges still being extended to the right: y -> starting x
+  let open = new Map<number, number>();
+  for (let x = 0; x <= w; x++) {
+    const left = x > 0 ? columns[x - 1] : NONE;
+    const right = x < w ? columns[x] : NONE;
+
+    // Vertical edges on line x: rows covered by exactly one of the two columns
+    const ends: number[] = [];
+    let i = 0, j = 0;
+    while (i < left.length || j < right.length) {
+      if (j >= right.length || (i < left.length && left[i] < right[j])) ends.push(left[i++]);
+      else if (i >= left.length || right[j] < left[i]) ends.push(right[j++]);
+      else { i++; j++; } // Shared endpoint: coverage does not change there
+    }
+    for (let k = 0; k < ends.length; k += 2) segments.push(x, ends[k], x, ends[k + 1]);
+
+    // Horizontal edges along the top and bottom of each interval in column x
+    const next = new Map<number, number>();
+    for (let k = 0; k < right.length; k++) next.set(right[k], open.get(right[k]) ?? x);
+    open.forEach((startX, y) => {
+      if (!next.has(y)) segments.push(startX, y, x, y);
+    });
+    open = next;
+  }
+  return new Float32Array(segments);
+};
+
+/**
+ * Outer boundaries of RLE counts as polygons [x1, y1, x2, y2, ...] along pixel corners,
+ * one per 8-connected region. Holes are dropped, since COCO and YOLO polygons cannot express them.
+ */
+export const rleToPolygons = (counts: number[], h: number, w: number): number[][] => {
+  let xMin = Infinity, yMin = Infinity, xMax = -1, yMax = -1;
+  forEachRleSpan(counts, h, (x, y0, y1) => {
+    if (x >= w) return;
+    xMin = Math.min(xMin, x);
+    xMax = Math.max(xMax, x);
+    yMin = Math.min(yMin, y0);
+    yMax = Math.max(yMax, y1 - 1);
+  });
+  if (xMax < 0) return [];
+
+  // Foreground of the bounding box with a one pixel empty border
+  const cw = xMax - xMin + 1;
+  const ch = yMax - yMin + 1;
+  const gridWidth = cw + 2;
+  const grid = new Uint8Array(gridWidth * (ch + 2));
+  forEachRleSpan(counts, h, (x, y0, y1) => {
+    if (x >= w) return;
+    for (let y = y0; y < y1; y++) grid[(y - yMin + 1) * gridWidth + (x - xMin + 1)] = 1;
+  });
+  const at = (x: number, y: number) => grid[(y + 1) * gridWidth + (x + 1)];
+
+  // Boundary edges between pixel corners, directed so the foreground is on their right (y down).
+  // A corner has two outgoing edges where two regions touch diagonally.
+  const vw = cw + 1;
+  const vertexCount = vw * (ch + 1);
+  const out1 = new Int32Array(vertexCount).fill(-1);
+  const out2 = new Int32Array(vertexCount).fill(-1);
+  const addEdge = (from: number, to: number) => {
+    if (out1[from] < 0) out1[from] = to;
+    else out2[from] = to;
+  };
+  for (let y = 0; y < ch; y++) {
+    for (let x = 0; x < cw; x++) {
+      if (!at(x, y)) continue;
+      const v = y * vw + x;
+      if (!at(x, y - 1)) addEdge(v, v + 1);
+      if (!at(x + 1, y)) addEdge(v + 1, v + vw + 1);
+      if (!at(x, y + 1)) addEdge(v + vw + 1, v + vw);
+      if (!at(x - 1, y)) addEdge(v + vw, v);
+    }
+  }
+
+  const polygons: number[][] = [];
+  for (let start = 0; start < vertexCount; start++) {
+    while (out1[start] >= 0 || out2[start] >= 0) {
+      const points: number[] = [];
+      let v = start;
+      let dx = 0, dy = 0;
+      while (true) {
+        // At a diagonal junction, turn left so regions touching at a corner stay one outline
+        let to = out1[v] >= 0 ? out1[v] : out2[v];
+        if (out1[v] >= 0 && out2[v] >= 0) {
+          const leftX = dy, leftY = -dx;
+          const t1 = out1[v];
+          to = (t1 % vw) - (v % vw) === leftX && Math.floor(t1 / vw) - Math.floor(v / vw) === leftY ? t1 : out2[v];
         }
-      }
+        if (to < 0) break;
+        if (out1[v] === to) out1[v] = -1;
+        else out2[v] = -1;
 
-      // If foreground, set pixel color
-      if (currentValue === 1) {
-        // Convert (x,y) to Row-Major index for ImageData
-        // Index = (y * width + x) * 4 (RGBA)
-        const idx = (y * w + x) * 4;
-        data[idx] = color[0];     // R
-        data[idx + 1] = color[1]; // G
-        data[idx + 2] = color[2]; // B
-        data[idx + 3] = 210;      // Alpha (0-255). Increased for better visibility.
+        const ndx = (to % vw) - (v % vw);
+        const ndy = Math.floor(to / vw) - Math.floor(v / vw);
+        // Only corners where the direction changes are kept
+        if (ndx !== dx || ndy !== dy) points.push((v % vw) + xMin, Math.floor(v / vw) + yMin);
+        dx = ndx;
+        dy = ndy;
+        v = to;
       }
-
-      if (runRemaining > 0) {
-          runRemaining--;
+      // Traced clockwise (positive shoelace sum with y down) for outer boundaries, the other way for holes
+      let doubleArea = 0;
+      for (let i = 0; i < points.length; i += 2) {
+        const j = (i + 2) % points.length;
+        doubleArea += points[i] * points[j + 1] - points[j] * points[i + 1];
       }
+      if (doubleArea > 0) polygons.push(points);
     }
   }
-
-  ctx.putImageData(imageData, 0, 0);
-  return canvas;
+  return polygons;
 };
 
 /**
- * Calculates the center of mass (centroid) for a mask from RLE counts.
+ * Calculates the center of mass (centroid) for a mask.
+ * RLE masks are summed per run; polygons use the area-weighted polygon centroid.
  */
-export const calculateCentroid = (rle: COCORLE): { x: number; y: number } | null => {
-  const [h, w] = rle.size;
-  
-  let counts: number[];
-  if (Array.isArray(rle.counts)) {
-    counts = rle.counts;
-  } else if (typeof rle.counts === 'string') {
-    counts = decodeCocoRleString(rle.counts);
-  } else {
-    return null;
+export const calculateCentroid = (segmentation: COCORLE | COCOPolygon): { x: number; y: number } | null => {
+  if (!isRle(segmentation)) {
+    return calculatePolygonCentroid(segmentation);
   }
+
+  const rle = segmentation;
+  const [h, w] = rle.size;
+  const counts = getRleCounts(rle);
   
   if (!counts || counts.length === 0) return null;
 
@@ -138,40 +294,426 @@ export const calculateCentroid = (rle: COCORLE): { x: number; y: number } | null
   let totalY = 0;
   let totalPixels = 0;
 
-  let countsIndex = 0;
-  let runRemaining = counts[0];
-  let currentValue = 0;
+  forEachRleSpan(counts, h, (x, y0, y1) => {
+    if (x >= w) return;
+    const n = y1 - y0;
+    totalX += x * n;
+    totalY += (y0 + y1 - 1) * n / 2; // Sum of rows y0..y1-1
+    totalPixels += n;
+  });
+
+  if (totalPixels === 0) return null;
+
+  return {
+    x: totalX / totalPixels,
+    y: totalY / totalPixels
+  };
+};
+
+/**
+ * Type guard: true if the segmentation is RLE (compressed or not), false for polygons.
+ */
+export const isRle = (segmentation: COCORLE | COCOPolygon): segmentation is COCORLE => {
+  return !!segmentation && !Array.isArray(segmentation) && 'counts' in segmentation;
+};
+
+/**
+ * Centroid of a (multi-part) polygon, weighted by the area of each part.
+ * Degenerate polygons fall back to the mean of their vertices.
+ */
+const calculatePolygonCentroid = (polygons: COCOPolygon): { x: number; y: number } | null => {
+  let areaSum = 0;
+  let cx = 0;
+  let cy = 0;
+  let vx = 0;
+  let vy = 0;
+  let vn = 0;
+
+  polygons.forEach(poly => {
+    const n = Math.floor(poly.length / 2);
+    for (let i = 0; i < n; i++) {
+      const x0 = poly[i * 2];
+      const y0 = poly[i * 2 + 1];
+      const x1 = poly[((i + 1) % n) * 2];
+      const y1 = poly[((i + 1) % n) * 2 + 1];
+      const cross = x0 * y1 - x1 * y0;
+      areaSum += cross;
+      cx += (x0 + x1) * cross;
+      cy += (y0 + y1) * cross;
+      vx += x0;
+      vy += y0;
+      vn++;
+    }
+  });
+
+  if (vn === 0) return null;
+  if (Math.abs(areaSum) < 1e-9) return { x: vx / vn, y: vy / vn };
+
+  // areaSum is twice the signed area, hence the factor 3 instead of 6
+  return { x: cx / (3 * areaSum), y: cy / (3 * areaSum) };
+};
+
+/**
+ * Rasterizes a single polygon into uncompressed RLE counts (column-major).
+ * Port of rleFrPoly from maskApi.c, so pixel areas match pycocotools.
+ */
+const polygonToCounts = (xy: number[], h: number, w: number): number[] => {
+  const scale = 5;
+  const k = Math.floor(xy.length / 2);
+  if (k === 0) return [h * w];
+
+  // Upsample and get discrete points densely along the entire boundary
+  const x: number[] = [];
+  const y: number[] = [];
+  for (let j = 0; j < k; j++) {
+    x.push(Math.trunc(scale * xy[j * 2] + 0.5));
+    y.push(Math.trunc(scale * xy[j * 2 + 1] + 0.5));
+  }
+  x.push(x[0]);
+  y.push(y[0]);
+
+  const u: number[] = [];
+  const v: number[] = [];
+  for (let j = 0; j < k; j++) {
+    let xs = x[j], xe = x[j + 1], ys = y[j], ye = y[j + 1];
+    const dx = Math.abs(xe - xs);
+    const dy = Math.abs(ys - ye);
+    const flip = (dx >= dy && xs > xe) || (dx < dy && ys > ye);
+    if (flip) {
+      [xs, xe] = [xe, xs];
+      [ys, ye] = [ye, ys];
+    }
+    // Guard repeated vertices (0/0) which C would leave undefined
+    const s = dx === 0 && dy === 0 ? 0 : dx >= dy ? (ye - ys) / dx : (xe - xs) / dy;
+    if (dx >= dy) {
+      for (let d = 0; d <= dx; d++) {
+        const t = flip ? dx - d : d;
+        u.push(t + xs);
+        v.push(Math.trunc(ys + s * t + 0.5));
+      }
+    } else {
+      for (let d = 0; d <= dy; d++) {
+        const t = flip ? dy - d : d;
+        v.push(t + ys);
+        u.push(Math.trunc(xs + s * t + 0.5));
+      }
+    }
+  }
+
+  // Get points along the y-boundary and downsample
+  const a: number[] = [];
+  for (let j = 1; j < u.length; j++) {
+    if (u[j] === u[j - 1]) continue;
+    let xd = u[j] < u[j - 1] ? u[j] : u[j] - 1;
+    xd = (xd + 0.5) / scale - 0.5;
+    if (Math.floor(xd) !== xd || xd < 0 || xd > w - 1) continue;
+    let yd = v[j] < v[j - 1] ? v[j] : v[j - 1];
+    yd = (yd + 0.5) / scale - 0.5;
+    yd = Math.ceil(Math.min(Math.max(yd, 0), h));
+    a.push(xd * h + yd);
+  }
+
+  // Compute RLE encoding given the y-boundary points
+  a.push(h * w);
+  a.sort((p, q) => p - q);
+  let prev = 0;
+  for (let j = 0; j < a.length; j++) {
+    const t = a[j];
+    a[j] -= prev;
+    prev = t;
+  }
+
+  const counts: number[] = [];
+  let j = 0;
+  counts.push(a[j++]);
+  while (j < a.length) {
+    if (a[j] > 0) {
+      counts.push(a[j++]);
+    } else {
+      j++;
+      if (j < a.length) counts[counts.length - 1] += a[j++];
+    }
+  }
+  return counts;
+};
+
+/**
+ * Merges RLE counts of equally sized masks into their union (or intersection).
+ * Port of rleMerge from maskApi.c.
+ */
+export const mergeRleCounts = (list: number[][], intersect = false): number[] => {
+  if (list.length === 0) return [];
+  let merged = list[0].slice();
+
+  for (let i = 1; i < list.length; i++) {
+    const A = merged;
+    const B = list[i];
+    const out: number[] = [];
+    let ca = A[0], cb = B[0];
+    let v = 0, va = 0, vb = 0;
+    let a = 1, b = 1, cc = 0, ct = 1;
+
+    while (ct > 0) {
+      const c = Math.min(ca, cb);
+      cc += c;
+      ct = 0;
+      ca -= c;
+      if (!ca && a < A.length) { ca = A[a++]; va = 1 - va; }
+      ct += ca;
+      cb -= c;
+      if (!cb && b < B.length) { cb = B[b++]; vb = 1 - vb; }
+      ct += cb;
+      const vp = v;
+      v = intersect ? (va & vb) : (va | vb);
+      if (v !== vp || ct === 0) {
+        out.push(cc);
+        cc = 0;
+      }
+    }
+    merged = out;
+  }
+
+  return merged;
+};
+
+/**
+ * Converts polygon segmentation (one or more parts) into a single uncompressed RLE.
+ * Parts are rasterized individually and unioned, like pycocotools' frPyObjects + merge.
+ */
+export const polygonsToRle = (polygons: COCOPolygon, h: number, w: number): COCORLE => {
+  const parts = polygons
+    .filter(poly => poly.length >= 6)
+    .map(poly => polygonToCounts(poly, h, w));
+  return {
+    counts: parts.length > 0 ? mergeRleCounts(parts) : [h * w],
+    size: [h, w]
+  };
+};
+
+/**
+ * Normalizes any segmentation into RLE.
+ * Polygons carry no size of their own, so the image dimensions are required.
+ */
+export const segmentationToRle = (
+  segmentation: COCORLE | COCOPolygon,
+  h: number,
+  w: number
+): COCORLE | null => {
+  if (!segmentation) return null;
+  if (isRle(segmentation)) return segmentation;
+  if (Array.isArray(segmentation) && segmentation.length > 0) {
+    return polygonsToRle(segmentation, h, w);
+  }
+  return null;
+};
+
+/**
+ * Encodes RLE counts into the compressed COCO string format.
+ * Port of rleToString from maskApi.c, so the output is byte-identical to pycocotools.
+ */
+export const encodeCocoRleString = (counts: number[]): string => {
+  const chars: number[] = [];
+  for (let i = 0; i < counts.length; i++) {
+    let x = counts[i];
+    // Delta encoding against the run two places back
+    if (i > 2) x -= counts[i - 2];
+    let more = true;
+    while (more) {
+      let c = x & 0x1f;
+      x >>= 5;
+      more = (c & 0x10) ? x !== -1 : x !== 0;
+      if (more) c |= 0x20;
+      chars.push(c + 48);
+    }
+  }
+  let s = '';
+  for (let i = 0; i < chars.length; i += 4096) {
+    s += String.fromCharCode(...chars.slice(i, i + 4096));
+  }
+  return s;
+};
+
+/**
+ * Decodes RLE into a binary mask (row-major, 1 = foreground).
+ */
+export const decodeRleToMask = (rle: COCORLE): Uint8Array | null => {
+  const [h, w] = rle.size;
+  const counts = getRleCounts(rle);
+  if (!counts) return null;
+
+  const mask = new Uint8Array(h * w);
+  let p = 0;
+  for (let i = 0; i < counts.length; i++) {
+    if (i % 2 === 1) {
+      const end = Math.min(p + counts[i], h * w);
+      for (let k = p; k < end; k++) {
+        const y = k % h;
+        mask[y * w + (k - y) / h] = 1;
+      }
+    }
+    p += counts[i];
+  }
+  return mask;
+};
 
+/**
+ * Encodes a binary mask (row-major) into RLE counts (column-major).
+ * Port of rleEncode from maskApi.c; counts always start with a background run.
+ */
+export const maskToRleCounts = (mask: ArrayLike<number>, h: number, w: number): number[] => {
+  const counts: number[] = [];
+  let prev = 0;
+  let run = 0;
   for (let x = 0; x < w; x++) {
     for (let y = 0; y < h; y++) {
-      while (runRemaining === 0) {
-        countsIndex++;
-        if (countsIndex < counts.length) {
-          runRemaining = counts[countsIndex];
-          currentValue = countsIndex % 2;
-        } else {
-          break;
-        }
+      const v = mask[y * w + x] ? 1 : 0;
+      if (v !== prev) {
+        counts.push(run);
+        run = 0;
+        prev = v;
       }
+      run++;
+    }
+  }
+  counts.push(run);
+  return counts;
+};
 
-      if (currentValue === 1) {
-        totalX += x;
-        totalY += y;
-        totalPixels++;
-      }
-      
-      if (runRemaining > 0) runRemaining--;
+/**
+ * Foreground pixel count of RLE counts. Port of rleArea from maskApi.c.
+ */
+export const rleArea = (counts: number[]): number => {
+  let area = 0;
+  for (let i = 1; i < counts.length; i += 2) area += counts[i];
+  return area;
+};
+
+/**
+ * Tight bounding box [x, y, w, h] of RLE counts. Port of rleToBbox from maskApi.c.
+ */
+export const rleToBbox = (counts: number[], h: number, w: number): [number, number, number, number] => {
+  const m = Math.floor(counts.length / 2) * 2;
+  if (m === 0) return [0, 0, 0, 0];
+
+  let xs = w, ys = h, xe = 0, ye = 0;
+  let cc = 0, xp = 0;
+  for (let j = 0; j < m; j++) {
+    cc += counts[j];
+    const t = cc - (j % 2);
+    const y = t % h;
+    const x = (t - y) / h;
+    if (j % 2 === 0) {
+      xp = x;
+    } else if (xp < x) {
+      // The run wraps into the next column, so it spans the full height
+      ys = 0;
+      ye = h - 1;
     }
+    xs = Math.min(xs, x);
+    xe = Math.max(xe, x);
+    ys = Math.min(ys, y);
+    ye = Math.max(ye, y);
   }
+  return [xs, ys, xe - xs + 1, ye - ys + 1];
+};
 
-  if (totalPixels === 0) return null;
+/**
+ * Rasterizes a bbox [x, y, w, h] into RLE the way pycocotools' frBbox does (as a 4-point polygon).
+ */
+export const bboxToRle = (bbox: number[], h: number, w: number): COCORLE => {
+  const [xs, ys, bw, bh] = bbox;
+  const xe = xs + bw;
+  const ye = ys + bh;
+  return polygonsToRle([[xs, ys, xs, ye, xe, ye, xe, ys]], h, w);
+};
 
+/**
+ * Intersection and union pixel counts of two equally sized RLE masks.
+ */
+export const rleOverlap = (a: number[], b: number[]): { intersection: number; union: number } => {
+  if (a.length === 0 || b.length === 0) return { intersection: 0, union: rleArea(a) + rleArea(b) };
+  let ca = a[0], cb = b[0];
+  let va = false, vb = false;
+  let ia = 1, ib = 1;
+  let intersection = 0, union = 0;
+  let ct = 1;
+  while (ct > 0) {
+    const c = Math.min(ca, cb);
+    if (va || vb) {
+      union += c;
+      if (va && vb) intersection += c;
+    }
+    ct = 0;
+    ca -= c;
+    if (!ca && ia < a.length) { ca = a[ia++]; va = !va; }
+    ct += ca;
+    cb -= c;
+    if (!cb && ib < b.length) { cb = b[ib++]; vb = !vb; }
+    ct += cb;
+  }
+  return { intersection, union };
+};
+
+/**
+ * IoU of two boxes [x, y, w, h]. For crowd ground truth the union is the detection's area.
+ * Port of bbIou from maskApi.c.
+ */
+export const bbIou = (dt: number[], gt: number[], iscrowd = false): number => {
+  const w = Math.min(dt[0] + dt[2], gt[0] + gt[2]) - Math.max(dt[0], gt[0]);
+  if (w <= 0) return 0;
+  const h = Math.min(dt[1] + dt[3], gt[1] + gt[3]) - Math.max(dt[1], gt[1]);
+  if (h <= 0) return 0;
+  const i = w * h;
+  const da = dt[2] * dt[3];
+  return i / (iscrowd ? da : da + gt[2] * gt[3] - i);
+};
+
+/**
+ * IoU of two RLE masks of size h x w. For crowd ground truth the union is the detection's area.
+ * Port of rleIou from maskApi.c (boxes are checked first to skip disjoint pairs).
+ */
+export const rleIou = (dt: number[], gt: number[], h: number, w: number, iscrowd = false): number => {
+  if (bbIou(rleToBbox(dt, h, w), rleToBbox(gt, h, w), iscrowd) <= 0) return 0;
+  const { intersection, union } = rleOverlap(dt, gt);
+  if (intersection === 0) return 0;
+  return intersection / (iscrowd ? rleArea(dt) : union);
+};
+
+/**
+ * Returns a copy of the annotation with its segmentation replaced by the mask,
+ * stored as compressed RLE, and area/bbox recomputed the way pycocotools does.
+ */
+export const applyMaskToAnnotation = (ann: COCOAnnotation, mask: Uint8Array, h: number, w: number): COCOAnnotation => {
+  const counts = maskToRleCounts(mask, h, w);
   return {
-    x: totalX / totalPixels,
-    y: totalY / totalPixels
+    ...ann,
+    segmentation: { counts: encodeCocoRleString(counts), size: [h, w] },
+    area: rleArea(counts),
+    bbox: rleToBbox(counts, h, w)
   };
 };
 
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  showMasks: true,
+  showBoxes: true,
+  showLabels: true,
+  maskStyle: 'fill',
+  outlineWidth: 2,
+  boxStyle: 'filled',
+  opacity: 0.8,
+  hiddenAnnotationIds: [],
+  hiddenCategoryIds: [],
+  window: null,
+  invert: false
+};
+
+/**
+ * True if the annotation is neither hidden individually nor through its category.
+ */
+export const isAnnotationVisible = (ann: COCOAnnotation, settings: DisplaySettings): boolean => {
+  return !settings.hiddenAnnotationIds.includes(ann.id) && !settings.hiddenCategoryIds.includes(ann.category_id);
+};
+
 /**
  * Generates a consistent random color for an ID.
  */
@@ -272,4 +814,96 @@ export const buildFileTree = (images: COCOImage[]): TreeNode => {
   });
 
   return root;
-};
\ No newline at end of file
+};
+
+/**
+ * Images in a tree node and all its subfolders.
+ */
+export const collectTreeImages = (node: TreeNode): COCOImage[] => {
+  if (node.type === 'file') return node.data ? [node.data] : [];
+  return Object.values(node.children || {}).flatMap(collectTreeImages);
+};
+
+/**
+ * Result of matching a batch of uploaded files against the COCO images.
+ */
+export interface ImageMatch {
+  file: File;
+  image: COCOImage;
+}
+
+export interface AmbiguousMatch {
+  file: File;
+  candidates: COCOImage[];
+  reason: 'multiple-images' | 'duplicate-file';
+}
+
+export interface ImageBatch {
+  matched: ImageMatch[];
+  unmatched: File[];
+  ambiguous: AmbiguousMatch[];
+}
+
+/**
+ * Strips the extension from a filename.
+ * e.g. "slice_001.png" -> "slice_001"
+ */
+export const stripExtension = (name: string): string => {
+  return name.substring(0, name.lastIndexOf('.')) || name;
+};
+
+/**
+ * Key an uploaded file and a COCO image are matched on: basename without extension, lowercased.
+ */
+export const getMatchKey = (fileName: string): string => {
+  return stripExtension(getBasename(fileName)).toLowerCase();
+};
+
+/**
+ * Returns the path of a file relative to the dropped/selected folder, falling back to its name.
+ */
+export const getRelativePath = (file: File): string => {
+  return file.webkitRelativePath || file.name;
+};
+
+/**
+ * Matches many uploaded files to COCO images in one pass.
+ * Files are matched on basename without extension (case-insensitive), looked up in the
+ * images grouped by getMatchKey. When several images share a basename, the file's folder
+ * path is used to disambiguate.
+ */
+export const matchImageFiles = (files: File[], byName: Map<string, COCOImage[]>): ImageBatch => {
+  const batch: ImageBatch = { matched: [], unmatched: [], ambiguous: [] };
+  const claimed = new Map<number, File>();
+
+  files.forEach(file => {
+    const key = getMatchKey(file.name);
+    let candidates = byName.get(key) || [];
+
+    if (candidates.length > 1) {
+      // Prefer images whose path ends with the file's relative path
+      const relPath = stripExtension(getRelativePath(file)).replace(/\\/g, '/').toLowerCase();
+      const narrowed = candidates.filter(img =>
+        stripExtension(img.file_name).replace(/\\/g, '/').toLowerCase().endsWith(relPath)
+      );
+      if (narrowed.length > 0) candidates = narrowed;
+    }
+
+    if (candidates.length === 0) {
+      batch.unmatched.push(file);
+    } else if (candidates.length > 1) {
+      batch.ambiguous.push({ file, candidates, reason: 'multiple-images' });
+    } else if (claimed.has(candidates[0].id)) {
+      batch.ambiguous.push({ file, candidates, reason: 'duplicate-file' });
+    } else {
+      claimed.set(candidates[0].id, file);
+      batch.matched.push({ file, image: candidates[0] });
+    }
+  });
+
+  batch.matched.sort((a, b) =>
+    a.image.file_name.localeCompare(b.image.file_name, undefined, { numeric: true })
+  );
+
+  return batch;
+};